@@ -52,6 +52,8 @@ const webviewConfigs = [
   {
     entryPoints: ['webview/kanban/main.ts'],
     outfile: 'dist/webview/kanban.js',
+    // Card descriptions use the editor's React node views
+    jsx: 'automatic',
   },
   {
     entryPoints: ['webview/viewers/pdf-viewer.ts'],
@@ -72,19 +74,24 @@ const webviewConfigs = [
 ];
 
 /**
- * CSS files to copy
+ * Editor styles shared with kanban card descriptions
+ */
+const editorBlocksCss = 'webview/editor/styles/blocks.css';
+
+/**
+ * CSS files to copy (several sources are joined in order)
  */
 const cssFiles = [
   {
-    src: 'webview/editor/styles/editor.css',
+    src: ['webview/editor/styles/editor.css', editorBlocksCss],
     dest: 'dist/webview/editor.css',
   },
   {
-    src: 'webview/kanban/styles/kanban.css',
+    src: ['webview/kanban/styles/kanban.css', editorBlocksCss],
     dest: 'dist/webview/kanban.css',
   },
   {
-    src: 'webview/viewers/styles/viewer.css',
+    src: ['webview/viewers/styles/viewer.css'],
     dest: 'dist/webview/viewer.css',
   },
 ];
@@ -126,11 +133,12 @@ function copyCssFiles() {
   }
 
   for (const { src, dest } of cssFiles) {
-    const srcPath = path.join(__dirname, src);
+    const srcPaths = src.map((file) => path.join(__dirname, file));
     const destPath = path.join(__dirname, dest);
 
-    if (fs.existsSync(srcPath)) {
-      let css = fs.readFileSync(srcPath, 'utf-8');
+    const missing = src.filter((file, i) => !fs.existsSync(srcPaths[i]));
+    if (missing.length === 0) {
+      let css = srcPaths.map((srcPath) => fs.readFileSync(srcPath, 'utf-8')).join('\n');
 
       // Minify CSS in production
       if (production) {
@@ -142,9 +150,9 @@ function copyCssFiles() {
       }
 
       fs.writeFileSync(destPath, css);
-      console.log(`[css] Copied ${src} -> ${dest}`);
+      console.log(`[css] Copied ${src.join(' + ')} -> ${dest}`);
     } else {
-      console.warn(`[css] Warning: ${src} not found`);
+      console.warn(`[css] Warning: ${missing.join(', ')} not found`);
     }
   }
 }
@@ -192,8 +200,8 @@ async function main() {
     await Promise.all(contexts.map((ctx) => ctx.watch()));
 
     // Also watch CSS files
-    for (const { src, dest } of cssFiles) {
-      const srcPath = path.join(__dirname, src);
+    for (const file of new Set(cssFiles.flatMap(({ src }) => src))) {
+      const srcPath = path.join(__dirname, file);
       fs.watch(srcPath, () => {
         copyCssFiles();
       });
@@ -100,6 +100,7 @@ export class HTMLBuilder {
     <title>Kanban Board</title>
 </head>
 <body>
+    <div id="toolbar"></div>
     <div id="board"></div>
     <script nonce="${nonce}" src="${scriptUri}"></script>
 </body>
@@ -1,16 +1,40 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { HTMLBuilder } from './HTMLBuilder';
-import { ExtensionToWebviewMessage, WebviewToExtensionMessage } from '../types';
+import { CardLocator, ExtensionToWebviewMessage, WebviewToExtensionMessage } from '../types';
+import { FolderBoardSource } from '../kanban/FolderBoardSource';
+import {
+  parseMarkdown,
+  serializeBoard,
+  deleteCard,
+  insertCard,
+  getCardTitle,
+  wouldExceedWipLimit,
+  findCardAt,
+  addCard,
+  updateCard,
+} from '../../webview/kanban/parser';
+import { buildCaptureDescription, getCaptureTitle, parseCodeLink } from '../kanban/codeLinks';
+import { findEmbeddedImages, replaceEmbeddedImages } from '../kanban/embeddedImages';
+import { saveImageAsset, pickImageAsset, getImagePath } from './imageAssets';
+import { findWorkspaceFiles } from './workspaceFiles';
+import { CardDocuments } from '../kanban/CardDocuments';
 
 export class KanbanEditorProvider implements vscode.CustomTextEditorProvider {
   public static readonly viewType = 'pmtoolkit.kanbanEditor';
 
-  private updateTimeout: NodeJS.Timeout | undefined;
-
   // Track active webview panels for commands
   private static activeWebviewPanels = new Map<string, vscode.WebviewPanel>();
 
+  // Messages (open or reveal a card) to send once a board's webview has loaded
+  private static pendingMessages = new Map<string, ExtensionToWebviewMessage>();
+
+  // Debounced webview edits not yet written to their document, by document URI
+  private static pendingUpdates = new Map<
+    string,
+    { timeout: NodeJS.Timeout; document: vscode.TextDocument; content: string }
+  >();
+
   constructor(private readonly context: vscode.ExtensionContext) {}
 
   /**
@@ -61,6 +85,374 @@ export class KanbanEditorProvider implements vscode.CustomTextEditorProvider {
     await vscode.workspace.applyEdit(edit);
   }
 
+  /**
+   * Open a board and show the card with the given key
+   */
+  public static async openCard(uri: vscode.Uri, key: string): Promise<void> {
+    await KanbanEditorProvider.openWithMessage(uri, { type: 'openCard', payload: { key } });
+  }
+
+  /**
+   * Open a board scrolled to a card, without opening its modal
+   */
+  public static async revealCard(uri: vscode.Uri, locator: CardLocator): Promise<void> {
+    await KanbanEditorProvider.openWithMessage(uri, { type: 'revealCard', payload: locator });
+  }
+
+  /**
+   * Post a message to a board's webview, opening the board first if needed
+   */
+  private static async openWithMessage(
+    uri: vscode.Uri,
+    message: ExtensionToWebviewMessage
+  ): Promise<void> {
+    const panel = KanbanEditorProvider.activeWebviewPanels.get(uri.toString());
+    if (panel) {
+      panel.reveal();
+      panel.webview.postMessage(message);
+      return;
+    }
+
+    KanbanEditorProvider.pendingMessages.set(uri.toString(), message);
+    await vscode.commands.executeCommand('vscode.openWith', uri, KanbanEditorProvider.viewType);
+  }
+
+  /**
+   * Open a card's description in a markdown editor tab. Without a locator
+   * the card is picked from the active board first.
+   */
+  public static async openCardInEditor(sourceUri?: vscode.Uri, locator?: CardLocator): Promise<void> {
+    const uri = sourceUri ?? KanbanEditorProvider.getActiveBoardUri();
+    if (!uri) {
+      vscode.window.showWarningMessage('No active Kanban board found');
+      return;
+    }
+
+    if (!locator) {
+      locator = await KanbanEditorProvider.pickCard(uri, 'Card to open in the editor');
+      if (!locator) return;
+    }
+
+    await CardDocuments.getInstance().open(uri, locator);
+  }
+
+  /**
+   * Move a card to another .kanban board in the workspace. Without a locator
+   * the card is picked from the board first. Both files change in a single
+   * WorkspaceEdit, so one undo reverts the whole transfer.
+   */
+  public static async moveCardToBoard(sourceUri?: vscode.Uri, locator?: CardLocator): Promise<void> {
+    const uri = sourceUri ?? KanbanEditorProvider.getActiveBoardUri();
+    if (!uri) {
+      vscode.window.showWarningMessage('No active Kanban board found');
+      return;
+    }
+
+    const sourceFolder = parseMarkdown((await vscode.workspace.openTextDocument(uri)).getText()).settings?.folder;
+    if (sourceFolder) {
+      vscode.window.showWarningMessage(
+        `Cards on ${path.basename(uri.fsPath, '.kanban')} are the files in ${sourceFolder.path}`
+      );
+      return;
+    }
+
+    if (!locator) {
+      locator = await KanbanEditorProvider.pickCard(uri, 'Card to move to another board');
+      if (!locator) return;
+    }
+
+    // Pick the target board and column
+    const files = await vscode.workspace.findFiles('**/*.kanban', '**/node_modules/**');
+    const boards = files.filter((file) => file.toString() !== uri.toString());
+    if (boards.length === 0) {
+      vscode.window.showInformationMessage('No other kanban boards found in the workspace');
+      return;
+    }
+    const pick = await KanbanEditorProvider.pickColumn(boards, `Move "${getCardTitle(locator.text)}" to board…`);
+    if (!pick) return;
+    const targetDocument = pick.document;
+
+    // Re-read both boards now that the pickers are closed, so nothing typed meanwhile is lost
+    await KanbanEditorProvider.flushPendingUpdates();
+    const sourceDocument = await vscode.workspace.openTextDocument(uri);
+    const source = parseMarkdown(sourceDocument.getText());
+    const target = parseMarkdown(targetDocument.getText());
+    const card = findCardAt(source, locator.columnIndex, locator.cardIndex, locator.text);
+    const column = target.columns[pick.columnIndex];
+    if (!card || !column) {
+      vscode.window.showErrorMessage('The card or column changed before it could be moved. Try again.');
+      return;
+    }
+    if (target.settings?.folder) {
+      vscode.window.showWarningMessage(`Cards on ${pick.label} are the files in ${target.settings.folder.path}`);
+      return;
+    }
+    if (target.settings?.enforceWip && wouldExceedWipLimit(target, card.id, column.id)) {
+      vscode.window.showWarningMessage(`${column.title} in ${pick.label} is at its WIP limit`);
+      return;
+    }
+
+    deleteCard(source, card.id);
+    insertCard(target, column.id, card);
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      sourceDocument.uri,
+      new vscode.Range(0, 0, sourceDocument.lineCount, 0),
+      serializeBoard(source)
+    );
+    edit.replace(
+      targetDocument.uri,
+      new vscode.Range(0, 0, targetDocument.lineCount, 0),
+      serializeBoard(target)
+    );
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      vscode.window.showErrorMessage('Failed to move the card');
+      return;
+    }
+
+    const action = await vscode.window.showInformationMessage(
+      `Moved "${getCardTitle(card.text)}" to ${pick.label} › ${column.title}`,
+      'Open Board'
+    );
+    if (action === 'Open Board') {
+      await vscode.commands.executeCommand('vscode.openWith', targetDocument.uri, KanbanEditorProvider.viewType);
+    }
+  }
+
+  /**
+   * Turn the selection in a text editor into a card at the end of a column,
+   * linking back to the selected lines. The board changes through a
+   * WorkspaceEdit, so it doesn't need to be open.
+   */
+  public static async captureSelection(editor = vscode.window.activeTextEditor): Promise<void> {
+    if (!editor) {
+      vscode.window.showWarningMessage('Select some text in an editor to send to a board');
+      return;
+    }
+
+    // Without a selection, take the line the cursor is on
+    const { document, selection } = editor;
+    const range = selection.isEmpty ? document.lineAt(selection.active.line).range : selection;
+    const text = document.getText(range);
+    if (!text.trim()) {
+      vscode.window.showWarningMessage('Select some text in an editor to send to a board');
+      return;
+    }
+    // A selection ending at the start of a line doesn't include that line
+    const endLine =
+      range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+
+    const boards = await vscode.workspace.findFiles('**/*.kanban', '**/node_modules/**');
+    if (boards.length === 0) {
+      vscode.window.showInformationMessage('No kanban boards found in the workspace');
+      return;
+    }
+
+    const title = await vscode.window.showInputBox({
+      prompt: 'Card title',
+      value: getCaptureTitle(text),
+      validateInput: (value) => (value.trim() ? undefined : 'Enter a title for the card'),
+    });
+    if (!title) return;
+
+    const pick = await KanbanEditorProvider.pickColumn(boards, `Add "${title.trim()}" to board…`);
+    if (!pick) return;
+
+    // Re-read the board now that the pickers are closed, so nothing typed meanwhile is lost
+    await KanbanEditorProvider.flushPendingUpdates();
+    const boardDocument = pick.document;
+    const board = parseMarkdown(boardDocument.getText());
+    const column = board.columns[pick.columnIndex];
+    if (!column) {
+      vscode.window.showErrorMessage('The column changed before the card could be added. Try again.');
+      return;
+    }
+    if (board.settings?.folder) {
+      vscode.window.showWarningMessage(`Cards on ${pick.label} are the files in ${board.settings.folder.path}`);
+      return;
+    }
+    if (board.settings?.enforceWip && column.settings?.wipLimit && column.cards.length >= column.settings.wipLimit) {
+      vscode.window.showWarningMessage(`${column.title} in ${pick.label} is at its WIP limit`);
+      return;
+    }
+
+    const description = buildCaptureDescription({
+      text,
+      languageId: document.languageId,
+      linkPath: path.relative(path.dirname(boardDocument.uri.fsPath), document.uri.fsPath).split(path.sep).join('/'),
+      label: vscode.workspace.asRelativePath(document.uri, false),
+      startLine: range.start.line + 1,
+      endLine: endLine + 1,
+    });
+    addCard(board, column.id, title.trim());
+    const card = column.cards[column.cards.length - 1];
+    updateCard(board, card.id, { description });
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      boardDocument.uri,
+      new vscode.Range(0, 0, boardDocument.lineCount, 0),
+      serializeBoard(board)
+    );
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      vscode.window.showErrorMessage('Failed to add the card');
+      return;
+    }
+
+    const action = await vscode.window.showInformationMessage(
+      `Added "${getCardTitle(card.text)}" to ${pick.label} › ${column.title}`,
+      'Open Board'
+    );
+    if (action === 'Open Board') {
+      await vscode.commands.executeCommand('vscode.openWith', boardDocument.uri, KanbanEditorProvider.viewType);
+    }
+  }
+
+  /**
+   * Write the base64 images embedded in a board's cards to the assets
+   * folder and point the cards at the files instead
+   */
+  public static async saveEmbeddedImages(): Promise<void> {
+    const document =
+      (await KanbanEditorProvider.getActiveBoardDocument()) ??
+      (vscode.window.activeTextEditor?.document.fileName.endsWith('.kanban')
+        ? vscode.window.activeTextEditor.document
+        : undefined);
+    if (!document) {
+      vscode.window.showWarningMessage('No active Kanban board found');
+      return;
+    }
+
+    const images = findEmbeddedImages(document.getText());
+    if (images.length === 0) {
+      vscode.window.showInformationMessage('This board has no embedded images');
+      return;
+    }
+
+    const paths = new Map<string, string>();
+    for (const image of images) {
+      const fileUri = await saveImageAsset(document.uri, image.filename, image.dataUrl);
+      paths.set(image.dataUrl, getImagePath(document.uri, fileUri));
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      document.uri,
+      new vscode.Range(0, 0, document.lineCount, 0),
+      replaceEmbeddedImages(document.getText(), paths)
+    );
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      vscode.window.showErrorMessage('Failed to update the board');
+      return;
+    }
+    vscode.window.showInformationMessage(
+      `Saved ${images.length} ${images.length === 1 ? 'image' : 'images'} from the board as files`
+    );
+  }
+
+  /**
+   * Let the user choose a board, then a column on it
+   */
+  private static async pickColumn(
+    boards: vscode.Uri[],
+    placeHolder: string
+  ): Promise<{ document: vscode.TextDocument; label: string; columnIndex: number } | undefined> {
+    const boardPick = await vscode.window.showQuickPick(
+      boards.map((file) => ({
+        label: path.basename(file.fsPath, '.kanban'),
+        description: vscode.workspace.asRelativePath(path.dirname(file.fsPath)),
+        uri: file,
+      })),
+      { placeHolder }
+    );
+    if (!boardPick) return undefined;
+
+    const document = await vscode.workspace.openTextDocument(boardPick.uri);
+    const columns = parseMarkdown(document.getText()).columns;
+    const columnPick = await vscode.window.showQuickPick(
+      columns.map((column, index) => ({
+        label: column.title,
+        description: `${column.cards.length} ${column.cards.length === 1 ? 'card' : 'cards'}`,
+        index,
+      })),
+      { placeHolder: `Column in ${boardPick.label}` }
+    );
+    if (!columnPick) return undefined;
+
+    return { document, label: boardPick.label, columnIndex: columnPick.index };
+  }
+
+  /**
+   * Open a link clicked in a card: web links in the browser, files relative
+   * to the board beside it, selecting the lines of a #L10-L24 fragment
+   */
+  private static async openLink(boardUri: vscode.Uri, href: string): Promise<void> {
+    if (/^(https?|mailto):/i.test(href)) {
+      await vscode.env.openExternal(vscode.Uri.parse(href));
+      return;
+    }
+
+    const link = parseCodeLink(href);
+    const fileUri = vscode.Uri.file(path.resolve(path.dirname(boardUri.fsPath), link.path));
+    const document = await vscode.workspace.openTextDocument(fileUri);
+    let selection: vscode.Range | undefined;
+    if (link.startLine !== undefined) {
+      const start = Math.min(link.startLine, document.lineCount) - 1;
+      const end = Math.min(link.endLine ?? link.startLine, document.lineCount) - 1;
+      selection = new vscode.Range(start, 0, end, document.lineAt(end).text.length);
+    }
+    await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, selection });
+  }
+
+  /**
+   * URI of the kanban board in the active editor tab
+   */
+  private static getActiveBoardUri(): vscode.Uri | undefined {
+    for (const [uri, panel] of KanbanEditorProvider.activeWebviewPanels) {
+      if (panel.active) {
+        return vscode.Uri.parse(uri);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Document of the board in the active editor tab, with pending webview edits written
+   */
+  public static async getActiveBoardDocument(): Promise<vscode.TextDocument | undefined> {
+    const uri = KanbanEditorProvider.getActiveBoardUri();
+    if (!uri) return undefined;
+
+    await KanbanEditorProvider.flushPendingUpdates();
+    return vscode.workspace.openTextDocument(uri);
+  }
+
+  /**
+   * Let the user choose a card from a board
+   */
+  private static async pickCard(uri: vscode.Uri, placeHolder: string): Promise<CardLocator | undefined> {
+    await KanbanEditorProvider.flushPendingUpdates();
+    const document = await vscode.workspace.openTextDocument(uri);
+    const board = parseMarkdown(document.getText());
+
+    const items = board.columns.flatMap((column, columnIndex) =>
+      column.cards.map((card, cardIndex) => ({
+        label: getCardTitle(card.text) || card.text,
+        description: column.title,
+        detail: card.metadata.key,
+        locator: { columnIndex, cardIndex, text: card.text },
+      }))
+    );
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('This board has no cards');
+      return undefined;
+    }
+
+    const pick = await vscode.window.showQuickPick(items, { placeHolder });
+    return pick?.locator;
+  }
+
   public static register(context: vscode.ExtensionContext): vscode.Disposable {
     const provider = new KanbanEditorProvider(context);
     return vscode.window.registerCustomEditorProvider(
@@ -108,12 +500,17 @@ export class KanbanEditorProvider implements vscode.CustomTextEditorProvider {
 
     let isUpdatingFromExtension = false;
 
-    const updateWebview = () => {
+    // Folder boards build their cards from files, so reading the content is async
+    let updateGeneration = 0;
+    const updateWebview = async (aiDiffMode?: string) => {
       if (webviewPanel?.webview && document) {
         try {
+          const generation = ++updateGeneration;
+          const content = await source.getContent();
+          if (generation !== updateGeneration) return; // A newer update is on its way
           const message: ExtensionToWebviewMessage = {
             type: 'update',
-            payload: { content: document.getText() || '' },
+            payload: { content, aiDiffMode },
           };
           webviewPanel.webview.postMessage(message);
         } catch (err) {
@@ -121,6 +518,7 @@ export class KanbanEditorProvider implements vscode.CustomTextEditorProvider {
         }
       }
     };
+    const source = new FolderBoardSource(document, () => updateWebview());
 
     const messageHandler = webviewPanel.webview.onDidReceiveMessage(
       async (message: WebviewToExtensionMessage) => {
@@ -132,7 +530,7 @@ export class KanbanEditorProvider implements vscode.CustomTextEditorProvider {
                 console.error('Kanban: Document or webview not available');
                 return;
               }
-              const content = document.getText() || '';
+              const content = await source.getContent();
               const initMessage: ExtensionToWebviewMessage = {
                 type: 'init',
                 payload: {
@@ -141,6 +539,12 @@ export class KanbanEditorProvider implements vscode.CustomTextEditorProvider {
                 },
               };
               webviewPanel.webview.postMessage(initMessage);
+
+              const pending = KanbanEditorProvider.pendingMessages.get(document.uri.toString());
+              if (pending) {
+                KanbanEditorProvider.pendingMessages.delete(document.uri.toString());
+                webviewPanel.webview.postMessage(pending);
+              }
             } catch (err) {
               console.error('Failed to initialize kanban webview:', err);
             }
@@ -149,7 +553,52 @@ export class KanbanEditorProvider implements vscode.CustomTextEditorProvider {
           case 'update':
             // Debounce updates to avoid excessive writes
             if (!isUpdatingFromExtension) {
-              this.debouncedUpdate(document, message.payload.content);
+              this.debouncedUpdate(document, source.toDocumentContent(message.payload.content));
+            }
+            break;
+
+          case 'moveCardToBoard':
+            try {
+              await KanbanEditorProvider.moveCardToBoard(document.uri, message.payload);
+            } catch (err) {
+              console.error('Failed to move card to board:', err);
+              vscode.window.showErrorMessage('Failed to move the card');
+            }
+            break;
+
+          case 'openFile':
+            try {
+              await KanbanEditorProvider.openLink(document.uri, message.payload.path);
+            } catch (err) {
+              console.error('Failed to open link:', err);
+              vscode.window.showErrorMessage(`Could not open ${message.payload.path}`);
+            }
+            break;
+
+          case 'moveFolderCard':
+            try {
+              const { status, ...locator } = message.payload;
+              await source.moveCard(locator, status);
+            } catch (err) {
+              console.error('Failed to move folder card:', err);
+              vscode.window.showErrorMessage('Failed to move the card');
+            }
+            break;
+
+          case 'openCardInEditor':
+            try {
+              await KanbanEditorProvider.openCardInEditor(document.uri, message.payload);
+            } catch (err) {
+              console.error('Failed to open card in editor:', err);
+              vscode.window.showErrorMessage('Failed to open the card in the editor');
+            }
+            break;
+
+          case 'openFolderCard':
+            try {
+              await source.openCard(message.payload);
+            } catch (err) {
+              console.error('Failed to open folder card:', err);
             }
             break;
 
@@ -181,6 +630,58 @@ export class KanbanEditorProvider implements vscode.CustomTextEditorProvider {
             }
             break;
 
+          case 'saveImage':
+            // Image pasted or dropped into a card — save it to the assets folder
+            try {
+              const { filename, data, requestId } = message.payload;
+              const fileUri = await saveImageAsset(document.uri, filename, data);
+              webviewPanel.webview.postMessage({
+                type: 'imageSaved',
+                payload: {
+                  originalPath: getImagePath(document.uri, fileUri),
+                  webviewUrl: webviewPanel.webview.asWebviewUri(fileUri).toString(),
+                  requestId,
+                },
+              });
+            } catch (err) {
+              console.error('Failed to save image:', err);
+              vscode.window.showErrorMessage('Failed to save the image');
+            }
+            break;
+
+          case 'requestFilePicker':
+            // Browse button of an empty image in a card
+            try {
+              const fileUri = await pickImageAsset(document.uri);
+              if (fileUri) {
+                webviewPanel.webview.postMessage({
+                  type: 'filePickerResult',
+                  payload: {
+                    originalPath: getImagePath(document.uri, fileUri),
+                    webviewUrl: webviewPanel.webview.asWebviewUri(fileUri).toString(),
+                  },
+                });
+              }
+            } catch (err) {
+              console.error('Failed to pick image:', err);
+            }
+            break;
+
+          case 'requestFiles':
+            // Link picker in a card description
+            try {
+              webviewPanel.webview.postMessage({
+                type: 'files',
+                payload: {
+                  files: await findWorkspaceFiles(message.payload?.search),
+                  currentFilePath: document.uri.fsPath,
+                },
+              });
+            } catch (err) {
+              console.error('Failed to get workspace files:', err);
+            }
+            break;
+
           case 'requestClipboard':
             // Webview is requesting clipboard data (for paste in input fields)
             try {
@@ -213,7 +714,8 @@ export class KanbanEditorProvider implements vscode.CustomTextEditorProvider {
         if (e.document.uri.toString() === document.uri.toString()) {
           if (e.contentChanges.length > 0 && !isUpdatingFromExtension) {
             isUpdatingFromExtension = true;
-            updateWebview();
+            // The webview tells its own edits apart and highlights the rest
+            updateWebview(vscode.workspace.getConfiguration('pmtoolkit').get<string>('diff.aiDiffMode', 'off'));
             isUpdatingFromExtension = false;
           }
         }
@@ -223,25 +725,44 @@ export class KanbanEditorProvider implements vscode.CustomTextEditorProvider {
     webviewPanel.onDidDispose(() => {
       messageHandler.dispose();
       changeDocumentSubscription.dispose();
+      source.dispose();
       KanbanEditorProvider.activeWebviewPanels.delete(document.uri.toString());
-      if (this.updateTimeout) {
-        clearTimeout(this.updateTimeout);
+      const pending = KanbanEditorProvider.pendingUpdates.get(document.uri.toString());
+      if (pending) {
+        clearTimeout(pending.timeout);
+        KanbanEditorProvider.pendingUpdates.delete(document.uri.toString());
       }
     });
   }
 
   private debouncedUpdate(document: vscode.TextDocument, content: string): void {
-    if (this.updateTimeout) {
-      clearTimeout(this.updateTimeout);
+    const key = document.uri.toString();
+    const pending = KanbanEditorProvider.pendingUpdates.get(key);
+    if (pending) {
+      clearTimeout(pending.timeout);
     }
     const config = vscode.workspace.getConfiguration('pmtoolkit');
     const delay = config.get<number>('kanbanSaveDelay', 150);
-    this.updateTimeout = setTimeout(async () => {
-      await this.updateDocument(document, content);
+    const timeout = setTimeout(async () => {
+      KanbanEditorProvider.pendingUpdates.delete(key);
+      await KanbanEditorProvider.updateDocument(document, content);
     }, delay);
+    KanbanEditorProvider.pendingUpdates.set(key, { timeout, document, content });
+  }
+
+  /**
+   * Write any debounced webview edits now, before reading documents directly
+   */
+  public static async flushPendingUpdates(): Promise<void> {
+    const pending = [...KanbanEditorProvider.pendingUpdates.values()];
+    KanbanEditorProvider.pendingUpdates.clear();
+    for (const { timeout, document, content } of pending) {
+      clearTimeout(timeout);
+      await KanbanEditorProvider.updateDocument(document, content);
+    }
   }
 
-  private async updateDocument(
+  private static async updateDocument(
     document: vscode.TextDocument,
     content: string
   ): Promise<void> {
@@ -2,12 +2,27 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { HTMLBuilder } from './HTMLBuilder';
-import { ExtensionToWebviewMessage, WebviewToExtensionMessage, FileInfo } from '../types';
+import { ExtensionToWebviewMessage, WebviewToExtensionMessage } from '../types';
 import { TemplateManager } from '../templates/TemplateManager';
+import { CardKeyIndex } from '../kanban/CardKeyIndex';
+import { KanbanEditorProvider } from './KanbanEditorProvider';
+import { saveImageAsset, pickImageAsset, getImagePath } from './imageAssets';
+import { findWorkspaceFiles } from './workspaceFiles';
+import { CardDocuments } from '../kanban/CardDocuments';
 import { validateMarkdown } from '../../shared/validateMarkdown';
 import { exportToPdf } from '../export/PdfExporter';
 import { exportToHtml } from '../export/HtmlExporter';
 
+/**
+ * Folder that relative image paths resolve against. A card opened from a
+ * board is served from the board's folder but read from its .kanban file.
+ */
+function getDocumentDir(documentUri: vscode.Uri): vscode.Uri {
+  return CardDocuments.getBoardUri(documentUri)
+    ? vscode.Uri.file(path.dirname(documentUri.fsPath))
+    : vscode.Uri.joinPath(documentUri, '..');
+}
+
 /**
  * Convert relative image paths in markdown to webview URIs
  * Preserves the original path in a data attribute for display/editing
@@ -21,7 +36,7 @@ function convertImagePathsToWebview(
   documentUri: vscode.Uri,
   webview: vscode.Webview
 ): string {
-  const documentDir = vscode.Uri.joinPath(documentUri, '..');
+  const documentDir = getDocumentDir(documentUri);
 
   // Helper to resolve a relative path to a webview URI
   function resolveToWebviewUri(imagePath: string): string | null {
@@ -76,6 +91,9 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
   /** Map of document URI string → TextDocument, for active editors */
   private static activeDocuments = new Map<string, vscode.TextDocument>();
 
+  /** Map of document URI string → task to reveal once the webview has loaded */
+  private static pendingReveals = new Map<string, { index: number; text: string }>();
+
   /** Event emitter for PDF export completion */
   private static _onExportComplete = new vscode.EventEmitter<{ pdfPath?: string; error?: string }>();
   public static readonly onExportComplete = MarkdownEditorProvider._onExportComplete.event;
@@ -102,6 +120,23 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
     return MarkdownEditorProvider.activeDocuments.get(input.uri.toString());
   }
 
+  /**
+   * Open a document in the editor scrolled to one of its checkbox tasks.
+   * index is the task's position among the document's tasks; text guards against drift.
+   */
+  public static async revealTask(uri: vscode.Uri, index: number, text: string): Promise<void> {
+    const panel = MarkdownEditorProvider.activeEditors.get(uri.toString());
+    if (panel) {
+      panel.reveal();
+      const message: ExtensionToWebviewMessage = { type: 'revealTask', payload: { index, text } };
+      panel.webview.postMessage(message);
+      return;
+    }
+
+    MarkdownEditorProvider.pendingReveals.set(uri.toString(), { index, text });
+    await vscode.commands.executeCommand('vscode.openWith', uri, MarkdownEditorProvider.viewType);
+  }
+
   /**
    * Export the active markdown document, stripping comment syntax.
    */
@@ -151,7 +186,7 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
     MarkdownEditorProvider.activeDocuments.set(document.uri.toString(), document);
 
     // Get the document's directory for local image resolution
-    const documentDir = vscode.Uri.joinPath(document.uri, '..');
+    const documentDir = getDocumentDir(document.uri);
 
     // Also include workspace folders if available
     const workspaceFolders = vscode.workspace.workspaceFolders?.map(f => f.uri) || [];
@@ -224,11 +259,32 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
                 },
               };
               webviewPanel.webview.postMessage(initMessage);
+
+              const pendingReveal = MarkdownEditorProvider.pendingReveals.get(document.uri.toString());
+              if (pendingReveal) {
+                MarkdownEditorProvider.pendingReveals.delete(document.uri.toString());
+                const revealMessage: ExtensionToWebviewMessage = {
+                  type: 'revealTask',
+                  payload: pendingReveal,
+                };
+                webviewPanel.webview.postMessage(revealMessage);
+              }
             } catch (err) {
               console.error('Failed to get document text:', err);
               // Document might be stale after extension reload
               // The webview's persisted state will be used as fallback
             }
+
+            // Tell the editor which card key prefixes to link
+            CardKeyIndex.getInstance()
+              .getPrefixes()
+              .then((prefixes) => {
+                const prefixesMessage: ExtensionToWebviewMessage = {
+                  type: 'cardKeyPrefixes',
+                  payload: { prefixes },
+                };
+                webviewPanel.webview.postMessage(prefixesMessage);
+              });
             break;
 
           case 'update': {
@@ -317,37 +373,13 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
           case 'saveImage':
             // Webview dropped/uploaded a file — save to workspace assets directory
             try {
-              const { filename, data } = message.payload;
-              const config = vscode.workspace.getConfiguration('pmtoolkit');
-              const assetsPath = config.get<string>('imageAssetsPath', 'assets');
-
-              // Use workspace root for assets, not document directory
-              const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri || documentDir;
-              const assetsDir = vscode.Uri.joinPath(workspaceRoot, assetsPath);
-              await vscode.workspace.fs.createDirectory(assetsDir);
-
-              // Generate unique filename to avoid collisions
-              const ext = path.extname(filename) || '.png';
-              const base = path.basename(filename, ext);
-              const uniqueName = `${base}-${Date.now()}${ext}`;
-
-              // Decode base64 and write file
-              const base64Data = (data as string).split(',')[1] || (data as string);
-              const buffer = Buffer.from(base64Data, 'base64');
-              const fileUri = vscode.Uri.joinPath(assetsDir, uniqueName);
-              await vscode.workspace.fs.writeFile(fileUri, buffer);
-
-              // Build a relative path from the document to the saved file
-              const relativePath = path.relative(
-                path.dirname(document.uri.fsPath),
-                fileUri.fsPath
-              );
-
+              const { filename, data, requestId } = message.payload;
+              const fileUri = await saveImageAsset(document.uri, filename, data);
               const webviewUrl = webviewPanel.webview.asWebviewUri(fileUri).toString();
 
               webviewPanel.webview.postMessage({
                 type: 'imageSaved',
-                payload: { originalPath: relativePath, webviewUrl },
+                payload: { originalPath: getImagePath(document.uri, fileUri), webviewUrl, requestId },
               });
             } catch (err) {
               console.error('Failed to save image:', err);
@@ -357,51 +389,13 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
           case 'requestFilePicker':
             // Webview wants to pick an image file
             try {
-              const result = await vscode.window.showOpenDialog({
-                canSelectFiles: true,
-                canSelectMany: false,
-                filters: { 'Images': ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg'] },
-                title: 'Select Image',
-              });
-
-              if (result && result[0]) {
-                const selectedUri = result[0];
-                const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
-
-                // Check if the file is inside the workspace
-                const isInWorkspace = workspaceRoot &&
-                  selectedUri.fsPath.startsWith(workspaceRoot.fsPath);
-
-                let fileUri: vscode.Uri;
-                if (isInWorkspace) {
-                  // File is already in the workspace — just reference it directly
-                  fileUri = selectedUri;
-                } else {
-                  // File is outside the workspace — copy to assets directory
-                  const config = vscode.workspace.getConfiguration('pmtoolkit');
-                  const assetsPath = config.get<string>('imageAssetsPath', 'assets');
-                  const root = workspaceRoot || documentDir;
-                  const assetsDir = vscode.Uri.joinPath(root, assetsPath);
-                  await vscode.workspace.fs.createDirectory(assetsDir);
-
-                  const ext = path.extname(selectedUri.fsPath);
-                  const base = path.basename(selectedUri.fsPath, ext);
-                  const uniqueName = `${base}-${Date.now()}${ext}`;
-                  fileUri = vscode.Uri.joinPath(assetsDir, uniqueName);
-                  await vscode.workspace.fs.copy(selectedUri, fileUri, { overwrite: true });
-                }
-
-                // Build a relative path from the document to the image
-                const relativePath = path.relative(
-                  path.dirname(document.uri.fsPath),
-                  fileUri.fsPath
-                );
-
+              const fileUri = await pickImageAsset(document.uri);
+              if (fileUri) {
                 const webviewUrl = webviewPanel.webview.asWebviewUri(fileUri).toString();
 
                 webviewPanel.webview.postMessage({
                   type: 'filePickerResult',
-                  payload: { originalPath: relativePath, webviewUrl },
+                  payload: { originalPath: getImagePath(document.uri, fileUri), webviewUrl },
                 });
               }
             } catch (err) {
@@ -431,6 +425,21 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
             }
             break;
 
+          case 'openCardKey':
+            // Webview clicked a card key reference like PM-42
+            try {
+              const key = message.payload.key;
+              const boardUri = await CardKeyIndex.getInstance().findBoard(key);
+              if (boardUri) {
+                await KanbanEditorProvider.openCard(boardUri, key);
+              } else {
+                vscode.window.showInformationMessage(`No kanban card found for ${key}`);
+              }
+            } catch (err) {
+              console.error('Failed to open card:', err);
+            }
+            break;
+
           case 'exportPdf':
             // Webview sent editor HTML for PDF export
             try {
@@ -492,62 +501,14 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
           case 'requestFiles':
             // Webview is requesting list of workspace files for link picker
             try {
-              const searchQuery = message.payload?.search?.toLowerCase() || '';
-              const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-
-              if (workspaceFolder) {
-                // Find all files in workspace
-                const files = await vscode.workspace.findFiles(
-                  '**/*',
-                  '**/node_modules/**',
-                  100 // Limit to 100 files for performance
-                );
-
-                // Get file stats and filter/sort
-                const fileInfos: (FileInfo & { mtime: number })[] = [];
-
-                for (const file of files) {
-                  try {
-                    const stat = await vscode.workspace.fs.stat(file);
-                    const relativePath = vscode.workspace.asRelativePath(file, false);
-                    const fileName = path.basename(file.fsPath, path.extname(file.fsPath));
-
-                    // Filter by search query if provided
-                    if (searchQuery) {
-                      const searchTarget = `${fileName} ${relativePath}`.toLowerCase();
-                      if (!searchTarget.includes(searchQuery)) {
-                        continue;
-                      }
-                    }
-
-                    fileInfos.push({
-                      name: fileName,
-                      path: file.fsPath,
-                      relativePath,
-                      mtime: stat.mtime,
-                    });
-                  } catch {
-                    // Skip files we can't stat
-                  }
-                }
-
-                // Sort by modification time (most recent first) and limit to 20
-                fileInfos.sort((a, b) => b.mtime - a.mtime);
-                const limitedFiles = fileInfos.slice(0, 20).map(({ name, path, relativePath }) => ({
-                  name,
-                  path,
-                  relativePath,
-                }));
-
-                const filesMessage: ExtensionToWebviewMessage = {
-                  type: 'files',
-                  payload: {
-                    files: limitedFiles,
-                    currentFilePath: document.uri.fsPath,
-                  },
-                };
-                webviewPanel.webview.postMessage(filesMessage);
-              }
+              const filesMessage: ExtensionToWebviewMessage = {
+                type: 'files',
+                payload: {
+                  files: await findWorkspaceFiles(message.payload?.search),
+                  currentFilePath: document.uri.fsPath,
+                },
+              };
+              webviewPanel.webview.postMessage(filesMessage);
             } catch (err) {
               console.error('Failed to get workspace files:', err);
             }
@@ -591,6 +552,15 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
       }
     );
 
+    // Keep card key links in sync as boards gain or lose key prefixes
+    const cardKeySubscription = CardKeyIndex.getInstance().onPrefixesChange((prefixes) => {
+      const prefixesMessage: ExtensionToWebviewMessage = {
+        type: 'cardKeyPrefixes',
+        payload: { prefixes },
+      };
+      webviewPanel.webview.postMessage(prefixesMessage);
+    });
+
     // Cleanup on dispose
     webviewPanel.onDidDispose(() => {
       MarkdownEditorProvider.activeEditors.delete(document.uri.toString());
@@ -598,6 +568,7 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
       messageHandler.dispose();
       changeDocumentSubscription.dispose();
       templateChangeSubscription.dispose();
+      cardKeySubscription.dispose();
     });
   }
 
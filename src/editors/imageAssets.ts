@@ -0,0 +1,89 @@
+/**
+ * Image Assets
+ *
+ * Saves images dropped, pasted or picked in an editor into the workspace's
+ * pmtoolkit.imageAssetsPath folder, so documents reference them by relative
+ * path instead of embedding them
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+function getAssetsDir(documentUri: vscode.Uri): vscode.Uri {
+  const assetsPath = vscode.workspace.getConfiguration('pmtoolkit').get<string>('imageAssetsPath', 'assets');
+  // Use workspace root for assets, not document directory
+  const root = vscode.workspace.workspaceFolders?.[0]?.uri || vscode.Uri.joinPath(documentUri, '..');
+  return vscode.Uri.joinPath(root, assetsPath);
+}
+
+/**
+ * Unique file in the assets folder for an image named like the given file
+ */
+async function getAssetUri(documentUri: vscode.Uri, filename: string, fallbackExt = '.png'): Promise<vscode.Uri> {
+  const assetsDir = getAssetsDir(documentUri);
+  await vscode.workspace.fs.createDirectory(assetsDir);
+
+  // Generate unique filename to avoid collisions
+  const ext = path.extname(filename) || fallbackExt;
+  const base = path.basename(filename, path.extname(filename)) || 'image';
+  let uri = vscode.Uri.joinPath(assetsDir, `${base}-${Date.now()}${ext}`);
+  for (let n = 2; await exists(uri); n++) {
+    uri = vscode.Uri.joinPath(assetsDir, `${base}-${Date.now()}-${n}${ext}`);
+  }
+  return uri;
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Write base64 image data (a data URL or bare base64) to the assets folder
+ */
+export async function saveImageAsset(documentUri: vscode.Uri, filename: string, data: string): Promise<vscode.Uri> {
+  const base64Data = data.split(',')[1] || data;
+  const fileUri = await getAssetUri(documentUri, filename);
+  await vscode.workspace.fs.writeFile(fileUri, Buffer.from(base64Data, 'base64'));
+  return fileUri;
+}
+
+/**
+ * Copy an image file into the assets folder
+ */
+export async function copyImageAsset(documentUri: vscode.Uri, source: vscode.Uri): Promise<vscode.Uri> {
+  const fileUri = await getAssetUri(documentUri, path.basename(source.fsPath));
+  await vscode.workspace.fs.copy(source, fileUri, { overwrite: true });
+  return fileUri;
+}
+
+/**
+ * Let the user pick an image. Files outside the workspace are copied to the
+ * assets folder; files inside it are used where they are.
+ */
+export async function pickImageAsset(documentUri: vscode.Uri): Promise<vscode.Uri | undefined> {
+  const result = await vscode.window.showOpenDialog({
+    canSelectFiles: true,
+    canSelectMany: false,
+    filters: { 'Images': ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg'] },
+    title: 'Select Image',
+  });
+  if (!result || !result[0]) return undefined;
+
+  const selectedUri = result[0];
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
+  // Check if the file is inside the workspace
+  const isInWorkspace = workspaceRoot && selectedUri.fsPath.startsWith(workspaceRoot.fsPath);
+  return isInWorkspace ? selectedUri : copyImageAsset(documentUri, selectedUri);
+}
+
+/**
+ * Path from the document to the image, as written in markdown
+ */
+export function getImagePath(documentUri: vscode.Uri, fileUri: vscode.Uri): string {
+  return path.relative(path.dirname(documentUri.fsPath), fileUri.fsPath).split(path.sep).join('/');
+}
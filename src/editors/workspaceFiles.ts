@@ -0,0 +1,60 @@
+/**
+ * Workspace Files
+ *
+ * File search for the link picker of the markdown editor and card editors
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileInfo } from '../types';
+
+/**
+ * Most recently modified workspace files matching a search, up to 20
+ */
+export async function findWorkspaceFiles(search = ''): Promise<FileInfo[]> {
+  const searchQuery = search.toLowerCase();
+  if (!vscode.workspace.workspaceFolders?.[0]) return [];
+
+  // Find all files in workspace
+  const files = await vscode.workspace.findFiles(
+    '**/*',
+    '**/node_modules/**',
+    100 // Limit to 100 files for performance
+  );
+
+  // Get file stats and filter/sort
+  const fileInfos: (FileInfo & { mtime: number })[] = [];
+
+  for (const file of files) {
+    try {
+      const stat = await vscode.workspace.fs.stat(file);
+      const relativePath = vscode.workspace.asRelativePath(file, false);
+      const fileName = path.basename(file.fsPath, path.extname(file.fsPath));
+
+      // Filter by search query if provided
+      if (searchQuery) {
+        const searchTarget = `${fileName} ${relativePath}`.toLowerCase();
+        if (!searchTarget.includes(searchQuery)) {
+          continue;
+        }
+      }
+
+      fileInfos.push({
+        name: fileName,
+        path: file.fsPath,
+        relativePath,
+        mtime: stat.mtime,
+      });
+    } catch {
+      // Skip files we can't stat
+    }
+  }
+
+  // Sort by modification time (most recent first) and limit to 20
+  fileInfos.sort((a, b) => b.mtime - a.mtime);
+  return fileInfos.slice(0, 20).map(({ name, path, relativePath }) => ({
+    name,
+    path,
+    relativePath,
+  }));
+}
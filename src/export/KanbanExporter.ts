@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseMarkdown, type KanbanBoard } from '../../webview/kanban/parser';
+import { todayIso } from '../../webview/kanban/dates';
+import { FolderBoardSource } from '../kanban/FolderBoardSource';
+import { boardToCsv, boardToHtml } from './kanbanExport';
+import { buildPageCss, getPrintOptions, printHtmlToPdf } from './PdfExporter';
+
+type SaveFormat = 'csv' | 'html';
+
+const SAVE_FORMATS: Record<SaveFormat, { filters: Record<string, string[]>; title: string }> = {
+  csv: { filters: { 'CSV Files': ['csv'] }, title: 'Export Board as CSV' },
+  html: { filters: { 'HTML Files': ['html', 'htm'] }, title: 'Export Board as HTML' },
+};
+
+function getBaseName(document: vscode.TextDocument): string {
+  return path.basename(document.uri.fsPath, path.extname(document.uri.fsPath));
+}
+
+/**
+ * The board as the editor shows it, with a folder board's cards read from
+ * its files
+ */
+async function readBoard(document: vscode.TextDocument): Promise<KanbanBoard> {
+  const source = new FolderBoardSource(document, () => {});
+  try {
+    return parseMarkdown(await source.getContent());
+  } finally {
+    source.dispose();
+  }
+}
+
+/**
+ * Ask where to save, write the file and offer to open it
+ */
+async function saveExport(document: vscode.TextDocument, format: SaveFormat, content: string): Promise<void> {
+  const documentDir = path.dirname(document.uri.fsPath);
+  const defaultUri = vscode.Uri.file(path.join(documentDir, `${getBaseName(document)}.${format}`));
+
+  const saveUri = await vscode.window.showSaveDialog({ defaultUri, ...SAVE_FORMATS[format] });
+  if (!saveUri) {
+    // User cancelled
+    return;
+  }
+
+  const encoder = new TextEncoder();
+  await vscode.workspace.fs.writeFile(saveUri, encoder.encode(content));
+
+  const openFile = 'Open File';
+  const choice = await vscode.window.showInformationMessage(
+    `Exported to ${path.basename(saveUri.fsPath)}`,
+    openFile
+  );
+  if (choice === openFile) {
+    await vscode.env.openExternal(saveUri);
+  }
+}
+
+/**
+ * Export a board to CSV, one row per card.
+ * Starts with a byte order mark so Excel reads the file as UTF-8.
+ */
+export async function exportKanbanToCsv(document: vscode.TextDocument): Promise<void> {
+  const board = await readBoard(document);
+  await saveExport(document, 'csv', '\uFEFF' + boardToCsv(board));
+}
+
+/**
+ * Export a self-contained HTML snapshot of a board
+ */
+export async function exportKanbanToHtml(document: vscode.TextDocument): Promise<void> {
+  const board = await readBoard(document);
+  await saveExport(document, 'html', boardToHtml(board, getBaseName(document), todayIso()));
+}
+
+/**
+ * Print a board snapshot to <filename>.pdf next to the board, using the
+ * same Chrome pipeline and page settings as markdown PDF export
+ */
+export async function exportKanbanToPdf(document: vscode.TextDocument): Promise<string> {
+  const board = await readBoard(document);
+  const fullHtml = boardToHtml(board, getBaseName(document), todayIso(), buildPageCss(getPrintOptions()));
+  const pdfPath = path.join(path.dirname(document.uri.fsPath), `${getBaseName(document)}.pdf`);
+
+  await printHtmlToPdf(fullHtml, pdfPath);
+  return pdfPath;
+}
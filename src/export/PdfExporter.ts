@@ -274,7 +274,7 @@ const PDF_CSS = `
   }
 `;
 
-interface PrintOptions {
+export interface PrintOptions {
   pageSize: string;
   marginTop: string;
   marginBottom: string;
@@ -283,6 +283,38 @@ interface PrintOptions {
   printBackground: boolean;
 }
 
+/**
+ * Read page size and margins from the pmtoolkit.pdf* settings
+ */
+export function getPrintOptions(): PrintOptions {
+  const config = vscode.workspace.getConfiguration('pmtoolkit');
+  return {
+    pageSize: config.get<string>('pdfPageSize', 'A4'),
+    marginTop: config.get<string>('pdfMarginTop', '20mm'),
+    marginBottom: config.get<string>('pdfMarginBottom', '20mm'),
+    marginLeft: config.get<string>('pdfMarginLeft', '15mm'),
+    marginRight: config.get<string>('pdfMarginRight', '15mm'),
+    printBackground: config.get<boolean>('pdfPrintBackground', true),
+  };
+}
+
+/**
+ * @page rule (and color adjustment) for the given print options
+ */
+export function buildPageCss(printOptions: PrintOptions): string {
+  let pageCss = `@page {
+      size: ${printOptions.pageSize};
+      margin: ${printOptions.marginTop} ${printOptions.marginRight} ${printOptions.marginBottom} ${printOptions.marginLeft};
+    }`;
+  if (printOptions.printBackground) {
+    pageCss += `* {
+        -webkit-print-color-adjust: exact !important;
+        print-color-adjust: exact !important;
+      }`;
+  }
+  return pageCss;
+}
+
 /**
  * Build a standalone HTML document for PDF rendering
  */
@@ -295,19 +327,7 @@ export function prepareHtml(
   const processedCss = replaceCssVariables(cssContent);
   const processedHtml = resolveImagePaths(htmlContent, documentDir);
 
-  let pageCss = '';
-  if (printOptions) {
-    pageCss = `@page {
-      size: ${printOptions.pageSize};
-      margin: ${printOptions.marginTop} ${printOptions.marginRight} ${printOptions.marginBottom} ${printOptions.marginLeft};
-    }`;
-    if (printOptions.printBackground) {
-      pageCss += `* {
-        -webkit-print-color-adjust: exact !important;
-        print-color-adjust: exact !important;
-      }`;
-    }
-  }
+  const pageCss = printOptions ? buildPageCss(printOptions) : '';
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -337,32 +357,11 @@ export interface PdfExportOptions {
 }
 
 /**
- * Export editor HTML to PDF using Chrome's --print-to-pdf CLI flag.
+ * Print a complete HTML document to a PDF file with headless Chrome.
  * No puppeteer dependency — talks to Chrome directly via child_process.
  */
-export async function exportToPdf(options: PdfExportOptions): Promise<string> {
-  const { htmlContent, documentUri, cssContent } = options;
-
+export async function printHtmlToPdf(fullHtml: string, pdfPath: string): Promise<void> {
   const chromePath = resolveChromePath();
-  const documentDir = path.dirname(documentUri.fsPath);
-
-  // Build output path: same directory as source, .pdf extension
-  const baseName = path.basename(documentUri.fsPath, path.extname(documentUri.fsPath));
-  const pdfPath = path.join(documentDir, `${baseName}.pdf`);
-
-  // Get user settings
-  const config = vscode.workspace.getConfiguration('pmtoolkit');
-  const pageSize = config.get<string>('pdfPageSize', 'A4');
-  const marginTop = config.get<string>('pdfMarginTop', '20mm');
-  const marginBottom = config.get<string>('pdfMarginBottom', '20mm');
-  const marginLeft = config.get<string>('pdfMarginLeft', '15mm');
-  const marginRight = config.get<string>('pdfMarginRight', '15mm');
-  const printBackground = config.get<boolean>('pdfPrintBackground', true);
-
-  // Prepare HTML with @page CSS for margins/size
-  const fullHtml = prepareHtml(htmlContent, documentDir, cssContent, {
-    pageSize, marginTop, marginBottom, marginLeft, marginRight, printBackground,
-  });
 
   // Write HTML to temp file (Chrome needs a file:// URL)
   const tempId = crypto.randomBytes(8).toString('hex');
@@ -393,9 +392,26 @@ export async function exportToPdf(options: PdfExportOptions): Promise<string> {
         }
       });
     });
-
-    return pdfPath;
   } finally {
     try { fs.unlinkSync(tempHtmlPath); } catch {}
   }
 }
+
+/**
+ * Export editor HTML to PDF using Chrome's --print-to-pdf CLI flag.
+ */
+export async function exportToPdf(options: PdfExportOptions): Promise<string> {
+  const { htmlContent, documentUri, cssContent } = options;
+
+  const documentDir = path.dirname(documentUri.fsPath);
+
+  // Build output path: same directory as source, .pdf extension
+  const baseName = path.basename(documentUri.fsPath, path.extname(documentUri.fsPath));
+  const pdfPath = path.join(documentDir, `${baseName}.pdf`);
+
+  // Prepare HTML with @page CSS for margins/size
+  const fullHtml = prepareHtml(htmlContent, documentDir, cssContent, getPrintOptions());
+
+  await printHtmlToPdf(fullHtml, pdfPath);
+  return pdfPath;
+}
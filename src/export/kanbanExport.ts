@@ -0,0 +1,258 @@
+/**
+ * Kanban Export
+ *
+ * Renders a parsed board as CSV (one row per card) or as a self-contained
+ * HTML snapshot laid out in columns. Pure functions, shared by the HTML and
+ * PDF exports in KanbanExporter.
+ */
+
+import {
+  getCardTitle,
+  parseSubtasks,
+  type KanbanBoard,
+  type KanbanCard,
+  type KanbanColumn,
+} from '../../webview/kanban/parser';
+
+const CSV_HEADER = [
+  'Column',
+  'Lane',
+  'Title',
+  'Text',
+  'Description',
+  'Completed',
+  'Assignees',
+  'Tags',
+  'Start',
+  'Due',
+  'Priority',
+  'Key',
+];
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break. Text
+ * that a spreadsheet would run as a formula gets a leading apostrophe.
+ */
+function escapeCsv(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per card, in board order. Line breaks inside descriptions are kept
+ * within the quoted field; rows are separated by CRLF as spreadsheets expect.
+ */
+export function boardToCsv(board: KanbanBoard): string {
+  const lanes = new Map((board.lanes ?? []).map((lane) => [lane.id, lane.title]));
+  const rows = [CSV_HEADER];
+
+  for (const column of board.columns) {
+    const lane = column.laneId ? lanes.get(column.laneId) ?? '' : '';
+    for (const card of column.cards) {
+      const { metadata } = card;
+      rows.push([
+        column.title,
+        lane,
+        getCardTitle(card.text),
+        card.text,
+        card.description,
+        card.completed ? 'true' : 'false',
+        metadata.assignees.join('; '),
+        metadata.tags.join('; '),
+        metadata.start ?? '',
+        metadata.due ?? '',
+        metadata.priority ?? '',
+        metadata.key ?? '',
+      ]);
+    }
+  }
+
+  return rows.map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+/**
+ * Self-contained board styles. Columns scroll sideways on screen and wrap
+ * onto new rows when printed, so wide boards still fit the page.
+ */
+const KANBAN_HTML_CSS = `
+  * { box-sizing: border-box; }
+  body {
+    margin: 0;
+    padding: 24px;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    font-size: 13px;
+    line-height: 1.45;
+    color: #1e1e1e;
+    background: #ffffff;
+  }
+  h1 { font-size: 1.6em; margin: 0 0 4px; }
+  .summary { color: #6e7781; margin: 0 0 20px; }
+  .lane { margin-bottom: 24px; }
+  .lane-title { font-size: 1.15em; margin: 0 0 10px; }
+  .columns { display: flex; gap: 12px; align-items: flex-start; overflow-x: auto; }
+  .column {
+    flex: 0 0 260px;
+    background: #f6f8fa;
+    border: 1px solid #d0d7de;
+    border-radius: 8px;
+    padding: 10px;
+  }
+  .column-header {
+    display: flex;
+    justify-content: space-between;
+    align-items: baseline;
+    margin-bottom: 8px;
+  }
+  .column-title { font-weight: 600; }
+  .column-count { color: #6e7781; font-size: 0.9em; }
+  .column-count.over-limit { color: #cf222e; font-weight: 600; }
+  .card {
+    background: #ffffff;
+    border: 1px solid #d0d7de;
+    border-radius: 6px;
+    padding: 8px 10px;
+    margin-bottom: 8px;
+    break-inside: avoid;
+  }
+  .card:last-child { margin-bottom: 0; }
+  .card.completed .card-title { text-decoration: line-through; color: #6e7781; }
+  .card-key { color: #6e7781; font-size: 0.85em; margin-right: 4px; }
+  .card-description {
+    margin-top: 6px;
+    color: #57606a;
+    white-space: pre-wrap;
+    word-wrap: break-word;
+  }
+  .card-meta { display: flex; flex-wrap: wrap; gap: 4px; margin-top: 6px; }
+  .chip {
+    font-size: 0.8em;
+    padding: 1px 6px;
+    border-radius: 10px;
+    background: #eaeef2;
+    color: #1e1e1e;
+  }
+  .chip.priority-high { background: #ffebe9; color: #cf222e; }
+  .chip.priority-medium { background: #fff8c5; color: #9a6700; }
+  .chip.priority-low { background: #ddf4ff; color: #0969da; }
+  .chip.overdue { background: #ffebe9; color: #cf222e; }
+  .empty { color: #6e7781; font-style: italic; }
+
+  @media print {
+    body { padding: 0; }
+    .columns { flex-wrap: wrap; overflow: visible; }
+    .column { flex: 1 1 220px; break-inside: avoid-page; }
+  }
+`;
+
+function renderCard(card: KanbanCard, today: string): string {
+  const { metadata } = card;
+  const chips: string[] = [];
+  for (const assignee of metadata.assignees) {
+    chips.push(`<span class="chip">@${escapeHtml(assignee)}</span>`);
+  }
+  for (const tag of metadata.tags) {
+    chips.push(`<span class="chip">#${escapeHtml(tag)}</span>`);
+  }
+  if (metadata.start) {
+    chips.push(`<span class="chip">start ${escapeHtml(metadata.start)}</span>`);
+  }
+  if (metadata.due) {
+    const overdue = !card.completed && metadata.due < today;
+    chips.push(`<span class="chip${overdue ? ' overdue' : ''}">due ${escapeHtml(metadata.due)}</span>`);
+  }
+  if (metadata.priority) {
+    chips.push(`<span class="chip priority-${metadata.priority}">!${metadata.priority}</span>`);
+  }
+  const subtasks = parseSubtasks(card.description);
+  if (subtasks.length > 0) {
+    const done = subtasks.filter((subtask) => subtask.completed).length;
+    chips.push(`<span class="chip">☑ ${done}/${subtasks.length}</span>`);
+  }
+
+  const key = metadata.key ? `<span class="card-key">${escapeHtml(metadata.key)}</span>` : '';
+  const title = escapeHtml(getCardTitle(card.text) || card.text);
+  const description = card.description.trim()
+    ? `<div class="card-description">${escapeHtml(card.description.trim())}</div>`
+    : '';
+  const meta = chips.length > 0 ? `<div class="card-meta">${chips.join('')}</div>` : '';
+
+  return `<div class="card${card.completed ? ' completed' : ''}">
+          ${key}<span class="card-title">${title}</span>${description}${meta}
+        </div>`;
+}
+
+function renderColumn(column: KanbanColumn, today: string): string {
+  const limit = column.settings?.wipLimit;
+  const count = limit ? `${column.cards.length}/${limit}` : `${column.cards.length}`;
+  const overLimit = limit !== undefined && column.cards.length > limit;
+  const cards = column.cards.length > 0
+    ? column.cards.map((card) => renderCard(card, today)).join('\n        ')
+    : '<div class="empty">No cards</div>';
+
+  return `<section class="column">
+        <div class="column-header">
+          <span class="column-title">${escapeHtml(column.title)}</span>
+          <span class="column-count${overLimit ? ' over-limit' : ''}">${count}</span>
+        </div>
+        ${cards}
+      </section>`;
+}
+
+/**
+ * Board body: one row of columns per swimlane (or a single row without lanes)
+ */
+function renderBoardHtml(board: KanbanBoard, today: string): string {
+  const rows: { title?: string; columns: KanbanColumn[] }[] = [];
+  const unlaned = board.columns.filter((column) => !column.laneId);
+  if (unlaned.length > 0) {
+    rows.push({ columns: unlaned });
+  }
+  for (const lane of board.lanes ?? []) {
+    rows.push({ title: lane.title, columns: board.columns.filter((c) => c.laneId === lane.id) });
+  }
+
+  return rows
+    .map((row) => {
+      const heading = row.title ? `<h2 class="lane-title">${escapeHtml(row.title)}</h2>\n    ` : '';
+      const columns = row.columns.map((column) => renderColumn(column, today)).join('\n      ');
+      return `<div class="lane">
+    ${heading}<div class="columns">
+      ${columns}
+    </div>
+  </div>`;
+    })
+    .join('\n  ');
+}
+
+/**
+ * Complete, self-contained HTML document for a board snapshot.
+ * `today` (YYYY-MM-DD) marks overdue cards and dates the snapshot.
+ */
+export function boardToHtml(board: KanbanBoard, title: string, today: string, extraCss = ''): string {
+  const cards = board.columns.flatMap((column) => column.cards);
+  const done = cards.filter((card) => card.completed).length;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>${KANBAN_HTML_CSS}</style>${extraCss ? `\n  <style>${extraCss}</style>` : ''}
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="summary">${cards.length} cards · ${done} completed · exported ${today}</p>
+  ${renderBoardHtml(board, today)}
+</body>
+</html>`;
+}
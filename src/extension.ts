@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { MarkdownEditorProvider } from './editors/MarkdownEditorProvider';
 import { KanbanEditorProvider } from './editors/KanbanEditorProvider';
 import {
@@ -9,6 +10,13 @@ import {
 } from './viewers';
 import { TemplateManager } from './templates/TemplateManager';
 import { SettingsPanel } from './settings/SettingsPanel';
+import { CardKeyIndex } from './kanban/CardKeyIndex';
+import { TaskIndex } from './tasks/TaskIndex';
+import { TaskTreeProvider } from './tasks/TaskTreeProvider';
+import { TodoSync } from './kanban/TodoSync';
+import { CardDocuments } from './kanban/CardDocuments';
+import { exportKanbanToCsv, exportKanbanToHtml, exportKanbanToPdf } from './export/KanbanExporter';
+import { importKanbanBoard } from './import/KanbanImporter';
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('PM Toolkit is now active');
@@ -18,6 +26,27 @@ export function activate(context: vscode.ExtensionContext) {
   templateManager.initialize();
   context.subscriptions.push({ dispose: () => templateManager.dispose() });
 
+  // Index kanban card key prefixes for PM-42 style links in markdown
+  const cardKeyIndex = CardKeyIndex.getInstance();
+  cardKeyIndex.initialize();
+  context.subscriptions.push({ dispose: () => cardKeyIndex.dispose() });
+
+  // Index tasks across markdown files and kanban boards for the Tasks view
+  const taskIndex = TaskIndex.getInstance();
+  taskIndex.initialize();
+  context.subscriptions.push({ dispose: () => taskIndex.dispose() });
+  context.subscriptions.push(TaskTreeProvider.register(context, taskIndex));
+
+  // Sync TODO comments from saved source files into the configured board
+  const todoSync = TodoSync.getInstance();
+  todoSync.initialize();
+  context.subscriptions.push({ dispose: () => todoSync.dispose() });
+
+  // Serve card descriptions opened in editor tabs from their boards
+  const cardDocuments = CardDocuments.getInstance();
+  cardDocuments.initialize();
+  context.subscriptions.push({ dispose: () => cardDocuments.dispose() });
+
   // Auto-save dirty kanban files on window focus to prevent Cursor diff state issues
   context.subscriptions.push(
     vscode.window.onDidChangeWindowState(async (e) => {
@@ -113,6 +142,12 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('pmtoolkit.importKanbanBoard', async () => {
+      await importKanbanBoard();
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('pmtoolkit.openAsKanban', async (uri: vscode.Uri) => {
       await vscode.commands.executeCommand(
@@ -139,6 +174,90 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('pmtoolkit.moveCardToBoard', async () => {
+      await KanbanEditorProvider.moveCardToBoard();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('pmtoolkit.openCardInEditor', async () => {
+      await KanbanEditorProvider.openCardInEditor();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('pmtoolkit.captureToBoard', async () => {
+      await KanbanEditorProvider.captureSelection();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('pmtoolkit.syncTodos', async () => {
+      await todoSync.syncWorkspace();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('pmtoolkit.saveEmbeddedImages', async () => {
+      await KanbanEditorProvider.saveEmbeddedImages();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('pmtoolkit.exportKanbanToCsv', async () => {
+      const document = await KanbanEditorProvider.getActiveBoardDocument();
+      if (!document) {
+        vscode.window.showErrorMessage('No active Kanban board to export.');
+        return;
+      }
+      await exportKanbanToCsv(document);
+    }),
+    vscode.commands.registerCommand('pmtoolkit.exportKanbanToHtml', async () => {
+      const document = await KanbanEditorProvider.getActiveBoardDocument();
+      if (!document) {
+        vscode.window.showErrorMessage('No active Kanban board to export.');
+        return;
+      }
+      await exportKanbanToHtml(document);
+    }),
+    vscode.commands.registerCommand('pmtoolkit.exportKanbanToPdf', async () => {
+      const document = await KanbanEditorProvider.getActiveBoardDocument();
+      if (!document) {
+        vscode.window.showErrorMessage('No active Kanban board to export.');
+        return;
+      }
+
+      let pdfPath: string;
+      try {
+        pdfPath = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Exporting board to PDF...',
+            cancellable: false,
+          },
+          () => exportKanbanToPdf(document)
+        );
+      } catch (err: any) {
+        vscode.window.showErrorMessage(`PDF export failed: ${err?.message || 'Unknown error'}`);
+        return;
+      }
+
+      const openFile = 'Open File';
+      const openFolder = 'Open Folder';
+      const choice = await vscode.window.showInformationMessage(
+        `PDF exported: ${path.basename(pdfPath)}`,
+        openFile,
+        openFolder
+      );
+      if (choice === openFile) {
+        await vscode.env.openExternal(vscode.Uri.file(pdfPath));
+      } else if (choice === openFolder) {
+        await vscode.env.openExternal(vscode.Uri.file(path.dirname(pdfPath)));
+      }
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('pmtoolkit.viewSource', async () => {
       // Get the active tab's resource URI
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { serializeBoard } from '../../webview/kanban/parser';
+import { KanbanEditorProvider } from '../editors/KanbanEditorProvider';
+import { importCsvBoard, importTrelloBoard, type ImportResult } from './kanbanImport';
+
+/**
+ * Read the export file and convert it: .json is treated as Trello, anything else as CSV
+ */
+async function readExport(uri: vscode.Uri): Promise<ImportResult> {
+  const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+
+  if (path.extname(uri.fsPath).toLowerCase() === '.json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error(`${path.basename(uri.fsPath)} is not valid JSON.`);
+    }
+    return importTrelloBoard(data);
+  }
+  return importCsvBoard(text);
+}
+
+/**
+ * File name for the new board, from the source board's name or the export's file name
+ */
+function toFileName(name: string): string {
+  return (
+    name
+      .trim()
+      .replace(/[^\w-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .toLowerCase() || 'imported-board'
+  );
+}
+
+/**
+ * Import a Trello JSON, GitHub Projects CSV or generic CSV export into a new
+ * .kanban file and open it on the board
+ */
+export async function importKanbanBoard(): Promise<void> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+  const [sourceUri] =
+    (await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      defaultUri: workspaceFolder?.uri,
+      filters: {
+        'Board Exports': ['json', 'csv'],
+        'Trello JSON': ['json'],
+        'CSV (GitHub Projects, spreadsheets)': ['csv'],
+      },
+      title: 'Import Board',
+      openLabel: 'Import',
+    })) ?? [];
+  if (!sourceUri) return;
+
+  let result: ImportResult;
+  try {
+    result = await readExport(sourceUri);
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Import failed: ${err?.message || 'Unknown error'}`);
+    return;
+  }
+
+  const sourceName = path.basename(sourceUri.fsPath, path.extname(sourceUri.fsPath));
+  const targetDir = workspaceFolder?.uri ?? vscode.Uri.file(path.dirname(sourceUri.fsPath));
+  const targetUri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(targetDir, `${toFileName(result.title ?? sourceName)}.kanban`),
+    filters: { 'Kanban Boards': ['kanban'] },
+    title: 'Save Imported Board',
+  });
+  if (!targetUri) return;
+
+  await vscode.workspace.fs.writeFile(targetUri, Buffer.from(serializeBoard(result.board), 'utf-8'));
+  await vscode.commands.executeCommand('vscode.openWith', targetUri, KanbanEditorProvider.viewType);
+
+  const columns = result.board.columns.length;
+  const skipped = result.skipped > 0 ? ` (${result.skipped} archived or untitled skipped)` : '';
+  vscode.window.showInformationMessage(
+    `Imported ${result.cards} card${result.cards === 1 ? '' : 's'} into ${columns} column${columns === 1 ? '' : 's'}${skipped}`
+  );
+}
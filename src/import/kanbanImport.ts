@@ -0,0 +1,394 @@
+/**
+ * Kanban Import
+ *
+ * Builds a board from another tool's export: a Trello board JSON file, a
+ * GitHub Projects CSV, or any CSV with column/title/description fields
+ * (including our own CSV export). Lists and status values become columns;
+ * labels, assignees, start and due dates and priorities become card
+ * tokens, and checklists become subtasks in the card description. Pure
+ * functions, so the import command only handles files and dialogs.
+ */
+
+import {
+  addColumn,
+  applyCardMetadata,
+  insertCard,
+  parseCardMetadata,
+  type CardMetadata,
+  type CardPriority,
+  type KanbanBoard,
+} from '../../webview/kanban/parser';
+
+export interface ImportResult {
+  board: KanbanBoard;
+  title?: string; // Name of the source board, when the export has one
+  cards: number;
+  skipped: number; // Archived cards and rows without a title
+}
+
+/**
+ * A card as read from the source, before it is written as a card line
+ */
+interface ImportedCard {
+  column: string;
+  lane?: string;
+  text: string;
+  description: string;
+  completed: boolean;
+  assignees: string[];
+  labels: string[];
+  start?: string;
+  due?: string;
+  priority?: CardPriority;
+}
+
+/** Column for cards whose status is empty, as GitHub Projects names it */
+const NO_STATUS = 'No Status';
+
+const PRIORITY_LABEL = /^(?:priority\s*[:\-/]?\s*|p:\s*)?(low|medium|high)(?:\s+priority)?$/i;
+
+/**
+ * Turn a label name into a #tag token body, e.g. "good first issue" -> good-first-issue
+ */
+function toTag(label: string): string {
+  return label
+    .trim()
+    .replace(/[^\w/-]+/g, '-')
+    .replace(/^[^A-Za-z]+/, '')
+    .replace(/-+$/, '');
+}
+
+function toAssignee(name: string): string {
+  return name.trim().replace(/^@/, '').replace(/[^\w.-]+/g, '');
+}
+
+function toPriority(value: string): CardPriority | undefined {
+  const match = value.trim().match(PRIORITY_LABEL);
+  return match ? (match[1].toLowerCase() as CardPriority) : undefined;
+}
+
+/**
+ * Normalize a date to YYYY-MM-DD. ISO values keep their calendar date;
+ * anything else the Date constructor understands is read in local time.
+ */
+function toIsoDate(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+
+  const iso = trimmed.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (iso) return iso[1];
+
+  const date = new Date(trimmed);
+  if (isNaN(date.getTime())) return undefined;
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Write imported cards into a new board, creating columns (and lanes) in
+ * the order given, then in order of first appearance
+ */
+function buildBoard(cards: ImportedCard[], columnOrder: string[] = []): KanbanBoard {
+  const board: KanbanBoard = { preamble: '', columns: [] };
+  const columns = new Map<string, string>(); // lane + column title -> column id
+  const lanes = new Map<string, string>(); // lane title -> lane id
+
+  const getColumnId = (title: string, laneTitle?: string): string => {
+    const key = `${laneTitle ?? ''}\n${title}`;
+    let id = columns.get(key);
+    if (!id) {
+      let laneId: string | undefined;
+      if (laneTitle) {
+        laneId = lanes.get(laneTitle);
+        if (!laneId) {
+          laneId = `lane-${lanes.size + 1}`;
+          lanes.set(laneTitle, laneId);
+          board.lanes = [...(board.lanes ?? []), { id: laneId, title: laneTitle }];
+        }
+      }
+      addColumn(board, title, undefined, laneId);
+      id = board.columns[board.columns.length - 1].id;
+      columns.set(key, id);
+    }
+    return id;
+  };
+
+  // Keep empty lists as columns
+  columnOrder.forEach((title) => getColumnId(title));
+
+  for (const card of cards) {
+    const parsed = parseCardMetadata(card.text);
+    const priorities = card.labels.map(toPriority).filter(Boolean) as CardPriority[];
+    const metadata: CardMetadata = {
+      ...parsed,
+      assignees: [...new Set([...parsed.assignees, ...card.assignees.map(toAssignee).filter(Boolean)])],
+      tags: [
+        ...new Set([
+          ...parsed.tags,
+          ...card.labels.filter((label) => !toPriority(label)).map(toTag).filter(Boolean),
+        ]),
+      ],
+      start: card.start ?? parsed.start,
+      due: card.due ?? parsed.due,
+      priority: card.priority ?? priorities[0] ?? parsed.priority,
+    };
+    const text = applyCardMetadata(card.text, metadata);
+
+    insertCard(board, getColumnId(card.column, card.lane), {
+      id: '',
+      text,
+      description: card.description,
+      completed: card.completed,
+      metadata,
+    });
+  }
+
+  return board;
+}
+
+/**
+ * Collapse a title onto one line, since a card is a single list item
+ */
+function toCardText(title: string): string {
+  return title.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Tidy a description for the board: no trailing whitespace, no leading or
+ * trailing blank lines
+ */
+function toDescription(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+// --- Trello ---
+
+interface TrelloList {
+  id: string;
+  name: string;
+  closed?: boolean;
+  pos?: number;
+}
+
+interface TrelloCard {
+  id: string;
+  name: string;
+  desc?: string;
+  idList: string;
+  closed?: boolean;
+  pos?: number;
+  start?: string | null;
+  due?: string | null;
+  dueComplete?: boolean;
+  idMembers?: string[];
+  labels?: { name?: string; color?: string | null }[];
+}
+
+interface TrelloChecklist {
+  id: string;
+  idCard: string;
+  name: string;
+  pos?: number;
+  checkItems?: { name: string; state: string; pos?: number }[];
+}
+
+interface TrelloExport {
+  name?: string;
+  lists: TrelloList[];
+  cards: TrelloCard[];
+  checklists?: TrelloChecklist[];
+  members?: { id: string; username?: string; fullName?: string }[];
+}
+
+function isTrelloExport(data: unknown): data is TrelloExport {
+  const value = data as TrelloExport | null;
+  return !!value && Array.isArray(value.lists) && Array.isArray(value.cards);
+}
+
+const byPos = (a: { pos?: number }, b: { pos?: number }) => (a.pos ?? 0) - (b.pos ?? 0);
+
+/**
+ * Import a Trello board export (Board menu > Print, export and share > Export as JSON).
+ * Archived lists and cards are skipped; a card's due-date checkbox marks it done.
+ */
+export function importTrelloBoard(data: unknown): ImportResult {
+  if (!isTrelloExport(data)) {
+    throw new Error('This JSON file is not a Trello board export.');
+  }
+
+  const lists = data.lists.filter((list) => !list.closed).sort(byPos);
+  const listNames = new Map(lists.map((list) => [list.id, list.name.trim() || NO_STATUS]));
+  const members = new Map(
+    (data.members ?? []).map((member) => [member.id, member.username || member.fullName || ''])
+  );
+  const checklists = new Map<string, TrelloChecklist[]>();
+  for (const checklist of [...(data.checklists ?? [])].sort(byPos)) {
+    checklists.set(checklist.idCard, [...(checklists.get(checklist.idCard) ?? []), checklist]);
+  }
+
+  const listOrder = new Map(lists.map((list, i) => [list.id, i]));
+  const cards = data.cards
+    .filter((card) => !card.closed && listNames.has(card.idList) && toCardText(card.name))
+    .sort((a, b) => listOrder.get(a.idList)! - listOrder.get(b.idList)! || byPos(a, b));
+
+  const imported = cards.map((card): ImportedCard => {
+    const description = [toDescription(card.desc ?? '')];
+    const cardChecklists = checklists.get(card.id) ?? [];
+    for (const checklist of cardChecklists) {
+      const items = [...(checklist.checkItems ?? [])].sort(byPos);
+      if (items.length === 0) continue;
+      description.push(
+        [
+          // Name each checklist when there are several, so their items stay apart
+          ...(cardChecklists.length > 1 ? [`${checklist.name}:`] : []),
+          ...items.map((item) => `- [${item.state === 'complete' ? 'x' : ' '}] ${toCardText(item.name)}`),
+        ].join('\n')
+      );
+    }
+
+    return {
+      column: listNames.get(card.idList)!,
+      text: toCardText(card.name),
+      description: description.filter(Boolean).join('\n\n'),
+      completed: !!card.dueComplete,
+      assignees: (card.idMembers ?? []).map((id) => members.get(id) ?? '').filter(Boolean),
+      labels: (card.labels ?? []).map((label) => label.name?.trim() || label.color || '').filter(Boolean),
+      start: card.start ? toIsoDate(card.start) : undefined,
+      due: card.due ? toIsoDate(card.due) : undefined,
+    };
+  });
+
+  return {
+    board: buildBoard(imported, lists.map((list) => listNames.get(list.id)!)),
+    title: data.name,
+    cards: imported.length,
+    skipped: data.cards.length - imported.length,
+  };
+}
+
+// --- CSV ---
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Header names accepted for each card field, lowercased. The first match wins,
+ * so a full card line ("Text" in our own export) beats a bare title.
+ */
+const CSV_FIELDS = {
+  column: ['column', 'status', 'list', 'stage'],
+  lane: ['lane', 'swimlane'],
+  title: ['text', 'title', 'name', 'card', 'task', 'summary'],
+  description: ['description', 'body', 'notes', 'details', 'desc'],
+  completed: ['completed', 'done', 'closed', 'state'],
+  assignees: ['assignees', 'assignee', 'owner', 'owners', 'members'],
+  labels: ['tags', 'labels', 'label'],
+  start: ['start', 'start date', 'start_date'],
+  due: ['due', 'due date', 'due_date', 'deadline', 'target date', 'end date'],
+  priority: ['priority'],
+};
+
+type CsvField = keyof typeof CSV_FIELDS;
+
+const COMPLETED_VALUES = new Set(['true', 'yes', 'y', 'x', '1', 'done', 'closed', 'completed', 'complete', 'merged']);
+
+/**
+ * Import a CSV export. Works with GitHub Projects exports (Status, Labels,
+ * Assignees), our own board CSV export, and any sheet with at least a
+ * column/status and a title field.
+ */
+export function importCsvBoard(text: string): ImportResult {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('The CSV file is empty.');
+  }
+
+  const names = header.map((name) => name.trim().toLowerCase());
+  const columnOf = {} as Record<CsvField, number>;
+  for (const field of Object.keys(CSV_FIELDS) as CsvField[]) {
+    const index = CSV_FIELDS[field].map((alias) => names.indexOf(alias)).find((i) => i !== -1);
+    columnOf[field] = index ?? -1;
+  }
+  if (columnOf.column === -1 || columnOf.title === -1) {
+    throw new Error(
+      'The CSV file needs a column (or status) field and a title field. ' +
+        `Found: ${header.join(', ')}`
+    );
+  }
+
+  const get = (row: string[], field: CsvField) => (columnOf[field] === -1 ? '' : row[columnOf[field]] ?? '');
+  const split = (value: string) => value.split(/[;,]/).map((part) => part.trim()).filter(Boolean);
+
+  const imported: ImportedCard[] = [];
+  for (const row of rows) {
+    const cardText = toCardText(get(row, 'title'));
+    if (!cardText) continue;
+
+    imported.push({
+      column: get(row, 'column').trim() || NO_STATUS,
+      lane: get(row, 'lane').trim() || undefined,
+      text: cardText,
+      description: toDescription(get(row, 'description')),
+      completed: COMPLETED_VALUES.has(get(row, 'completed').trim().toLowerCase()),
+      assignees: split(get(row, 'assignees')),
+      labels: split(get(row, 'labels')).map((label) => label.replace(/^#/, '')),
+      start: toIsoDate(get(row, 'start')),
+      due: toIsoDate(get(row, 'due')),
+      priority: toPriority(get(row, 'priority')),
+    });
+  }
+
+  return {
+    board: buildBoard(imported),
+    cards: imported.length,
+    skipped: rows.length - imported.length,
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * Card Documents
+ *
+ * Opens a card's description in the markdown editor as a virtual file
+ * (pmtoolkit-card: scheme). The file sits in the board's folder, so relative
+ * links and images resolve as they do on the board. Edits in the tab are
+ * saved into the .kanban file as the card's indented description, and edits
+ * to the card on the board reload the tab.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { KanbanEditorProvider } from '../editors/KanbanEditorProvider';
+import { MarkdownEditorProvider } from '../editors/MarkdownEditorProvider';
+import { parseMarkdown, serializeBoard, updateCard, findCardAt } from '../../webview/kanban/parser';
+import { CardLocator } from '../types';
+import { relocateCard, toCardDescription, getCardDocumentName, type TrackedCard } from './trackedCard';
+
+/** Write edits in a card tab to the board after typing pauses */
+const SAVE_DELAY_MS = 300;
+
+interface CardDocument extends TrackedCard {
+  boardUri: vscode.Uri;
+  mtime: number;
+  deleted: boolean;
+}
+
+function toFileContent(description: string): Uint8Array {
+  return Buffer.from(description ? `${description}\n` : '', 'utf-8');
+}
+
+/**
+ * CardDocuments - Singleton file system for cards opened in editor tabs
+ */
+export class CardDocuments implements vscode.FileSystemProvider {
+  public static readonly scheme = 'pmtoolkit-card';
+
+  private static instance: CardDocuments | null = null;
+
+  private cards = new Map<string, CardDocument>();
+  private saveTimers = new Map<string, NodeJS.Timeout>();
+  private changeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  private disposables: vscode.Disposable[] = [];
+
+  public readonly onDidChangeFile = this.changeEmitter.event;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): CardDocuments {
+    if (!CardDocuments.instance) {
+      CardDocuments.instance = new CardDocuments();
+    }
+    return CardDocuments.instance;
+  }
+
+  /**
+   * Board a card document belongs to, or undefined for other documents
+   */
+  public static getBoardUri(uri: vscode.Uri): vscode.Uri | undefined {
+    if (uri.scheme !== CardDocuments.scheme) return undefined;
+    const board = new URLSearchParams(uri.query).get('board');
+    return board ? vscode.Uri.parse(board) : undefined;
+  }
+
+  /**
+   * Register the file system and follow edits to boards and card tabs
+   */
+  public initialize(): void {
+    this.disposables.push(
+      vscode.workspace.registerFileSystemProvider(CardDocuments.scheme, this, { isCaseSensitive: true }),
+      vscode.workspace.onDidChangeTextDocument((e) => {
+        if (e.contentChanges.length === 0) return;
+        if (e.document.uri.scheme === CardDocuments.scheme) {
+          this.scheduleSave(e.document);
+        } else if (e.document.fileName.endsWith('.kanban')) {
+          this.syncFromBoard(e.document);
+        }
+      }),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        const key = document.uri.toString();
+        const timer = this.saveTimers.get(key);
+        if (timer) {
+          clearTimeout(timer);
+          this.saveTimers.delete(key);
+        }
+        this.cards.delete(key);
+      })
+    );
+  }
+
+  /**
+   * Open a card's description in the markdown editor. A card that is
+   * already open reuses its tab.
+   */
+  public async open(boardUri: vscode.Uri, locator: CardLocator): Promise<void> {
+    await KanbanEditorProvider.flushPendingUpdates();
+    const document = await vscode.workspace.openTextDocument(boardUri);
+    const board = parseMarkdown(document.getText());
+    if (board.settings?.folder) {
+      vscode.window.showInformationMessage('Cards on folder boards are markdown files. Open one from the board to edit it.');
+      return;
+    }
+    const card = findCardAt(board, locator.columnIndex, locator.cardIndex, locator.text);
+    if (!card) {
+      vscode.window.showWarningMessage('The card was not found on the board');
+      return;
+    }
+
+    let uri = [...this.cards.entries()]
+      .filter(([, entry]) => entry.boardUri.toString() === boardUri.toString())
+      .find(([, entry]) => relocateCard(board, entry) === card)?.[0];
+    if (!uri) {
+      const query = new URLSearchParams({
+        board: boardUri.toString(),
+        column: String(locator.columnIndex),
+        card: String(locator.cardIndex),
+        text: card.text,
+      });
+      uri = vscode.Uri.file(path.join(path.dirname(boardUri.fsPath), getCardDocumentName(card.text)))
+        .with({ scheme: CardDocuments.scheme, query: query.toString() })
+        .toString();
+    }
+
+    await vscode.commands.executeCommand('vscode.openWith', vscode.Uri.parse(uri), MarkdownEditorProvider.viewType);
+  }
+
+  /**
+   * Tracked card for a document, starting from the position in its URI
+   * (e.g. for a tab restored with the window)
+   */
+  private getCard(uri: vscode.Uri): CardDocument {
+    let entry = this.cards.get(uri.toString());
+    const boardUri = CardDocuments.getBoardUri(uri);
+    if (!entry && boardUri) {
+      const query = new URLSearchParams(uri.query);
+      entry = {
+        boardUri,
+        locator: {
+          columnIndex: Number(query.get('column')),
+          cardIndex: Number(query.get('card')),
+          text: query.get('text') ?? '',
+        },
+        description: '',
+        mtime: Date.now(),
+        deleted: false,
+      };
+      this.cards.set(uri.toString(), entry);
+    }
+    if (!entry) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return entry;
+  }
+
+  /**
+   * Read the board and find the document's card on it
+   */
+  private async readCard(uri: vscode.Uri) {
+    const entry = this.getCard(uri);
+    await KanbanEditorProvider.flushPendingUpdates();
+    let boardDocument: vscode.TextDocument;
+    try {
+      boardDocument = await vscode.workspace.openTextDocument(entry.boardUri);
+    } catch {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    const board = parseMarkdown(boardDocument.getText());
+    const card = relocateCard(board, entry);
+    if (!card) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return { entry, boardDocument, board, card };
+  }
+
+  public watch(): vscode.Disposable {
+    // Changes are reported from board edits (see syncFromBoard)
+    return new vscode.Disposable(() => {});
+  }
+
+  public async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const { entry, card } = await this.readCard(uri);
+    return {
+      type: vscode.FileType.File,
+      ctime: 0,
+      mtime: entry.mtime,
+      size: toFileContent(card.description).byteLength,
+    };
+  }
+
+  public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const { entry, card } = await this.readCard(uri);
+    entry.description = card.description;
+    entry.deleted = false;
+    return toFileContent(card.description);
+  }
+
+  /**
+   * Save the tab into the board as the card's description
+   */
+  public async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+    const { entry, boardDocument, board, card } = await this.readCard(uri);
+    const description = toCardDescription(Buffer.from(content).toString('utf-8'));
+    entry.mtime = Date.now();
+    if (card.description === description) {
+      entry.description = description;
+      return;
+    }
+
+    updateCard(board, card.id, { description });
+    const boardContent = serializeBoard(board);
+    // Set first, as the board will read it back, so the edit below isn't
+    // taken for an outside change to the card
+    entry.description = relocateCard(parseMarkdown(boardContent), entry)?.description ?? description;
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(boardDocument.uri, new vscode.Range(0, 0, boardDocument.lineCount, 0), boardContent);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      throw vscode.FileSystemError.Unavailable('Failed to update the card on its board');
+    }
+  }
+
+  public readDirectory(): [string, vscode.FileType][] {
+    return [];
+  }
+
+  public createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  public delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  public rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  /**
+   * Save a card tab shortly after it's edited, so the board follows the tab
+   * and closing it never asks to save
+   */
+  private scheduleSave(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const timer = this.saveTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    this.saveTimers.set(
+      key,
+      setTimeout(async () => {
+        this.saveTimers.delete(key);
+        if (!document.isDirty || document.isClosed || this.cards.get(key)?.deleted) return;
+        try {
+          await document.save();
+        } catch (err) {
+          console.error('Failed to save card to its board:', err);
+        }
+      }, SAVE_DELAY_MS)
+    );
+  }
+
+  /**
+   * Reload tabs whose card changed on the board, and report cards that were deleted
+   */
+  private syncFromBoard(boardDocument: vscode.TextDocument): void {
+    const entries = [...this.cards.entries()].filter(
+      ([, entry]) => entry.boardUri.toString() === boardDocument.uri.toString()
+    );
+    if (entries.length === 0) return;
+
+    const board = parseMarkdown(boardDocument.getText());
+    const changes: vscode.FileChangeEvent[] = [];
+    for (const [key, entry] of entries) {
+      const uri = vscode.Uri.parse(key);
+      const card = relocateCard(board, entry);
+      if (!card) {
+        if (!entry.deleted) {
+          entry.deleted = true;
+          changes.push({ type: vscode.FileChangeType.Deleted, uri });
+          this.showDeleted(uri, entry);
+        }
+        continue;
+      }
+
+      // Restored, e.g. by undo on the board
+      const restored = entry.deleted;
+      entry.deleted = false;
+      if (restored || card.description !== entry.description) {
+        entry.description = card.description;
+        entry.mtime = Date.now();
+        changes.push({ type: restored ? vscode.FileChangeType.Created : vscode.FileChangeType.Changed, uri });
+      }
+    }
+    if (changes.length > 0) {
+      this.changeEmitter.fire(changes);
+    }
+  }
+
+  private async showDeleted(uri: vscode.Uri, entry: CardDocument): Promise<void> {
+    const closeTab = 'Close Tab';
+    const action = await vscode.window.showWarningMessage(
+      `"${path.basename(uri.path, '.md')}" was deleted from ${path.basename(entry.boardUri.fsPath)}. Edits in its tab won't be saved to the board.`,
+      closeTab
+    );
+    if (action !== closeTab) return;
+
+    const tabs = vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter((tab) => tab.input instanceof vscode.TabInputCustom && tab.input.uri.toString() === uri.toString());
+    await vscode.window.tabGroups.close(tabs);
+  }
+
+  /**
+   * Dispose of resources
+   */
+  public dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+    this.saveTimers.forEach((timer) => clearTimeout(timer));
+    this.saveTimers.clear();
+    this.cards.clear();
+    this.changeEmitter.dispose();
+  }
+}
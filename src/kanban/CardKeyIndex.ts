@@ -0,0 +1,165 @@
+/**
+ * Card Key Index
+ *
+ * Tracks the kanban boards in the workspace and the card key prefixes they
+ * declare ([keys:PM-43]) so PM-42 style references in markdown can be resolved
+ */
+
+import * as vscode from 'vscode';
+import { parseMarkdown, findCardByKey } from '../../webview/kanban/parser';
+
+interface IndexedBoard {
+  uri: vscode.Uri;
+  prefix?: string; // Unset for boards without [keys:...]
+}
+
+/**
+ * Callback type for prefix change notifications
+ */
+export type CardKeyPrefixChangeCallback = (prefixes: string[]) => void;
+
+/**
+ * CardKeyIndex - Singleton index of kanban boards and their key prefixes
+ */
+export class CardKeyIndex {
+  private static instance: CardKeyIndex | null = null;
+
+  private boards: IndexedBoard[] | null = null;
+  private loading: Promise<IndexedBoard[]> | null = null;
+  private generation = 0; // Bumped on invalidate so stale loads are not cached
+  private fileWatcher: vscode.FileSystemWatcher | null = null;
+  private changeCallbacks: Set<CardKeyPrefixChangeCallback> = new Set();
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): CardKeyIndex {
+    if (!CardKeyIndex.instance) {
+      CardKeyIndex.instance = new CardKeyIndex();
+    }
+    return CardKeyIndex.instance;
+  }
+
+  /**
+   * Watch .kanban files so the index follows edits, creates and deletes
+   */
+  public initialize(): void {
+    this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.kanban');
+    this.fileWatcher.onDidCreate(() => this.invalidate());
+    this.fileWatcher.onDidChange(() => this.invalidate());
+    this.fileWatcher.onDidDelete(() => this.invalidate());
+  }
+
+  /**
+   * Key prefixes declared by boards in the workspace
+   */
+  public async getPrefixes(): Promise<string[]> {
+    const boards = await this.getBoards();
+    return [
+      ...new Set(boards.flatMap((board) => (board.prefix ? [board.prefix.toUpperCase()] : []))),
+    ];
+  }
+
+  /**
+   * Find the board that holds the card with the given key
+   */
+  public async findBoard(key: string): Promise<vscode.Uri | undefined> {
+    const prefix = key.slice(0, key.lastIndexOf('-')).toLowerCase();
+    const boards = await this.getBoards();
+    const owners = boards.filter((board) => board.prefix?.toLowerCase() === prefix);
+
+    // Several boards may share a prefix; pick the one that has the card.
+    // Cards moved to another board keep their key, so check the rest after.
+    const candidates = [...owners, ...boards.filter((board) => !owners.includes(board))];
+    for (const candidate of candidates) {
+      try {
+        const content = await vscode.workspace.fs.readFile(candidate.uri);
+        if (findCardByKey(parseMarkdown(Buffer.from(content).toString('utf-8')), key)) {
+          return candidate.uri;
+        }
+      } catch {
+        // Skip boards we can't read
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Register a callback for when the set of prefixes may have changed
+   */
+  public onPrefixesChange(callback: CardKeyPrefixChangeCallback): vscode.Disposable {
+    this.changeCallbacks.add(callback);
+    return new vscode.Disposable(() => {
+      this.changeCallbacks.delete(callback);
+    });
+  }
+
+  private invalidate(): void {
+    this.boards = null;
+    this.loading = null;
+    this.generation++;
+    if (this.changeCallbacks.size === 0) return;
+
+    this.getPrefixes().then((prefixes) => {
+      for (const callback of this.changeCallbacks) {
+        try {
+          callback(prefixes);
+        } catch (err) {
+          console.error('Card key prefix callback failed:', err);
+        }
+      }
+    });
+  }
+
+  private async getBoards(): Promise<IndexedBoard[]> {
+    if (this.boards) return this.boards;
+
+    const generation = this.generation;
+    if (!this.loading) {
+      this.loading = this.loadBoards();
+    }
+    const boards = await this.loading;
+    if (generation === this.generation) {
+      this.boards = boards;
+      this.loading = null;
+    }
+    return boards;
+  }
+
+  /**
+   * Read every .kanban file in the workspace, noting the ones with keys
+   */
+  private async loadBoards(): Promise<IndexedBoard[]> {
+    const boards: IndexedBoard[] = [];
+    try {
+      const files = await vscode.workspace.findFiles('**/*.kanban', '**/node_modules/**');
+      for (const uri of files) {
+        try {
+          const content = await vscode.workspace.fs.readFile(uri);
+          const board = parseMarkdown(Buffer.from(content).toString('utf-8'));
+          boards.push({ uri, prefix: board.settings?.keys?.prefix });
+        } catch {
+          // Skip boards we can't read
+        }
+      }
+    } catch (err) {
+      console.error('Failed to index kanban boards:', err);
+    }
+    return boards;
+  }
+
+  /**
+   * Dispose of resources
+   */
+  public dispose(): void {
+    if (this.fileWatcher) {
+      this.fileWatcher.dispose();
+      this.fileWatcher = null;
+    }
+    this.changeCallbacks.clear();
+    this.boards = null;
+  }
+}
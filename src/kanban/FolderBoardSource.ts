@@ -0,0 +1,172 @@
+/**
+ * Folder Board Source
+ *
+ * Supplies a kanban editor with its board content. Ordinary boards are the
+ * .kanban file itself; folder boards ([folder:specs=status]) are rebuilt from
+ * the markdown files in the folder whenever the file or the folder changes,
+ * and moving a card rewrites the status field of its file.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getMatter } from '../templates/TemplateManager';
+import { MarkdownEditorProvider } from '../editors/MarkdownEditorProvider';
+import { CardLocator } from '../types';
+import { parseMarkdown, serializeBoard, type FolderSource } from '../../webview/kanban/parser';
+import {
+  buildFolderBoard,
+  setFrontmatterField,
+  stripFolderCards,
+  NO_STATUS,
+  type FolderBoard,
+  type FolderCardFile,
+} from './folderBoard';
+
+export class FolderBoardSource implements vscode.Disposable {
+  private folder: FolderSource | undefined;
+  private built: FolderBoard | null = null;
+  private fileWatcher: vscode.FileSystemWatcher | null = null;
+
+  /**
+   * @param onChange Called when a file in the board's folder changes
+   */
+  constructor(
+    private readonly document: vscode.TextDocument,
+    private readonly onChange: () => void
+  ) {}
+
+  /**
+   * Board content for the webview: the document, or for folder boards the
+   * document's columns filled with the folder's files
+   */
+  public async getContent(): Promise<string> {
+    const text = this.document.getText();
+    const folder = parseMarkdown(text).settings?.folder;
+    this.watch(folder);
+
+    if (!folder) {
+      this.built = null;
+      return text;
+    }
+
+    const files = await this.readFiles(this.getFolderUri(folder));
+    this.built = buildFolderBoard(text, files, folder.key);
+    return serializeBoard(this.built.board);
+  }
+
+  /**
+   * Content to write to the document after an edit in the webview. Folder
+   * boards keep only their columns; the cards stay in the files.
+   */
+  public toDocumentContent(content: string): string {
+    return parseMarkdown(content).settings?.folder ? stripFolderCards(content) : content;
+  }
+
+  /**
+   * Move a card to another column by setting the status field of its file
+   */
+  public async moveCard(locator: CardLocator, status: string): Promise<void> {
+    const uri = this.getCardUri(locator);
+    if (!uri || !this.folder) {
+      vscode.window.showErrorMessage('The card changed before it could be moved. Try again.');
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      document.uri,
+      new vscode.Range(0, 0, document.lineCount, 0),
+      setFrontmatterField(document.getText(), this.folder.key, status === NO_STATUS ? '' : status)
+    );
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      vscode.window.showErrorMessage(`Failed to update ${path.basename(uri.fsPath)}`);
+      return;
+    }
+    await document.save();
+    this.onChange();
+  }
+
+  /**
+   * Open a card's file in the markdown editor
+   */
+  public async openCard(locator: CardLocator): Promise<void> {
+    const uri = this.getCardUri(locator);
+    if (!uri) {
+      vscode.window.showErrorMessage('The card changed before it could be opened. Try again.');
+      return;
+    }
+    await vscode.commands.executeCommand('vscode.openWith', uri, MarkdownEditorProvider.viewType);
+  }
+
+  public dispose(): void {
+    this.fileWatcher?.dispose();
+    this.fileWatcher = null;
+  }
+
+  /**
+   * File of the card at a position on the last board sent to the webview
+   */
+  private getCardUri(locator: CardLocator): vscode.Uri | undefined {
+    if (!this.built || !this.folder) return undefined;
+    const card = this.built.board.columns[locator.columnIndex]?.cards[locator.cardIndex];
+    const file = this.built.paths[locator.columnIndex]?.[locator.cardIndex];
+    if (!card || !file || card.text !== locator.text) return undefined;
+    return vscode.Uri.joinPath(this.getFolderUri(this.folder), ...file.split('/'));
+  }
+
+  /**
+   * The folder's location; its path is relative to the .kanban file
+   */
+  private getFolderUri(folder: FolderSource): vscode.Uri {
+    return vscode.Uri.file(path.resolve(path.dirname(this.document.uri.fsPath), folder.path));
+  }
+
+  /**
+   * Watch the folder's markdown files, following changes to the folder setting
+   */
+  private watch(folder: FolderSource | undefined): void {
+    if (folder?.path === this.folder?.path && folder?.key === this.folder?.key) return;
+    this.folder = folder;
+    this.dispose();
+    if (!folder) return;
+
+    this.fileWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(this.getFolderUri(folder), '**/*.md')
+    );
+    this.fileWatcher.onDidCreate(() => this.onChange());
+    this.fileWatcher.onDidChange(() => this.onChange());
+    this.fileWatcher.onDidDelete(() => this.onChange());
+  }
+
+  /**
+   * Markdown files in the folder with their front matter, preferring the text
+   * of open documents so unsaved edits show up
+   */
+  private async readFiles(folderUri: vscode.Uri): Promise<FolderCardFile[]> {
+    const uris = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(folderUri, '**/*.md'),
+      '**/node_modules/**'
+    );
+    const matter = getMatter();
+
+    const files: FolderCardFile[] = [];
+    for (const uri of uris) {
+      try {
+        const open = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri.toString());
+        const text = open ? open.getText() : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+        const relativePath = path.relative(folderUri.fsPath, uri.fsPath).split(path.sep).join('/');
+        try {
+          const { data, content } = matter(text);
+          files.push({ path: relativePath, data, body: content });
+        } catch {
+          // Invalid front matter: show the file without a status
+          files.push({ path: relativePath, data: {}, body: text });
+        }
+      } catch (err) {
+        console.error(`Failed to read ${uri.fsPath}:`, err);
+      }
+    }
+    return files;
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * TODO Sync
+ *
+ * Keeps a designated board (pmtoolkit.todoSync.board) in line with the
+ * TODO, FIXME and HACK comments in the workspace's source files. The command
+ * scans every file; with pmtoolkit.todoSync.watch on, each saved file is
+ * re-synced on its own.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { KanbanEditorProvider } from '../editors/KanbanEditorProvider';
+import { parseMarkdown, serializeBoard } from '../../webview/kanban/parser';
+import { scanTodoComments, syncTodoCards, type FileTodos, type TodoSyncResult } from './todoComments';
+
+/** Wait for saves to settle (e.g. Save All) before syncing */
+const SYNC_DELAY_MS = 1000;
+
+/**
+ * TodoSync - Singleton that syncs source comments into a board
+ */
+export class TodoSync {
+  private static instance: TodoSync | null = null;
+
+  private saveSubscription: vscode.Disposable | null = null;
+  private pendingFiles = new Map<string, vscode.Uri>();
+  private syncTimer: NodeJS.Timeout | null = null;
+  private syncing: Promise<unknown> = Promise.resolve();
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): TodoSync {
+    if (!TodoSync.instance) {
+      TodoSync.instance = new TodoSync();
+    }
+    return TodoSync.instance;
+  }
+
+  /**
+   * Re-sync saved source files when pmtoolkit.todoSync.watch is on
+   */
+  public initialize(): void {
+    this.saveSubscription = vscode.workspace.onDidSaveTextDocument((document) => {
+      const config = vscode.workspace.getConfiguration('pmtoolkit.todoSync');
+      if (!config.get<boolean>('watch', false) || !config.get<string>('board', '')) return;
+      if (!this.isSourceFile(document)) return;
+
+      this.pendingFiles.set(document.uri.toString(), document.uri);
+      if (this.syncTimer) {
+        clearTimeout(this.syncTimer);
+      }
+      this.syncTimer = setTimeout(() => {
+        this.syncTimer = null;
+        const files = [...this.pendingFiles.values()];
+        this.pendingFiles.clear();
+        this.queue(() => this.syncFiles(files)).catch((err) => console.error('Failed to sync TODO comments:', err));
+      }, SYNC_DELAY_MS);
+    });
+  }
+
+  /**
+   * Scan the whole workspace and sync the board, asking for the board on first use
+   */
+  public async syncWorkspace(): Promise<void> {
+    const boardUri = (await this.getBoardUri()) ?? (await this.pickBoard());
+    if (!boardUri) return;
+
+    const config = vscode.workspace.getConfiguration('pmtoolkit.todoSync');
+    const include = config.get<string>('include', '');
+    const exclude = config.get<string>('exclude', '') || undefined;
+
+    const result = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: 'Syncing TODO comments' },
+      () => this.queue(async () => this.syncBoard(boardUri, await vscode.workspace.findFiles(include, exclude), false))
+    );
+    if (!result) return;
+
+    const counts = [`${result.added} added`, `${result.updated} updated`, `${result.resolved} resolved`];
+    const action = await vscode.window.showInformationMessage(
+      `TODO comments synced to ${path.basename(boardUri.fsPath, '.kanban')}: ${counts.join(', ')}`,
+      'Open Board'
+    );
+    if (action === 'Open Board') {
+      await vscode.commands.executeCommand('vscode.openWith', boardUri, KanbanEditorProvider.viewType);
+    }
+  }
+
+  /**
+   * Run syncs one at a time, so a save during a workspace scan waits its turn
+   */
+  private queue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.syncing.then(task, task);
+    this.syncing = next.catch(() => undefined);
+    return next;
+  }
+
+  private async syncFiles(files: vscode.Uri[]): Promise<void> {
+    const boardUri = await this.getBoardUri();
+    if (boardUri) {
+      await this.syncBoard(boardUri, files, true);
+    }
+  }
+
+  /**
+   * Scan the files and apply the resulting board as one edit. Partial syncs
+   * only resolve cards of the scanned files.
+   */
+  private async syncBoard(
+    boardUri: vscode.Uri,
+    uris: vscode.Uri[],
+    partial: boolean
+  ): Promise<TodoSyncResult | undefined> {
+    const config = vscode.workspace.getConfiguration('pmtoolkit.todoSync');
+    const boardDir = path.dirname(boardUri.fsPath);
+
+    const files: FileTodos[] = [];
+    for (const uri of [...uris].sort((a, b) => a.path.localeCompare(b.path))) {
+      try {
+        const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+        // Skip binary files
+        if (content.includes('\0')) continue;
+        const comments = scanTodoComments(content);
+        if (comments.length === 0 && !partial) continue;
+        files.push({
+          linkPath: path.relative(boardDir, uri.fsPath).split(path.sep).join('/'),
+          label: vscode.workspace.asRelativePath(uri, false),
+          comments,
+        });
+      } catch {
+        // Skip files we can't read
+      }
+    }
+
+    await KanbanEditorProvider.flushPendingUpdates();
+    const document = await vscode.workspace.openTextDocument(boardUri);
+    const board = parseMarkdown(document.getText());
+    if (board.settings?.folder) {
+      vscode.window.showWarningMessage(
+        `${path.basename(boardUri.fsPath)} is a folder board; choose another board for TODO comments`
+      );
+      return undefined;
+    }
+
+    const result = syncTodoCards(board, files, {
+      inboxColumn: config.get<string>('inboxColumn', '') || 'Inbox',
+      archiveColumn: config.get<string>('archiveColumn', '') || undefined,
+      partial,
+    });
+    const content = serializeBoard(board);
+    if (content === document.getText()) return result;
+
+    // Save what we wrote, unless the board already had unsaved edits
+    const wasDirty = document.isDirty;
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, new vscode.Range(0, 0, document.lineCount, 0), content);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      vscode.window.showErrorMessage('Failed to sync TODO comments to the board');
+      return undefined;
+    }
+    if (!wasDirty) {
+      await document.save();
+    }
+    return result;
+  }
+
+  /**
+   * The board from the settings, relative to the first workspace folder
+   */
+  private async getBoardUri(): Promise<vscode.Uri | undefined> {
+    const board = vscode.workspace.getConfiguration('pmtoolkit.todoSync').get<string>('board', '');
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!board || !folder) return undefined;
+
+    const uri = path.isAbsolute(board) ? vscode.Uri.file(board) : vscode.Uri.joinPath(folder.uri, board);
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return uri;
+    } catch {
+      vscode.window.showWarningMessage(`TODO sync board ${board} was not found`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Let the user choose the board and remember it for the workspace
+   */
+  private async pickBoard(): Promise<vscode.Uri | undefined> {
+    const boards = await vscode.workspace.findFiles('**/*.kanban', '**/node_modules/**');
+    if (boards.length === 0) {
+      vscode.window.showInformationMessage('No kanban boards found in the workspace. Create one for TODO comments first.');
+      return undefined;
+    }
+
+    const pick = await vscode.window.showQuickPick(
+      boards.map((file) => ({
+        label: path.basename(file.fsPath, '.kanban'),
+        description: vscode.workspace.asRelativePath(path.dirname(file.fsPath)),
+        uri: file,
+      })),
+      { placeHolder: 'Board to sync TODO comments into' }
+    );
+    if (!pick) return undefined;
+
+    await vscode.workspace
+      .getConfiguration('pmtoolkit.todoSync')
+      .update('board', vscode.workspace.asRelativePath(pick.uri, false), vscode.ConfigurationTarget.Workspace);
+    return pick.uri;
+  }
+
+  private isSourceFile(document: vscode.TextDocument): boolean {
+    const config = vscode.workspace.getConfiguration('pmtoolkit.todoSync');
+    const include = config.get<string>('include', '');
+    const exclude = config.get<string>('exclude', '');
+    return (
+      document.uri.scheme === 'file' &&
+      vscode.languages.match({ pattern: include }, document) > 0 &&
+      !(exclude && vscode.languages.match({ pattern: exclude }, document) > 0)
+    );
+  }
+
+  /**
+   * Dispose of resources
+   */
+  public dispose(): void {
+    if (this.saveSubscription) {
+      this.saveSubscription.dispose();
+      this.saveSubscription = null;
+    }
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+    this.pendingFiles.clear();
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Code Links
+ *
+ * Cards captured from an editor selection link back to it with a
+ * GitHub-style line fragment: [src/app.ts#L10-L24](../src/app.ts#L10-L24).
+ * The link path is relative to the board, so it survives the workspace moving;
+ * the label is relative to the workspace, so it reads the same on every board.
+ */
+
+const LINE_FRAGMENT = /#L(\d+)(?:-L?(\d+))?$/;
+
+const MAX_TITLE_LENGTH = 80;
+
+export interface CodeLink {
+  path: string; // Decoded, without the fragment
+  startLine?: number; // 1-based
+  endLine?: number;
+}
+
+export interface CapturedSelection {
+  text: string;
+  languageId: string;
+  linkPath: string; // File path relative to the board, '/' separated
+  label: string; // File path relative to the workspace
+  startLine: number; // 1-based
+  endLine: number;
+}
+
+/**
+ * #L10 or #L10-L24
+ */
+export function formatLineFragment(startLine: number, endLine: number): string {
+  return endLine > startLine ? `#L${startLine}-L${endLine}` : `#L${startLine}`;
+}
+
+/**
+ * Percent-encode a path for a markdown link target. Parentheses are encoded
+ * too, as a ) would end the link (e.g. Next.js route groups like app/(auth)).
+ */
+function encodeLinkPath(linkPath: string): string {
+  return encodeURI(linkPath).replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+/**
+ * Split a link into its path and line range. Anything without a line fragment
+ * comes back as just the path.
+ */
+export function parseCodeLink(href: string): CodeLink {
+  const match = href.match(LINE_FRAGMENT);
+  const linkPath = match ? href.slice(0, match.index) : href;
+  let decoded = linkPath;
+  try {
+    decoded = decodeURI(linkPath);
+  } catch {
+    // Not percent-encoded after all
+  }
+  if (!match) return { path: decoded };
+
+  // Lines are 1-based; #L0 means the first line
+  const startLine = Math.max(1, parseInt(match[1], 10));
+  const endLine = match[2] ? Math.max(1, parseInt(match[2], 10)) : startLine;
+  return { path: decoded, startLine: Math.min(startLine, endLine), endLine: Math.max(startLine, endLine) };
+}
+
+/**
+ * Card title for a selection: its first non-blank line, shortened
+ */
+export function getCaptureTitle(text: string): string {
+  const line = text.split('\n').find((l) => l.trim())?.trim().replace(/\s+/g, ' ') ?? '';
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : line;
+}
+
+/**
+ * Card description for a selection: the link back to it, then the selected
+ * text, fenced as code unless it is prose
+ */
+export function buildCaptureDescription(selection: CapturedSelection): string {
+  const fragment = formatLineFragment(selection.startLine, selection.endLine);
+  const link = `[${selection.label}${fragment}](${encodeLinkPath(selection.linkPath)}${fragment})`;
+
+  const lines = selection.text.replace(/\r\n/g, '\n').replace(/\s+$/, '').split('\n');
+  const indent = Math.min(...lines.filter((l) => l.trim()).map((l) => l.match(/^\s*/)![0].length));
+  const body = lines.map((l) => l.slice(Math.min(indent, l.match(/^\s*/)![0].length)));
+
+  if (selection.languageId === 'markdown' || selection.languageId === 'plaintext') {
+    return [link, '', ...body.map((l) => (l ? `> ${l}` : '>'))].join('\n');
+  }
+
+  // A fence longer than any backtick run in the code
+  const longestRun = Math.max(0, ...(selection.text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return [link, '', `${fence}${selection.languageId}`, ...body, fence].join('\n');
+}
@@ -0,0 +1,44 @@
+/**
+ * Embedded Images
+ *
+ * Finds images embedded in markdown as base64 data URLs, as older card
+ * editors saved pasted images, so they can be written out as asset files
+ * and replaced with relative paths
+ */
+
+export interface EmbeddedImage {
+  dataUrl: string;
+  filename: string; // Suggested name for the asset file
+}
+
+const EMBEDDED_IMAGE = /!\[[^\]]*\]\((data:image\/([\w.+-]+);base64,[A-Za-z0-9+/=\s]+)\)/g;
+
+const EXTENSIONS: Record<string, string> = {
+  jpeg: '.jpg',
+  'svg+xml': '.svg',
+  'x-icon': '.ico',
+};
+
+/**
+ * Distinct data URL images in a document, in order of appearance
+ */
+export function findEmbeddedImages(markdown: string): EmbeddedImage[] {
+  const images = new Map<string, EmbeddedImage>();
+  for (const match of markdown.matchAll(EMBEDDED_IMAGE)) {
+    const [, dataUrl, type] = match;
+    if (images.has(dataUrl)) continue;
+    const ext = EXTENSIONS[type.toLowerCase()] ?? `.${type.toLowerCase()}`;
+    images.set(dataUrl, { dataUrl, filename: `card-image-${images.size + 1}${ext}` });
+  }
+  return [...images.values()];
+}
+
+/**
+ * Swap data URLs for the paths their images were saved to
+ */
+export function replaceEmbeddedImages(markdown: string, paths: Map<string, string>): string {
+  return markdown.replace(EMBEDDED_IMAGE, (image, dataUrl: string) => {
+    const imagePath = paths.get(dataUrl);
+    return imagePath ? image.replace(dataUrl, () => imagePath.replace(/[()]/g, '\\$&')) : image;
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Folder Boards
+ *
+ * A .kanban file with [folder:specs=status] in its preamble shows the
+ * markdown files in that folder as cards, one column per value of the
+ * status front matter field. The .kanban file itself only keeps the column
+ * layout (order, WIP limits, auto-complete); the cards always come from the
+ * files. Pure functions over parsed files, so FolderBoardSource only handles
+ * the workspace.
+ */
+
+import * as path from 'path';
+import {
+  parseMarkdown,
+  serializeBoard,
+  addColumn,
+  applyCardMetadata,
+  parseCardMetadata,
+  type CardMetadata,
+  type CardPriority,
+  type KanbanBoard,
+} from '../../webview/kanban/parser';
+
+/**
+ * A markdown file in the board's folder, with its front matter parsed
+ */
+export interface FolderCardFile {
+  path: string; // Relative to the board's folder, with forward slashes
+  data: Record<string, unknown>; // Front matter
+  body: string; // Content after the front matter
+}
+
+export interface FolderBoard {
+  board: KanbanBoard;
+  paths: string[][]; // File of each card, by column then card, as on the board
+}
+
+/** Column for files without a status, as the CSV import names it */
+export const NO_STATUS = 'No Status';
+
+const PRIORITIES: CardPriority[] = ['low', 'medium', 'high'];
+
+/**
+ * Front matter value as a list: YAML lists, or comma-separated strings
+ */
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+/**
+ * Front matter value as YYYY-MM-DD. YAML reads bare dates as UTC dates.
+ */
+function toIsoDate(value: unknown): string | undefined {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return value.toISOString().slice(0, 10);
+  }
+  const match = typeof value === 'string' ? value.trim().match(/^(\d{4}-\d{2}-\d{2})/) : null;
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Column a file belongs in, from its status field
+ */
+export function getFolderCardStatus(data: Record<string, unknown>, key: string): string {
+  const value = data[key];
+  const status = typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+  return status || NO_STATUS;
+}
+
+/**
+ * Card title: the title field, else the first # heading, else the file name
+ */
+export function getFolderCardTitle(file: FolderCardFile): string {
+  if (typeof file.data.title === 'string' && file.data.title.trim()) {
+    return file.data.title.trim();
+  }
+  const heading = file.body.match(/^#\s+(.+?)\s*#*\s*$/m);
+  return heading ? heading[1] : path.posix.basename(file.path, path.posix.extname(file.path));
+}
+
+/**
+ * Card metadata from common front matter fields: assignees (or assignee,
+ * owner), tags, start, due and priority
+ */
+export function getFolderCardMetadata(data: Record<string, unknown>): CardMetadata {
+  const assignees = toList(data.assignees ?? data.assignee ?? data.owner)
+    .map((name) => name.replace(/^@/, '').replace(/\s+/g, '-'))
+    .filter((name) => /^[\w.-]+$/.test(name));
+  const tags = toList(data.tags)
+    .map((tag) => tag.replace(/^#/, '').replace(/\s+/g, '-'))
+    .filter((tag) => /^[A-Za-z][\w/-]*$/.test(tag));
+  const priority = typeof data.priority === 'string' ? data.priority.trim().toLowerCase() : '';
+
+  return {
+    assignees: [...new Set(assignees)],
+    tags: [...new Set(tags)],
+    start: toIsoDate(data.start),
+    due: toIsoDate(data.due),
+    priority: PRIORITIES.includes(priority as CardPriority) ? (priority as CardPriority) : undefined,
+  };
+}
+
+/**
+ * Remove every card, leaving the columns and settings of the .kanban file
+ */
+function clearCards(board: KanbanBoard): KanbanBoard {
+  for (const column of board.columns) {
+    if (column.cards.length === 0) continue;
+    column.cards = [];
+    // Empty columns are closed by their notes, so the blank line after the last card goes
+    const notes = column.notes;
+    if (!notes || (notes.length > 0 && !notes[notes.length - 1].trim())) {
+      column.tail = undefined;
+    }
+  }
+  return board;
+}
+
+/**
+ * Build the board shown for a folder: the .kanban file's columns in their
+ * order, then a column for each other status in order of first appearance.
+ * Cards are sorted by title within their column. Files match a column by
+ * title, ignoring case; on boards with lanes the first matching column wins.
+ */
+export function buildFolderBoard(boardText: string, files: FolderCardFile[], key: string): FolderBoard {
+  const board = clearCards(parseMarkdown(boardText));
+  const paths = new Map<string, string[]>(); // Column id -> file paths
+
+  const byTitle = new Map<string, string>();
+  for (const column of board.columns) {
+    if (!byTitle.has(column.title.toLowerCase())) {
+      byTitle.set(column.title.toLowerCase(), column.id);
+    }
+  }
+
+  const cards = files
+    .map((file) => ({ file, title: getFolderCardTitle(file), status: getFolderCardStatus(file.data, key) }))
+    .sort(
+      (a, b) =>
+        a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }) || a.file.path.localeCompare(b.file.path)
+    );
+
+  // New status columns appear in order of first appearance by file path
+  for (const { status } of [...cards].sort((a, b) => a.file.path.localeCompare(b.file.path))) {
+    if (!byTitle.has(status.toLowerCase())) {
+      addColumn(board, status);
+      byTitle.set(status.toLowerCase(), board.columns[board.columns.length - 1].id);
+    }
+  }
+
+  for (const { file, title, status } of cards) {
+    const columnId = byTitle.get(status.toLowerCase())!;
+    const column = board.columns.find((c) => c.id === columnId)!;
+    const text = applyCardMetadata(title.replace(/\s+/g, ' '), getFolderCardMetadata(file.data));
+    column.cards.push({
+      id: '',
+      text,
+      description: '',
+      completed: !!column.settings?.autoComplete,
+      metadata: parseCardMetadata(text),
+    });
+    paths.set(columnId, [...(paths.get(columnId) ?? []), file.path]);
+  }
+
+  return { board, paths: board.columns.map((column) => paths.get(column.id) ?? []) };
+}
+
+/**
+ * Content to write back to a folder board's .kanban file after an edit in
+ * the webview: the columns and settings, without the file cards
+ */
+export function stripFolderCards(content: string): string {
+  return serializeBoard(clearCards(parseMarkdown(content)));
+}
+
+/**
+ * Quote a front matter value unless it reads back as the same plain string
+ */
+function toYamlValue(value: string): string {
+  const plain =
+    /^[A-Za-z][\w ./-]*$/.test(value) &&
+    !/\s$/.test(value) &&
+    !/^(true|false|yes|no|on|off|null)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+/**
+ * Set a top-level front matter field, changing only its line. Adds the field
+ * (or the front matter block) when it is missing.
+ */
+export function setFrontmatterField(text: string, key: string, value: string): string {
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const lines = text.split(eol);
+  const line = `${key}: ${toYamlValue(value)}`;
+
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end !== -1) {
+      const pattern = new RegExp(`^${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*:`);
+      const index = lines.findIndex((l, i) => i > 0 && i < end && pattern.test(l));
+      if (index !== -1) {
+        lines[index] = line;
+      } else {
+        lines.splice(end, 0, line);
+      }
+      return lines.join(eol);
+    }
+  }
+
+  return ['---', line, '---', '', ...lines].join(eol);
+}
@@ -0,0 +1,179 @@
+/**
+ * TODO Comments
+ *
+ * Finds TODO, FIXME and HACK comments in source files and reconciles them
+ * with the cards of a board. Each comment becomes a card in an inbox column
+ * whose description links to it and quotes it; the quote is what ties the
+ * card to the comment, so the card's title can be edited and the comment can
+ * move around its file without the next sync adding it again. Cards whose
+ * comment is gone are marked done, and moved to an archive column if the
+ * board has one.
+ */
+
+import {
+  addCard,
+  addColumn,
+  updateCard,
+  type KanbanBoard,
+  type KanbanCard,
+  type KanbanColumn,
+} from '../../webview/kanban/parser';
+import { buildCaptureDescription, getCaptureTitle, parseCodeLink } from './codeLinks';
+
+export type TodoTag = 'TODO' | 'FIXME' | 'HACK';
+
+export interface TodoComment {
+  tag: TodoTag;
+  text: string; // After the tag, without the closing comment marker
+  line: number; // 1-based
+}
+
+export interface FileTodos {
+  linkPath: string; // Relative to the board, '/' separated
+  label: string; // Relative to the workspace
+  comments: TodoComment[];
+}
+
+export interface TodoSyncOptions {
+  inboxColumn: string; // Created at the start of the board if missing
+  archiveColumn?: string; // Created at the end of the board when a card needs it
+  partial?: boolean; // Only the given files were scanned; leave cards of other files alone
+}
+
+export interface TodoSyncResult {
+  added: number;
+  updated: number; // Comment moved to other lines, or came back after being resolved
+  resolved: number;
+}
+
+// A tag right after a comment marker: //, /*, *, #, --, <!--
+const TODO_COMMENT =
+  /(?:\/\/+!?|\/\*+!?|^\s*\*+|(?:^|\s)#+|(?:^|\s)--+|<!--)\s*(TODO|FIXME|HACK)\b(?:\([^)]*\))?:?(.*)$/;
+
+// Description of a synced card: the link, a blank line, then the quoted comment.
+// Labels may hold [brackets], and targets written before parentheses were
+// encoded may hold (balanced) parentheses.
+const TODO_CARD =
+  /^\[(?:[^[\]\n]|\[[^\]\n]*\])*\]\(((?:[^()\s]|\([^()\s]*\))+)\)\n\n> (TODO|FIXME|HACK)\b:? ?([^\n]*)/;
+
+/**
+ * TODO, FIXME and HACK comments in a file, in line order
+ */
+export function scanTodoComments(content: string): TodoComment[] {
+  const comments: TodoComment[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    const match = line.match(TODO_COMMENT);
+    if (!match) return;
+    const text = match[2].replace(/\s*(\*+\/|-->)\s*$/, '').trim();
+    comments.push({ tag: match[1] as TodoTag, text, line: index + 1 });
+  });
+  return comments;
+}
+
+function getCommentKey(linkPath: string, tag: string, text: string): string {
+  return `${linkPath}\n${tag}: ${text}`;
+}
+
+/**
+ * File and comment a synced card stands for, or undefined for other cards
+ */
+export function getTodoCardKey(card: KanbanCard): string | undefined {
+  const match = card.description.match(TODO_CARD);
+  return match ? getCommentKey(parseCodeLink(match[1]).path, match[2], match[3].trim()) : undefined;
+}
+
+function buildTodoDescription(file: FileTodos, comment: TodoComment): string {
+  return buildCaptureDescription({
+    text: comment.text ? `${comment.tag}: ${comment.text}` : comment.tag,
+    languageId: 'plaintext',
+    linkPath: file.linkPath,
+    label: file.label,
+    startLine: comment.line,
+    endLine: comment.line,
+  });
+}
+
+function findColumn(board: KanbanBoard, title: string): KanbanColumn | undefined {
+  const wanted = title.trim().toLowerCase();
+  return board.columns.find((column) => column.title.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Bring a board's cards in line with the comments found: add cards for new
+ * comments, update links of comments that moved, and resolve cards whose
+ * comment was removed. Comments repeated in a file match cards in order.
+ */
+export function syncTodoCards(board: KanbanBoard, files: FileTodos[], options: TodoSyncOptions): TodoSyncResult {
+  const result: TodoSyncResult = { added: 0, updated: 0, resolved: 0 };
+
+  const synced = new Map<string, { card: KanbanCard; column: KanbanColumn }[]>();
+  for (const column of board.columns) {
+    for (const card of column.cards) {
+      const key = getTodoCardKey(card);
+      if (key) {
+        synced.set(key, [...(synced.get(key) ?? []), { card, column }]);
+      }
+    }
+  }
+
+  const getInbox = (): KanbanColumn =>
+    findColumn(board, options.inboxColumn) ?? addColumn(board, options.inboxColumn, 0).columns[0];
+  const getArchive = (title: string): KanbanColumn =>
+    findColumn(board, title) ?? addColumn(board, title).columns[board.columns.length - 1];
+  const archive = options.archiveColumn ? findColumn(board, options.archiveColumn) : undefined;
+
+  for (const file of files) {
+    for (const comment of file.comments) {
+      const description = buildTodoDescription(file, comment);
+      const match = synced.get(getCommentKey(file.linkPath, comment.tag, comment.text))?.shift();
+
+      if (!match) {
+        const inbox = getInbox();
+        const title = getCaptureTitle(comment.text) || comment.tag;
+        addCard(board, inbox.id, `${title} #${comment.tag.toLowerCase()}`);
+        updateCard(board, inbox.cards[inbox.cards.length - 1].id, { description });
+        result.added++;
+        continue;
+      }
+
+      const { card, column } = match;
+      // Keep anything written under the quote; only the link changes
+      const linkLine = description.split('\n')[0];
+      let changed = false;
+      if (!card.description.startsWith(`${linkLine}\n`)) {
+        card.description = card.description.replace(/^[^\n]*/, linkLine);
+        changed = true;
+      }
+      // The comment came back: reopen the card
+      if (archive && column === archive) {
+        column.cards.splice(column.cards.indexOf(card), 1);
+        getInbox().cards.push(card);
+        changed = true;
+      }
+      if (card.completed) {
+        card.completed = false;
+        changed = true;
+      }
+      if (changed) result.updated++;
+    }
+  }
+
+  const scanned = new Set(files.map((file) => file.linkPath));
+  for (const [key, rest] of synced) {
+    if (options.partial && !scanned.has(key.slice(0, key.indexOf('\n')))) continue;
+
+    for (const { card, column } of rest) {
+      const target = options.archiveColumn ? getArchive(options.archiveColumn) : column;
+      if (card.completed && target === column) continue;
+
+      card.completed = true;
+      if (target !== column) {
+        column.cards.splice(column.cards.indexOf(card), 1);
+        target.cards.push(card);
+      }
+      result.resolved++;
+    }
+  }
+
+  return result;
+}
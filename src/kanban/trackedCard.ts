@@ -0,0 +1,67 @@
+/**
+ * Tracked Card
+ *
+ * Follows a card across board edits while its description is open in an
+ * editor tab, so edits in the tab land on the right card even after the card
+ * is moved, renamed or keyed on the board
+ */
+
+import { findCardAt, getCardTitle, type KanbanBoard, type KanbanCard } from '../../webview/kanban/parser';
+import type { CardLocator } from '../types';
+
+export interface TrackedCard {
+  locator: CardLocator;
+  key?: string;
+  description: string; // As last seen on the board or written to it
+}
+
+/**
+ * Find the tracked card on the board and update where it was found. Cards
+ * are matched by key, then by text, then by position when the text changed
+ * but the description didn't (the title was edited on the board).
+ */
+export function relocateCard(board: KanbanBoard, tracked: TrackedCard): KanbanCard | undefined {
+  const { columnIndex, cardIndex, text } = tracked.locator;
+  const cards = board.columns.flatMap((column) => column.cards);
+
+  let card = tracked.key ? cards.find((c) => c.metadata.key === tracked.key) : undefined;
+  card ??= findCardAt(board, columnIndex, cardIndex, text);
+  // An empty description can't tell a renamed card from its neighbour
+  if (!card && tracked.description) {
+    const atPosition = board.columns[columnIndex]?.cards[cardIndex];
+    if (atPosition && atPosition.description === tracked.description) {
+      card = atPosition;
+    }
+  }
+  if (!card) return undefined;
+
+  const column = board.columns.findIndex((c) => c.cards.includes(card!));
+  tracked.locator = {
+    columnIndex: column,
+    cardIndex: board.columns[column].cards.indexOf(card),
+    text: card.text,
+  };
+  tracked.key = card.metadata.key ?? tracked.key;
+  return card;
+}
+
+/**
+ * Card description for the text of its editor tab: line endings normalized,
+ * leading blank lines and trailing whitespace dropped
+ */
+export function toCardDescription(content: string): string {
+  return content.replace(/\r\n?/g, '\n').replace(/^(?:[ \t]*\n)+/, '').replace(/\s+$/, '');
+}
+
+/**
+ * File name for a card's editor tab, from its title
+ */
+export function getCardDocumentName(text: string): string {
+  const title = (getCardTitle(text) || 'Untitled card')
+    .replace(/[\\/:*?"<>|#]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 60)
+    .trim();
+  return `${title || 'Untitled card'}.md`;
+}
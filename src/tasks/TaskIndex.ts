@@ -0,0 +1,202 @@
+/**
+ * Task Index
+ *
+ * Keeps the checkbox tasks of every markdown file and the cards of every
+ * .kanban board in the workspace, re-scanning single files as they change
+ */
+
+import * as vscode from 'vscode';
+import { scanMarkdownTasks, scanKanbanTasks, type ScannedTask, type TaskSource } from './workspaceTasks';
+import { CardDocuments } from '../kanban/CardDocuments';
+
+export interface WorkspaceTask {
+  uri: vscode.Uri;
+  source: TaskSource;
+  task: ScannedTask;
+}
+
+/**
+ * Callback type for index change notifications
+ */
+export type TaskIndexChangeCallback = () => void;
+
+const TASK_FILES = '**/*.{md,kanban}';
+const EXCLUDE = '**/node_modules/**';
+
+/** Wait for typing to settle before re-scanning an edited document */
+const RESCAN_DELAY_MS = 500;
+
+function getTaskSource(uri: vscode.Uri): TaskSource | undefined {
+  // A card opened in an editor tab is indexed with its board
+  if (uri.scheme === CardDocuments.scheme) return undefined;
+  if (uri.path.endsWith('.kanban')) return 'kanban';
+  if (uri.path.endsWith('.md')) return 'markdown';
+  return undefined;
+}
+
+/**
+ * TaskIndex - Singleton index of tasks across the workspace
+ */
+export class TaskIndex {
+  private static instance: TaskIndex | null = null;
+
+  private files = new Map<string, WorkspaceTask[]>();
+  private loading: Promise<void> | null = null;
+  private fileWatcher: vscode.FileSystemWatcher | null = null;
+  private documentSubscription: vscode.Disposable | null = null;
+  private rescanTimers = new Map<string, NodeJS.Timeout>();
+  private changeCallbacks: Set<TaskIndexChangeCallback> = new Set();
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): TaskIndex {
+    if (!TaskIndex.instance) {
+      TaskIndex.instance = new TaskIndex();
+    }
+    return TaskIndex.instance;
+  }
+
+  /**
+   * Watch task files on disk and edits in open documents
+   */
+  public initialize(): void {
+    this.fileWatcher = vscode.workspace.createFileSystemWatcher(TASK_FILES);
+    this.fileWatcher.onDidCreate((uri) => this.scheduleRescan(uri));
+    this.fileWatcher.onDidChange((uri) => this.scheduleRescan(uri));
+    this.fileWatcher.onDidDelete((uri) => {
+      if (this.files.delete(uri.toString())) {
+        this.notify();
+      }
+    });
+
+    this.documentSubscription = vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.contentChanges.length > 0 && getTaskSource(e.document.uri)) {
+        this.scheduleRescan(e.document.uri);
+      }
+    });
+  }
+
+  /**
+   * All indexed tasks, scanning the workspace on first use
+   */
+  public async getTasks(): Promise<WorkspaceTask[]> {
+    if (!this.loading) {
+      this.loading = this.loadAll();
+    }
+    await this.loading;
+    return [...this.files.values()].flat();
+  }
+
+  /**
+   * Scan the whole workspace again
+   */
+  public refresh(): void {
+    this.loading = null;
+    this.notify();
+  }
+
+  /**
+   * Re-scan one file right away (e.g. after editing it from the tree)
+   */
+  public async rescan(uri: vscode.Uri): Promise<void> {
+    await this.scanFile(uri);
+    this.notify();
+  }
+
+  /**
+   * Register a callback for when indexed tasks change
+   */
+  public onDidChange(callback: TaskIndexChangeCallback): vscode.Disposable {
+    this.changeCallbacks.add(callback);
+    return new vscode.Disposable(() => {
+      this.changeCallbacks.delete(callback);
+    });
+  }
+
+  private scheduleRescan(uri: vscode.Uri): void {
+    // Nothing to update until the tree has asked for tasks
+    if (!this.loading) return;
+
+    const key = uri.toString();
+    const pending = this.rescanTimers.get(key);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    this.rescanTimers.set(
+      key,
+      setTimeout(() => {
+        this.rescanTimers.delete(key);
+        this.rescan(uri);
+      }, RESCAN_DELAY_MS)
+    );
+  }
+
+  private async loadAll(): Promise<void> {
+    this.files.clear();
+    try {
+      const uris = await vscode.workspace.findFiles(TASK_FILES, EXCLUDE);
+      uris.sort((a, b) => a.path.localeCompare(b.path));
+      for (const uri of uris) {
+        await this.scanFile(uri);
+      }
+    } catch (err) {
+      console.error('Failed to index workspace tasks:', err);
+    }
+  }
+
+  private async scanFile(uri: vscode.Uri): Promise<void> {
+    const source = getTaskSource(uri);
+    if (!source) return;
+
+    try {
+      // Prefer open documents so unsaved edits are reflected
+      const open = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri.toString());
+      const content = open
+        ? open.getText()
+        : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+
+      const scanned = source === 'kanban' ? scanKanbanTasks(content) : scanMarkdownTasks(content);
+      if (scanned.length > 0) {
+        this.files.set(uri.toString(), scanned.map((task) => ({ uri, source, task })));
+      } else {
+        this.files.delete(uri.toString());
+      }
+    } catch {
+      // Skip files we can't read
+      this.files.delete(uri.toString());
+    }
+  }
+
+  private notify(): void {
+    for (const callback of this.changeCallbacks) {
+      try {
+        callback();
+      } catch (err) {
+        console.error('Task index callback failed:', err);
+      }
+    }
+  }
+
+  /**
+   * Dispose of resources
+   */
+  public dispose(): void {
+    if (this.fileWatcher) {
+      this.fileWatcher.dispose();
+      this.fileWatcher = null;
+    }
+    if (this.documentSubscription) {
+      this.documentSubscription.dispose();
+      this.documentSubscription = null;
+    }
+    for (const timer of this.rescanTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.rescanTimers.clear();
+    this.changeCallbacks.clear();
+    this.files.clear();
+  }
+}
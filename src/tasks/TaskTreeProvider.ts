@@ -0,0 +1,219 @@
+/**
+ * Task Tree Provider
+ *
+ * "Tasks" view listing every task and kanban card in the workspace, grouped
+ * by file, column, assignee or due date. Checking an item toggles it in its
+ * file; clicking opens the file in the PM Toolkit editor at the task.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TaskIndex, type WorkspaceTask } from './TaskIndex';
+import { groupTasks, type TaskGroupBy } from './workspaceTasks';
+import { MarkdownEditorProvider } from '../editors/MarkdownEditorProvider';
+import { KanbanEditorProvider } from '../editors/KanbanEditorProvider';
+import { todayIso } from '../../webview/kanban/dates';
+
+type TaskTreeNode =
+  | { kind: 'group'; label: string; items: TaskItem[] }
+  | { kind: 'task'; item: TaskItem };
+
+interface TaskItem extends WorkspaceTask {
+  file: string; // Workspace-relative path
+}
+
+const GROUP_BY_KEY = 'pmtoolkit.tasks.groupBy';
+
+const GROUP_BY_OPTIONS: { label: string; value: TaskGroupBy }[] = [
+  { label: 'File', value: 'file' },
+  { label: 'Column / Section', value: 'column' },
+  { label: 'Assignee', value: 'assignee' },
+  { label: 'Due Date', value: 'due' },
+];
+
+const TASK_LINE = /^(\s*[-*+]\s+\[)([ xX])(\]\s+)(.*)$/;
+
+export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeNode> {
+  public static readonly viewId = 'pmtoolkit.tasks';
+
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly index: TaskIndex
+  ) {
+    context.subscriptions.push(index.onDidChange(() => this._onDidChangeTreeData.fire()));
+  }
+
+  /**
+   * Register the view and its commands
+   */
+  public static register(context: vscode.ExtensionContext, index: TaskIndex): vscode.Disposable {
+    const provider = new TaskTreeProvider(context, index);
+    const treeView = vscode.window.createTreeView(TaskTreeProvider.viewId, {
+      treeDataProvider: provider,
+      showCollapseAll: true,
+    });
+
+    return vscode.Disposable.from(
+      treeView,
+      provider._onDidChangeTreeData,
+      treeView.onDidChangeCheckboxState((e) => {
+        const changes = e.items.flatMap(([node, state]) =>
+          node.kind === 'task'
+            ? [{ item: node.item, completed: state === vscode.TreeItemCheckboxState.Checked }]
+            : []
+        );
+        provider.setCompleted(changes);
+      }),
+      vscode.commands.registerCommand('pmtoolkit.tasks.refresh', () => index.refresh()),
+      vscode.commands.registerCommand('pmtoolkit.tasks.groupBy', () => provider.pickGroupBy()),
+      vscode.commands.registerCommand('pmtoolkit.tasks.open', (item: WorkspaceTask) =>
+        TaskTreeProvider.openTask(item)
+      )
+    );
+  }
+
+  private get groupBy(): TaskGroupBy {
+    return this.context.workspaceState.get<TaskGroupBy>(GROUP_BY_KEY, 'file');
+  }
+
+  public getTreeItem(node: TaskTreeNode): vscode.TreeItem {
+    if (node.kind === 'group') {
+      const treeItem = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+      const open = node.items.filter((item) => !item.task.completed).length;
+      treeItem.description = `${open}/${node.items.length}`;
+      treeItem.contextValue = 'taskGroup';
+      if (this.groupBy === 'file') {
+        treeItem.resourceUri = node.items[0].uri;
+        treeItem.iconPath = vscode.ThemeIcon.File;
+      }
+      return treeItem;
+    }
+
+    const { item } = node;
+    const { task } = item;
+    const treeItem = new vscode.TreeItem(task.title, vscode.TreeItemCollapsibleState.None);
+    treeItem.checkboxState = task.completed
+      ? vscode.TreeItemCheckboxState.Checked
+      : vscode.TreeItemCheckboxState.Unchecked;
+
+    const details: string[] = [];
+    if (task.metadata.key) details.push(task.metadata.key);
+    if (this.groupBy !== 'assignee') {
+      details.push(...task.metadata.assignees.map((name) => `@${name}`));
+    }
+    if (task.metadata.due && this.groupBy !== 'due') details.push(`due ${task.metadata.due}`);
+    if (this.groupBy !== 'file') details.push(path.basename(item.file));
+    treeItem.description = details.join(' · ');
+
+    treeItem.tooltip = new vscode.MarkdownString(
+      [`**${task.title}**`, task.section ? `${item.file} › ${task.section}` : item.file].join('\n\n')
+    );
+    treeItem.contextValue = `task.${item.source}`;
+    treeItem.command = {
+      command: 'pmtoolkit.tasks.open',
+      title: 'Open Task',
+      arguments: [item],
+    };
+    return treeItem;
+  }
+
+  public async getChildren(node?: TaskTreeNode): Promise<TaskTreeNode[]> {
+    if (node) {
+      return node.kind === 'group' ? node.items.map((item) => ({ kind: 'task', item })) : [];
+    }
+
+    const tasks = await this.index.getTasks();
+    const items: TaskItem[] = tasks
+      .map((task) => ({ ...task, file: vscode.workspace.asRelativePath(task.uri) }))
+      .sort((a, b) => a.file.localeCompare(b.file));
+
+    return groupTasks(items, this.groupBy, todayIso()).map((group) => ({
+      kind: 'group',
+      label: group.label,
+      items: group.tasks,
+    }));
+  }
+
+  private async pickGroupBy(): Promise<void> {
+    const current = this.groupBy;
+    const pick = await vscode.window.showQuickPick(
+      GROUP_BY_OPTIONS.map((option) => ({
+        ...option,
+        description: option.value === current ? 'current' : undefined,
+      })),
+      { placeHolder: 'Group tasks by' }
+    );
+    if (!pick) return;
+
+    await this.context.workspaceState.update(GROUP_BY_KEY, pick.value);
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Write checkbox changes back to their files, one WorkspaceEdit for all of them
+   */
+  private async setCompleted(changes: { item: WorkspaceTask; completed: boolean }[]): Promise<void> {
+    const edit = new vscode.WorkspaceEdit();
+    const documents = new Map<string, { document: vscode.TextDocument; wasDirty: boolean }>();
+    let stale = false;
+
+    for (const { item, completed } of changes) {
+      const key = item.uri.toString();
+      if (!documents.has(key)) {
+        const document = await vscode.workspace.openTextDocument(item.uri);
+        documents.set(key, { document, wasDirty: document.isDirty });
+      }
+      const { document } = documents.get(key)!;
+
+      // The index may be behind the file; only touch the line if it is still this task
+      const line = item.task.line < document.lineCount ? document.lineAt(item.task.line).text : '';
+      const match = line.match(TASK_LINE);
+      if (!match || match[4].trim() !== item.task.text) {
+        stale = true;
+        continue;
+      }
+
+      const column = match[1].length;
+      edit.replace(
+        item.uri,
+        new vscode.Range(item.task.line, column, item.task.line, column + 1),
+        completed ? 'x' : ' '
+      );
+    }
+
+    if (edit.size > 0 && (await vscode.workspace.applyEdit(edit))) {
+      // Files that weren't open with unsaved changes are saved straight away
+      for (const { document, wasDirty } of documents.values()) {
+        if (!wasDirty) {
+          await document.save();
+        }
+      }
+    }
+
+    for (const { document } of documents.values()) {
+      await this.index.rescan(document.uri);
+    }
+    if (stale) {
+      vscode.window.showWarningMessage('Some tasks changed in their files and were not updated.');
+    }
+  }
+
+  /**
+   * Open a task's file in the PM Toolkit editor, scrolled to the task
+   */
+  private static async openTask(item: WorkspaceTask): Promise<void> {
+    const { task } = item;
+    if (item.source === 'kanban') {
+      await KanbanEditorProvider.revealCard(item.uri, {
+        columnIndex: task.columnIndex!,
+        cardIndex: task.cardIndex!,
+        text: task.text,
+      });
+    } else {
+      await MarkdownEditorProvider.revealTask(item.uri, task.index, task.text);
+    }
+  }
+}
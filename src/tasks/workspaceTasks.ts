@@ -0,0 +1,199 @@
+/**
+ * Workspace Tasks
+ *
+ * Finds checkbox tasks in markdown files and cards in .kanban boards, and
+ * groups them for the Tasks view. Pure functions over file content, so the
+ * index and the tree stay thin wrappers around them.
+ */
+
+import {
+  parseMarkdown,
+  parseCardMetadata,
+  getCardTitle,
+  type CardMetadata,
+} from '../../webview/kanban/parser';
+import { addDays } from '../../webview/kanban/dates';
+
+export type TaskSource = 'markdown' | 'kanban';
+
+export interface ScannedTask {
+  line: number; // 0-based line of the checkbox in the file
+  text: string; // Text after the checkbox, metadata tokens included
+  title: string; // Text without metadata tokens
+  completed: boolean;
+  section?: string; // Kanban column, or the nearest heading above a markdown task
+  metadata: CardMetadata;
+  index: number; // Position among the file's tasks (for markdown) or cards (for kanban)
+  columnIndex?: number; // Kanban only: where the card sits on the board
+  cardIndex?: number;
+}
+
+export type TaskGroupBy = 'file' | 'column' | 'assignee' | 'due';
+
+export interface TaskGroup<T> {
+  label: string;
+  tasks: T[];
+}
+
+const TASK_LINE = /^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const HEADING_LINE = /^#{1,6}\s+(.*?)\s*#*\s*$/;
+const FENCE_LINE = /^\s*(```|~~~)/;
+
+/**
+ * Find `- [ ]` / `- [x]` tasks in a markdown document, skipping code fences
+ * and front matter
+ */
+export function scanMarkdownTasks(content: string): ScannedTask[] {
+  const lines = content.split(/\r?\n/);
+  const tasks: ScannedTask[] = [];
+  let section: string | undefined;
+  let inFence = false;
+  let start = 0;
+
+  // YAML front matter
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end !== -1) start = end + 1;
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    if (FENCE_LINE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const heading = line.match(HEADING_LINE);
+    if (heading) {
+      section = heading[1];
+      continue;
+    }
+
+    const task = line.match(TASK_LINE);
+    if (task) {
+      const text = task[2].trim();
+      tasks.push({
+        line: i,
+        text,
+        title: getCardTitle(text) || text,
+        completed: task[1] !== ' ',
+        section,
+        metadata: parseCardMetadata(text),
+        index: tasks.length,
+      });
+    }
+  }
+
+  return tasks;
+}
+
+/**
+ * List the cards of a .kanban board with the line each one starts on
+ */
+export function scanKanbanTasks(content: string): ScannedTask[] {
+  const board = parseMarkdown(content);
+  const lines = content.split(/\r?\n/);
+  const tasks: ScannedTask[] = [];
+  let cursor = 0;
+
+  board.columns.forEach((column, columnIndex) => {
+    column.cards.forEach((card, cardIndex) => {
+      // Cards are parsed in file order, so each one is found after the last
+      const found = lines.findIndex(
+        (line, i) => i >= cursor && (card.source ? line === card.source.line : TASK_LINE.test(line))
+      );
+      if (found === -1) return;
+      cursor = found + 1;
+
+      tasks.push({
+        line: found,
+        text: card.text,
+        title: getCardTitle(card.text) || card.text,
+        completed: card.completed,
+        section: column.title,
+        metadata: card.metadata,
+        index: tasks.length,
+        columnIndex,
+        cardIndex,
+      });
+    });
+  });
+
+  return tasks;
+}
+
+/**
+ * Bucket a due date relative to today (both YYYY-MM-DD)
+ */
+export function getDueGroup(due: string | undefined, today: string): string {
+  if (!due) return 'No due date';
+  if (due < today) return 'Overdue';
+  if (due === today) return 'Today';
+
+  return due <= addDays(today, 7) ? 'Next 7 days' : 'Later';
+}
+
+const DUE_GROUP_ORDER = ['Overdue', 'Today', 'Next 7 days', 'Later', 'No due date'];
+
+/**
+ * Group tasks for the tree. Files keep the order they are given in; other
+ * groups are sorted by label with the catch-all group last. A task with
+ * several assignees appears under each of them.
+ */
+export function groupTasks<T extends { task: ScannedTask; file: string }>(
+  items: T[],
+  groupBy: TaskGroupBy,
+  today: string
+): TaskGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  const add = (label: string, item: T) => {
+    const group = groups.get(label);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(label, [item]);
+    }
+  };
+
+  let fallback: string | undefined;
+  for (const item of items) {
+    switch (groupBy) {
+      case 'file':
+        add(item.file, item);
+        break;
+      case 'column':
+        fallback = 'No section';
+        add(item.task.section ?? fallback, item);
+        break;
+      case 'assignee':
+        fallback = 'Unassigned';
+        if (item.task.metadata.assignees.length === 0) {
+          add(fallback, item);
+        }
+        for (const assignee of item.task.metadata.assignees) {
+          add(`@${assignee}`, item);
+        }
+        break;
+      case 'due':
+        add(getDueGroup(item.task.metadata.due, today), item);
+        break;
+    }
+  }
+
+  const result = [...groups].map(([label, tasks]) => ({ label, tasks }));
+  if (groupBy === 'due') {
+    for (const group of result) {
+      group.tasks.sort((a, b) => (a.task.metadata.due ?? '').localeCompare(b.task.metadata.due ?? ''));
+    }
+    return result.sort((a, b) => DUE_GROUP_ORDER.indexOf(a.label) - DUE_GROUP_ORDER.indexOf(b.label));
+  }
+  if (groupBy === 'file') {
+    return result;
+  }
+  return result.sort((a, b) => {
+    if (a.label === fallback) return 1;
+    if (b.label === fallback) return -1;
+    return a.label.localeCompare(b.label, undefined, { sensitivity: 'base' });
+  });
+}
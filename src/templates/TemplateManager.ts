@@ -11,7 +11,7 @@ import { Template } from '../types';
 // Lazy load gray-matter to avoid blocking extension startup
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let _matter: any = null;
-function getMatter() {
+export function getMatter() {
   if (!_matter) {
     _matter = require('gray-matter');
   }
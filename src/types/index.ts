@@ -27,11 +27,11 @@ export interface DiffRegion {
  */
 export type ExtensionToWebviewMessage =
   | { type: 'init'; payload: { content: string; filename: string } }
-  | { type: 'update'; payload: { content: string } }
+  | { type: 'update'; payload: { content: string; aiDiffMode?: string } } // aiDiffMode: set for changes to the file
   | { type: 'templates'; payload: { templates: Template[] } }
   | { type: 'clipboardData'; payload: { text: string } }
   | { type: 'imageUrl'; payload: { originalPath: string; webviewUrl: string } }
-  | { type: 'imageSaved'; payload: { originalPath: string; webviewUrl: string } }
+  | { type: 'imageSaved'; payload: { originalPath: string; webviewUrl: string; requestId?: string } } // requestId: echoed from saveImage
   | { type: 'filePickerResult'; payload: { originalPath: string; webviewUrl: string } }
   | { type: 'files'; payload: { files: FileInfo[]; currentFilePath: string } }
   | { type: 'requestPdfExport' }
@@ -39,7 +39,11 @@ export type ExtensionToWebviewMessage =
   | { type: 'openFind' }
   | { type: 'openFindReplace' }
   | { type: 'showDiff'; regions: DiffRegion[]; mode: string }
-  | { type: 'clearDiff' };
+  | { type: 'clearDiff' }
+  | { type: 'cardKeyPrefixes'; payload: { prefixes: string[] } }
+  | { type: 'openCard'; payload: { key: string } }
+  | { type: 'revealCard'; payload: CardLocator }
+  | { type: 'revealTask'; payload: { index: number; text: string } };
 
 /**
  * Messages sent from Webview to Extension
@@ -51,7 +55,7 @@ export type WebviewToExtensionMessage =
   | { type: 'requestClipboard' }
   | { type: 'copyToClipboard'; payload: { text: string } }
   | { type: 'requestImageUrl'; payload: { path: string } }
-  | { type: 'saveImage'; payload: { filename: string; data: string } }
+  | { type: 'saveImage'; payload: { filename: string; data: string; requestId?: string } }
   | { type: 'requestFilePicker' }
   | { type: 'requestFiles'; payload: { search?: string } }
   | { type: 'openFile'; payload: { path: string } }
@@ -59,7 +63,22 @@ export type WebviewToExtensionMessage =
   | { type: 'exportHtml'; html: string }
   | { type: 'findBarOpen'; open: boolean }
   | { type: 'acceptAllDiff' }
-  | { type: 'rejectAllDiff' };
+  | { type: 'rejectAllDiff' }
+  | { type: 'openCardKey'; payload: { key: string } }
+  | { type: 'moveCardToBoard'; payload: CardLocator }
+  | { type: 'moveFolderCard'; payload: CardLocator & { status: string } }
+  | { type: 'openFolderCard'; payload: CardLocator }
+  | { type: 'openCardInEditor'; payload: CardLocator };
+
+/**
+ * Identifies a card on a board by position; the text guards against the
+ * board having changed since the position was taken
+ */
+export interface CardLocator {
+  columnIndex: number;
+  cardIndex: number;
+  text: string;
+}
 
 /**
  * Template definition from YAML frontmatter
@@ -0,0 +1,101 @@
+import { diffBoards, pruneChanges, rejectChange, rejectChanges } from '../../webview/kanban/changes';
+import { keepIds } from '../../webview/kanban/merge';
+import { parseMarkdown, serializeBoard, deleteCard } from '../../webview/kanban/parser';
+import assert from 'assert';
+
+const before = [
+  '## To Do',
+  '',
+  '- [ ] Write brief',
+  '- [ ] Review copy',
+  '  Check tone',
+  '- [ ] Book room',
+  '',
+  '## Done',
+  '',
+  '- [x] Kickoff',
+  '',
+].join('\n');
+
+const after = [
+  '## To Do',
+  '',
+  '- [ ] Write brief @ada',
+  '- [ ] Send invites',
+  '',
+  '## Done',
+  '',
+  '- [x] Kickoff',
+  '- [ ] Review copy',
+  '  Check tone',
+  '',
+].join('\n');
+
+function load(previous: string, next: string) {
+  const board = keepIds(parseMarkdown(next), parseMarkdown(previous));
+  return { board, changes: diffBoards(parseMarkdown(previous), board) };
+}
+
+// Test: added, moved, edited and removed cards are each reported once
+{
+  const { board, changes } = load(before, after);
+  const titleOf = (id: string) => board.columns.flatMap((c) => c.cards).find((c) => c.id === id)?.text;
+  assert.deepStrictEqual(
+    changes.map((change) => [change.type, change.type === 'removed' ? change.previous?.card.text : titleOf(change.cardId)]),
+    [
+      ['edited', 'Write brief @ada'],
+      ['moved', 'Review copy'],
+      ['removed', 'Book room'],
+      ['added', 'Send invites'],
+    ]
+  );
+  assert.strictEqual(changes[1].edited, false);
+  assert.strictEqual(changes[1].previous?.column, '\nTo Do');
+}
+
+// Test: an unchanged board has no changes; reordering within a column is not a move
+{
+  assert.deepStrictEqual(load(before, before).changes, []);
+  const reordered = before.replace('- [ ] Write brief\n', '').replace('- [ ] Book room\n', '- [ ] Book room\n- [ ] Write brief\n');
+  assert.deepStrictEqual(load(before, reordered).changes, []);
+}
+
+// Test: rejecting a change puts the card back the way it was
+{
+  const { board, changes } = load(before, after);
+  const [edited, moved, removed, added] = changes;
+
+  rejectChange(board, edited);
+  assert.strictEqual(board.columns[0].cards[0].text, 'Write brief');
+
+  rejectChange(board, moved);
+  assert.deepStrictEqual(board.columns[0].cards.map((c) => c.text), ['Write brief', 'Review copy', 'Send invites']);
+  assert.strictEqual(board.columns[0].cards[1].description, 'Check tone');
+
+  rejectChange(board, removed);
+  rejectChange(board, added);
+  assert.strictEqual(serializeBoard(board), before);
+}
+
+// Test: rejecting everything restores the previous board
+{
+  const { board, changes } = load(before, after);
+  assert.strictEqual(serializeBoard(rejectChanges(board, changes)), before);
+}
+
+// Test: a moved card that was also edited gets both undone
+{
+  const next = before.replace('- [ ] Book room\n', '').replace('- [x] Kickoff\n', '- [x] Kickoff\n- [x] Book room !high\n');
+  const { board, changes } = load(before, next);
+  assert.deepStrictEqual(changes.map((c) => [c.type, c.edited]), [['moved', true]]);
+  assert.strictEqual(serializeBoard(rejectChange(board, changes[0])), before);
+}
+
+// Test: changes to cards deleted since are dropped; removed cards stay listed
+{
+  const { board, changes } = load(before, after);
+  deleteCard(board, changes[3].cardId);
+  assert.deepStrictEqual(pruneChanges(board, changes).map((c) => c.type), ['edited', 'moved', 'removed']);
+}
+
+console.log('All kanban changes tests passed');
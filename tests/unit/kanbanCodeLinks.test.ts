@@ -0,0 +1,108 @@
+import { parseCodeLink, formatLineFragment, getCaptureTitle, buildCaptureDescription } from '../../src/kanban/codeLinks';
+import { parseMarkdown, serializeBoard, addCard, updateCard } from '../../webview/kanban/parser';
+import assert from 'assert';
+
+// Test: line fragments cover one line or a range
+{
+  assert.strictEqual(formatLineFragment(10, 10), '#L10');
+  assert.strictEqual(formatLineFragment(10, 24), '#L10-L24');
+}
+
+// Test: links split into a decoded path and line range
+{
+  assert.deepStrictEqual(parseCodeLink('../src/app.ts#L10-L24'), { path: '../src/app.ts', startLine: 10, endLine: 24 });
+  assert.deepStrictEqual(parseCodeLink('src/app.ts#L7'), { path: 'src/app.ts', startLine: 7, endLine: 7 });
+  assert.deepStrictEqual(parseCodeLink('src/app.ts#L24-10'), { path: 'src/app.ts', startLine: 10, endLine: 24 });
+  assert.deepStrictEqual(parseCodeLink('docs/My%20Notes.md'), { path: 'docs/My Notes.md' });
+  assert.deepStrictEqual(parseCodeLink('notes.md#usage'), { path: 'notes.md#usage' });
+  assert.deepStrictEqual(parseCodeLink('src/app.ts#L0'), { path: 'src/app.ts', startLine: 1, endLine: 1 });
+  assert.deepStrictEqual(parseCodeLink('src/app.ts#L0-L5'), { path: 'src/app.ts', startLine: 1, endLine: 5 });
+}
+
+// Test: the title is the first non-blank line, shortened
+{
+  assert.strictEqual(getCaptureTitle('\n\n  function   load() {\n  return 1;\n}'), 'function load() {');
+  const long = getCaptureTitle('x'.repeat(200));
+  assert.strictEqual(long.length, 80);
+  assert.ok(long.endsWith('…'));
+}
+
+// Test: code is dedented into a fence tagged with its language
+{
+  const description = buildCaptureDescription({
+    text: '    if (ready) {\n      start();\n    }\n',
+    languageId: 'typescript',
+    linkPath: '../src/my app.ts',
+    label: 'src/my app.ts',
+    startLine: 10,
+    endLine: 12,
+  });
+  assert.strictEqual(
+    description,
+    '[src/my app.ts#L10-L12](../src/my%20app.ts#L10-L12)\n\n```typescript\nif (ready) {\n  start();\n}\n```'
+  );
+
+  // A fence longer than the backticks inside the selection
+  const fenced = buildCaptureDescription({
+    text: 'const md = "```js";',
+    languageId: 'javascript',
+    linkPath: 'a.js',
+    label: 'a.js',
+    startLine: 1,
+    endLine: 1,
+  });
+  assert.ok(fenced.includes('\n\n````javascript\nconst md = "```js";\n````'));
+}
+
+// Test: parentheses in paths are encoded so the link doesn't end early
+{
+  const description = buildCaptureDescription({
+    text: 'export default Page;',
+    languageId: 'typescriptreact',
+    linkPath: '../app/(auth)/page.tsx',
+    label: 'app/(auth)/page.tsx',
+    startLine: 4,
+    endLine: 4,
+  });
+  assert.ok(description.startsWith('[app/(auth)/page.tsx#L4](../app/%28auth%29/page.tsx#L4)\n'));
+  assert.deepStrictEqual(parseCodeLink('../app/%28auth%29/page.tsx#L4'), {
+    path: '../app/(auth)/page.tsx',
+    startLine: 4,
+    endLine: 4,
+  });
+}
+
+// Test: prose is quoted
+{
+  const description = buildCaptureDescription({
+    text: 'First point\n\nSecond point',
+    languageId: 'markdown',
+    linkPath: 'notes.md',
+    label: 'notes.md',
+    startLine: 3,
+    endLine: 5,
+  });
+  assert.strictEqual(description, '[notes.md#L3-L5](notes.md#L3-L5)\n\n> First point\n>\n> Second point');
+}
+
+// Test: a captured card survives a save and reload of the board
+{
+  const board = parseMarkdown('## To Do\n\n- [ ] Existing\n');
+  const description = buildCaptureDescription({
+    text: 'function load() {\n\n  return 1;\n}',
+    languageId: 'typescript',
+    linkPath: 'src/load.ts',
+    label: 'src/load.ts',
+    startLine: 4,
+    endLine: 7,
+  });
+  addCard(board, board.columns[0].id, 'function load() {');
+  updateCard(board, board.columns[0].cards[1].id, { description });
+
+  const reloaded = parseMarkdown(serializeBoard(board));
+  assert.strictEqual(reloaded.columns[0].cards.length, 2);
+  assert.strictEqual(reloaded.columns[0].cards[1].description, description);
+  assert.strictEqual(serializeBoard(reloaded), serializeBoard(board));
+}
+
+console.log('All kanban code links tests passed');
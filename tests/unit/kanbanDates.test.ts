@@ -0,0 +1,155 @@
+import {
+  addDays,
+  addMonths,
+  daysBetween,
+  getCardSpan,
+  partitionCardsByDate,
+  shiftCardDates,
+  setCardSpan,
+  resizeCardSpan,
+  dragCardDates,
+  clearCardDates,
+  getMonthWeeks,
+  getTimelineRange,
+  isInTimelineWindow,
+  TIMELINE_WINDOW_DAYS,
+} from '../../webview/kanban/dates';
+import { parseMarkdown, applyCardMetadata, getCardTitle } from '../../webview/kanban/parser';
+import assert from 'assert';
+
+const meta = (dates: { start?: string; due?: string }) => ({ assignees: [], tags: [], ...dates });
+
+// Test: day arithmetic crosses month and year ends
+assert.strictEqual(addDays('2026-10-30', 3), '2026-11-02');
+assert.strictEqual(addDays('2027-01-01', -1), '2026-12-31');
+assert.strictEqual(daysBetween('2026-10-30', '2026-11-02'), 3);
+assert.strictEqual(daysBetween('2026-11-02', '2026-10-30'), -3);
+assert.strictEqual(addMonths('2026-12', 1), '2027-01');
+assert.strictEqual(addMonths('2026-01', -1), '2025-12');
+
+// Test: spans come from start and due; one date alone is a one-day card
+assert.deepStrictEqual(getCardSpan(meta({ start: '2026-11-02', due: '2026-11-06' })), {
+  start: '2026-11-02',
+  end: '2026-11-06',
+});
+assert.deepStrictEqual(getCardSpan(meta({ due: '2026-11-06' })), { start: '2026-11-06', end: '2026-11-06' });
+assert.deepStrictEqual(getCardSpan(meta({ start: '2026-11-02' })), { start: '2026-11-02', end: '2026-11-02' });
+assert.deepStrictEqual(getCardSpan(meta({ start: '2026-11-09', due: '2026-11-06' })), {
+  start: '2026-11-09',
+  end: '2026-11-09',
+});
+assert.strictEqual(getCardSpan(meta({})), undefined);
+
+// Test: dated cards sort by start; undated cards keep board order
+const board = parseMarkdown(
+  [
+    '## To Do',
+    '- [ ] Later due:2026-11-20',
+    '- [ ] Someday',
+    '## Doing',
+    '- [ ] Build start:2026-11-02 due:2026-11-10',
+    '- [ ] Ideas',
+  ].join('\n')
+);
+const { dated, undated } = partitionCardsByDate(board);
+assert.deepStrictEqual(
+  dated.map(({ card }) => card.text.split(' ')[0]),
+  ['Build', 'Later']
+);
+assert.deepStrictEqual(
+  undated.map((card) => card.text),
+  ['Someday', 'Ideas']
+);
+
+// Test: moving a card shifts whichever dates it has
+assert.deepStrictEqual(
+  shiftCardDates(meta({ start: '2026-11-02', due: '2026-11-06' }), 7),
+  meta({ start: '2026-11-09', due: '2026-11-13' })
+);
+assert.strictEqual(shiftCardDates(meta({ due: '2026-11-06' }), -2).due, '2026-11-04');
+assert.strictEqual(shiftCardDates(meta({ due: '2026-11-06' }), -2).start, undefined);
+
+// Test: one-day spans are written as a due date alone
+assert.deepStrictEqual(setCardSpan(meta({ start: '2026-11-01' }), '2026-11-05', '2026-11-05'), {
+  ...meta({ due: '2026-11-05' }),
+  start: undefined,
+});
+assert.deepStrictEqual(setCardSpan(meta({}), '2026-11-05', '2026-11-02'), {
+  ...meta({ due: '2026-11-05' }),
+  start: undefined,
+});
+
+// Test: stretching a one-day card adds a start date; shrinking back removes it
+const stretched = resizeCardSpan(meta({ due: '2026-11-06' }), 'end', '2026-11-08');
+assert.strictEqual(stretched.start, '2026-11-06');
+assert.strictEqual(stretched.due, '2026-11-08');
+assert.strictEqual(resizeCardSpan(stretched, 'start', '2026-11-08').start, undefined);
+assert.strictEqual(resizeCardSpan(stretched, 'start', '2026-11-10').due, '2026-11-08');
+assert.strictEqual(resizeCardSpan(stretched, 'end', '2026-11-01').start, undefined);
+
+// Test: dragging a bar or one of its edges by whole days
+const bar = meta({ start: '2026-11-02', due: '2026-11-06' });
+assert.deepStrictEqual(getCardSpan(dragCardDates(bar, undefined, 3)), { start: '2026-11-05', end: '2026-11-09' });
+assert.deepStrictEqual(getCardSpan(dragCardDates(bar, 'start', -2)), { start: '2026-10-31', end: '2026-11-06' });
+assert.deepStrictEqual(getCardSpan(dragCardDates(bar, 'end', 2)), { start: '2026-11-02', end: '2026-11-08' });
+assert.strictEqual(dragCardDates(bar, 'end', 0), bar);
+
+// Test: date edits only touch the date tokens on the card line
+const line = 'Build @alice start:2026-11-02 #api due:2026-11-10';
+const card = parseMarkdown(`## To Do\n- [ ] ${line}`).columns[0].cards[0];
+assert.strictEqual(
+  applyCardMetadata(line, shiftCardDates(card.metadata, 1)),
+  'Build @alice start:2026-11-03 #api due:2026-11-11'
+);
+assert.strictEqual(applyCardMetadata(line, clearCardDates(card.metadata)), 'Build @alice #api');
+
+// Test: dates that don't exist aren't date tokens, and stay in the title
+{
+  const text = 'Plan due:2024-13-45 start:2026-02-30 due:2023-02-29';
+  const [card] = parseMarkdown(`## To Do\n- [ ] ${text}`).columns[0].cards;
+  assert.strictEqual(card.metadata.start, undefined);
+  assert.strictEqual(card.metadata.due, undefined);
+  assert.strictEqual(getCardTitle(text), text);
+  assert.strictEqual(applyCardMetadata(text, meta({ due: '2026-11-06' })), `${text} due:2026-11-06`);
+  const leap = parseMarkdown('## To Do\n- [ ] Leap day due:2024-02-29').columns[0].cards[0];
+  assert.strictEqual(leap.metadata.due, '2024-02-29');
+}
+
+// Test: month grid runs Sunday to Saturday in whole weeks
+const weeks = getMonthWeeks('2026-11');
+assert.strictEqual(weeks.length, 5);
+assert.strictEqual(weeks[0][0], '2026-11-01');
+assert.strictEqual(weeks[4][6], '2026-12-05');
+const february = getMonthWeeks('2026-02');
+assert.strictEqual(february[0][0], '2026-02-01');
+assert.strictEqual(february.length, 4);
+assert.strictEqual(getMonthWeeks('2026-10')[0][0], '2026-09-27');
+
+// Test: timeline range covers today and every span, at least four weeks
+assert.deepStrictEqual(getTimelineRange([], '2026-11-10'), { start: '2026-11-07', end: '2026-12-04' });
+assert.deepStrictEqual(
+  getTimelineRange(
+    [
+      { start: '2026-10-01', end: '2026-10-03' },
+      { start: '2026-11-20', end: '2026-12-20' },
+    ],
+    '2026-11-10'
+  ),
+  { start: '2026-09-28', end: '2026-12-27' }
+);
+
+// Test: spans beyond the window around today don't stretch the timeline
+{
+  const today = '2026-11-10';
+  const typo = { start: '2205-01-01', end: '2205-01-01' };
+  const ancient = { start: '0001-01-01', end: '2026-11-12' };
+  const edge = { start: addDays(today, -TIMELINE_WINDOW_DAYS), end: addDays(today, TIMELINE_WINDOW_DAYS) };
+  assert.strictEqual(isInTimelineWindow(typo, today), false);
+  assert.strictEqual(isInTimelineWindow(ancient, today), false);
+  assert.strictEqual(isInTimelineWindow(edge, today), true);
+  assert.deepStrictEqual(getTimelineRange([typo, ancient], today), getTimelineRange([], today));
+  const range = getTimelineRange([typo, edge], today);
+  assert.strictEqual(daysBetween(range.start, range.end), TIMELINE_WINDOW_DAYS * 2 + 10);
+}
+
+console.log('All kanban dates tests passed');
@@ -0,0 +1,48 @@
+import { findEmbeddedImages, replaceEmbeddedImages } from '../../src/kanban/embeddedImages';
+import { parseMarkdown, serializeBoard } from '../../webview/kanban/parser';
+import assert from 'assert';
+
+const png = 'data:image/png;base64,iVBORw0KGgo=';
+const jpeg = 'data:image/jpeg;base64,/9j/4AAQ';
+
+const board = [
+  '## To Do',
+  '',
+  '- [ ] Mockups',
+  `  ![home](${png})`,
+  '',
+  `  ![photo](${jpeg}) and again ![](${png})`,
+  '- [ ] Logo',
+  '  ![logo](assets/logo.svg)',
+  '',
+].join('\n');
+
+// Test: each distinct data URL image is found once, with a file name for its type
+{
+  assert.deepStrictEqual(findEmbeddedImages(board), [
+    { dataUrl: png, filename: 'card-image-1.png' },
+    { dataUrl: jpeg, filename: 'card-image-2.jpg' },
+  ]);
+  assert.deepStrictEqual(findEmbeddedImages('![](data:image/svg+xml;base64,PHN2Zz4=)')[0].filename, 'card-image-1.svg');
+  assert.deepStrictEqual(findEmbeddedImages('![logo](assets/logo.svg)'), []);
+}
+
+// Test: data URLs are swapped for paths and the rest of the board is untouched
+{
+  const paths = new Map([
+    [png, 'assets/card-image-1-1.png'],
+    [jpeg, 'assets/photo (2).jpg'],
+  ]);
+  const migrated = replaceEmbeddedImages(board, paths);
+  assert.strictEqual(
+    migrated,
+    board
+      .replace(`![home](${png})`, '![home](assets/card-image-1-1.png)')
+      .replace(`![photo](${jpeg})`, '![photo](assets/photo \\(2\\).jpg)')
+      .replace(`![](${png})`, '![](assets/card-image-1-1.png)')
+  );
+  assert.strictEqual(serializeBoard(parseMarkdown(migrated)), migrated);
+  assert.strictEqual(parseMarkdown(migrated).columns[0].cards.length, 2);
+}
+
+console.log('All kanban embedded images tests passed');
@@ -0,0 +1,88 @@
+import { boardToCsv, boardToHtml } from '../../src/export/kanbanExport';
+import { parseMarkdown } from '../../webview/kanban/parser';
+import assert from 'assert';
+
+const board = parseMarkdown(
+  [
+    '## To Do',
+    '',
+    '- [ ] Fix login @alice @bob #backend due:2026-10-01 !high ^PM-1',
+    '  Steps to reproduce, "quoted"',
+    '  - [x] Check logs',
+    '  - [ ] Patch',
+    '',
+    '## Done [wip:1]',
+    '',
+    '- [x] Ship <v1>, finally',
+    '- [x] Second done card',
+    '',
+  ].join('\n')
+);
+
+// Test: CSV has a header and one row per card, quoting where needed
+const csv = boardToCsv(board);
+const lines = csv.split('\r\n');
+assert.strictEqual(lines[0], 'Column,Lane,Title,Text,Description,Completed,Assignees,Tags,Start,Due,Priority,Key');
+assert.strictEqual(
+  lines[1],
+  'To Do,,Fix login,Fix login @alice @bob #backend due:2026-10-01 !high ^PM-1,' +
+    '"Steps to reproduce, ""quoted""\n- [x] Check logs\n- [ ] Patch",false,alice; bob,backend,,2026-10-01,high,PM-1'
+);
+assert.strictEqual(lines[2], 'Done,,"Ship <v1>, finally","Ship <v1>, finally",,true,,,,,,');
+assert.strictEqual(lines[3], 'Done,,Second done card,Second done card,,true,,,,,,');
+assert.strictEqual(lines.length, 5);
+assert.ok(csv.endsWith('\r\n'));
+
+// Test: CSV includes the swimlane of each card
+const laned = parseMarkdown(['# Team A', '## To Do', '- [ ] Task', '# Team B', '## To Do', '- [ ] Other'].join('\n'));
+const lanedRows = boardToCsv(laned).split('\r\n');
+assert.strictEqual(lanedRows[1], 'To Do,Team A,Task,Task,,false,,,,,,');
+assert.strictEqual(lanedRows[2], 'To Do,Team B,Other,Other,,false,,,,,,');
+
+// Test: cells that would run as spreadsheet formulas start with an apostrophe
+const formulas = parseMarkdown(
+  ['## =SUM(A1)', '- [ ] +1 call', '- [ ] @here -2', '  - [ ] Subtask', '- [ ] =HYPERLINK("http://x", "y")'].join('\n')
+);
+const formulaRows = boardToCsv(formulas).split('\r\n');
+assert.strictEqual(formulaRows[1], "'=SUM(A1),,'+1 call,'+1 call,,false,,,,,,");
+assert.strictEqual(formulaRows[2], "'=SUM(A1),,'-2,'@here -2,'- [ ] Subtask,false,here,,,,,");
+assert.strictEqual(formulaRows[3], `'=SUM(A1),,"'=HYPERLINK(""http://x"", ""y"")","'=HYPERLINK(""http://x"", ""y"")",,false,,,,,,`);
+
+// Test: empty board exports just the header
+assert.strictEqual(boardToCsv(parseMarkdown('## To Do\n')), `${lines[0]}\r\n`);
+
+// Test: HTML snapshot is self-contained and escapes card content
+const html = boardToHtml(board, 'Q4 <Roadmap>', '2026-10-19');
+assert.ok(html.startsWith('<!DOCTYPE html>'));
+assert.ok(html.includes('<title>Q4 &lt;Roadmap&gt;</title>'));
+assert.ok(html.includes('<style>'));
+assert.ok(!html.includes('<link'), 'no external stylesheets');
+assert.ok(!html.includes('<script'), 'no scripts');
+assert.ok(html.includes('Ship &lt;v1&gt;, finally'));
+assert.ok(!html.includes('<v1>'));
+assert.ok(html.includes('3 cards · 2 completed · exported 2026-10-19'));
+
+// Test: HTML shows metadata, subtask progress, overdue dates and WIP overflow
+assert.ok(html.includes('<span class="card-key">PM-1</span>'));
+assert.ok(html.includes('<span class="chip">@alice</span>'));
+assert.ok(html.includes('<span class="chip">#backend</span>'));
+assert.ok(html.includes('<span class="chip overdue">due 2026-10-01</span>'));
+assert.ok(html.includes('<span class="chip priority-high">!high</span>'));
+assert.ok(html.includes('☑ 1/2'));
+assert.ok(html.includes('<span class="column-count over-limit">2/1</span>'));
+assert.ok(html.includes('<div class="card completed">'));
+
+// Test: due dates are not overdue relative to an earlier day
+assert.ok(boardToHtml(board, 'Board', '2026-09-01').includes('<span class="chip">due 2026-10-01</span>'));
+
+// Test: HTML groups columns under their swimlanes
+const lanedHtml = boardToHtml(laned, 'Board', '2026-10-19');
+assert.ok(lanedHtml.indexOf('Team A') < lanedHtml.indexOf('Team B'));
+assert.strictEqual(lanedHtml.match(/<div class="lane">/g)?.length, 2);
+
+// Test: extra CSS (e.g. PDF page settings) is added after the board styles
+const printable = boardToHtml(board, 'Board', '2026-10-19', '@page { size: A4; }');
+assert.ok(printable.includes('<style>@page { size: A4; }</style>'));
+assert.ok(!html.includes('@page'));
+
+console.log('All kanban export tests passed');
@@ -0,0 +1,47 @@
+import { getKanbanFence, serializeKanbanBlock, replaceKanbanBlocks } from '../../webview/editor/kanbanFences';
+import assert from 'assert';
+
+const board = ['## To Do', '', '- [ ] Fix login', '  ```ts', '  login();', '  ```', '- [ ] Ship', '', '## Done'].join('\n');
+
+function extract(markdown: string): { blocks: string[]; rest: string } {
+  const blocks: string[] = [];
+  const rest = replaceKanbanBlocks(markdown, (content) => {
+    blocks.push(content);
+    return `[block ${blocks.length - 1}]`;
+  });
+  return { blocks, rest };
+}
+
+// Test: the fence is longer than any backtick run in the board
+{
+  assert.strictEqual(getKanbanFence('## To Do\n\n- [ ] A\n'), '```');
+  assert.strictEqual(getKanbanFence(board), '````');
+  assert.strictEqual(getKanbanFence('  `````\n'), '``````');
+}
+
+// Test: a board with code fences in its descriptions round-trips inside a document
+{
+  const doc = ['# Plan', '', serializeKanbanBlock(board), '', 'After the board', ''].join('\n');
+  assert.ok(doc.includes('````kanban\n## To Do'));
+  const { blocks, rest } = extract(doc);
+  assert.deepStrictEqual(blocks, [board]);
+  assert.strictEqual(rest, ['# Plan', '', '[block 0]', '', 'After the board', ''].join('\n'));
+}
+
+// Test: blocks written with a plain fence aren't closed by indented description fences
+{
+  const doc = ['```kanban', board, '```', 'After', '```kanban', '## Other', '```'].join('\n');
+  const { blocks, rest } = extract(doc);
+  assert.deepStrictEqual(blocks, [board, '## Other']);
+  assert.strictEqual(rest, ['[block 0]', 'After', '[block 1]'].join('\n'));
+}
+
+// Test: other code blocks are left alone, and an unclosed block runs to the end
+{
+  const doc = ['```ts', 'const a = 1;', '```', '```kanban', '## To Do'].join('\n');
+  const { blocks, rest } = extract(doc);
+  assert.deepStrictEqual(blocks, ['## To Do']);
+  assert.strictEqual(rest, ['```ts', 'const a = 1;', '```', '[block 0]'].join('\n'));
+}
+
+console.log('All kanban fences tests passed');
@@ -0,0 +1,63 @@
+import { parseMarkdown } from '../../webview/kanban/parser';
+import {
+  parseFilterQuery,
+  formatFilterQuery,
+  isFilterActive,
+  matchesFilter,
+  splitHighlights,
+} from '../../webview/kanban/filter';
+import assert from 'assert';
+
+// Test: queries split into text, tokens and status
+const f1 = parseFilterQuery('login #bug @alice !high is:open');
+assert.deepStrictEqual(f1.text, ['login'], 'should collect free text');
+assert.deepStrictEqual(f1.tags, ['bug'], 'should parse tags');
+assert.deepStrictEqual(f1.assignees, ['alice'], 'should parse assignees');
+assert.strictEqual(f1.priority, 'high', 'should parse priority');
+assert.strictEqual(f1.status, 'open', 'should parse status');
+assert.strictEqual(formatFilterQuery(f1), 'login #bug @alice !high is:open', 'should format back');
+assert.strictEqual(isFilterActive(parseFilterQuery('  ')), false, 'empty query is inactive');
+
+// Test: cards match on every part of the filter
+const board = parseMarkdown(
+  [
+    '## To Do',
+    '',
+    '- [ ] Fix Login redirect @alice #bug',
+    '- [ ] Write docs @bob',
+    '  Covers the login flow',
+    '- [x] Old login bug #bug',
+    '',
+  ].join('\n')
+);
+const [fix, docs, old] = board.columns[0].cards;
+const login = parseFilterQuery('login');
+assert.ok(matchesFilter(fix, login), 'text should match case-insensitively');
+assert.ok(matchesFilter(docs, login), 'text should match the description');
+assert.ok(!matchesFilter(fix, parseFilterQuery('alice')), 'text should not match metadata tokens');
+assert.ok(matchesFilter(fix, parseFilterQuery('#BUG is:open')), 'tags should match case-insensitively');
+assert.ok(!matchesFilter(old, parseFilterQuery('#bug is:open')), 'status should exclude done cards');
+assert.ok(matchesFilter(old, parseFilterQuery('is:done')), 'is:done should match done cards');
+assert.ok(!matchesFilter(docs, parseFilterQuery('@alice')), 'assignee should narrow');
+
+// Test: highlights split on the matched words
+assert.deepStrictEqual(
+  splitHighlights('Fix Login redirect', ['login']),
+  [
+    { text: 'Fix ', match: false },
+    { text: 'Login', match: true },
+    { text: ' redirect', match: false },
+  ],
+  'should highlight matched words'
+);
+assert.deepStrictEqual(
+  splitHighlights('a.b', ['.']),
+  [
+    { text: 'a', match: false },
+    { text: '.', match: true },
+    { text: 'b', match: false },
+  ],
+  'should escape regex characters'
+);
+
+console.log('All kanbanFilter tests passed');
@@ -0,0 +1,119 @@
+import {
+  buildFolderBoard,
+  stripFolderCards,
+  setFrontmatterField,
+  getFolderCardTitle,
+  getFolderCardMetadata,
+  NO_STATUS,
+} from '../../src/kanban/folderBoard';
+import { parseMarkdown, serializeBoard } from '../../webview/kanban/parser';
+import assert from 'assert';
+
+const boardText = [
+  '# Specs',
+  '',
+  '[folder:specs]',
+  '',
+  '## Draft',
+  '',
+  'Ideas being written up',
+  '',
+  '## Review [wip:2]',
+  '',
+  '## Done [auto-complete]',
+  '',
+].join('\n');
+
+// Test: the folder setting round-trips and the key defaults to status
+assert.deepStrictEqual(parseMarkdown(boardText).settings?.folder, { path: 'specs', key: 'status' });
+assert.deepStrictEqual(parseMarkdown('[folder:docs/rfcs=stage]\n\n## New\n').settings?.folder, {
+  path: 'docs/rfcs',
+  key: 'stage',
+});
+assert.strictEqual(serializeBoard(parseMarkdown(boardText)), boardText);
+
+// Test: titles come from the title field, then the first heading, then the file name
+assert.strictEqual(getFolderCardTitle({ path: 'a.md', data: { title: 'Search' }, body: '# Other\n' }), 'Search');
+assert.strictEqual(getFolderCardTitle({ path: 'a.md', data: {}, body: 'Intro\n\n# Login flow\n' }), 'Login flow');
+assert.strictEqual(getFolderCardTitle({ path: 'sub/billing-v2.md', data: {}, body: 'No heading' }), 'billing-v2');
+
+// Test: common front matter fields become card metadata
+assert.deepStrictEqual(
+  getFolderCardMetadata({
+    owner: 'Ada Lovelace',
+    tags: ['auth', 'Q4 goals'],
+    start: new Date(Date.UTC(2026, 10, 2)),
+    due: '2026-11-20',
+    priority: 'High',
+  }),
+  { assignees: ['Ada-Lovelace'], tags: ['auth', 'Q4-goals'], start: '2026-11-02', due: '2026-11-20', priority: 'high' }
+);
+assert.deepStrictEqual(getFolderCardMetadata({ assignees: '@bob, @carol', priority: 'urgent' }), {
+  assignees: ['bob', 'carol'],
+  tags: [],
+  start: undefined,
+  due: undefined,
+  priority: undefined,
+});
+
+// Test: files fill the declared columns by status, ignoring case, sorted by title
+const files = [
+  { path: 'search.md', data: { status: 'review', owner: 'ada' }, body: '# Search\n' },
+  { path: 'billing.md', data: { status: 'Draft' }, body: '# Billing\n' },
+  { path: 'audit.md', data: { status: 'Draft', due: '2026-12-01' }, body: '# Audit log\n' },
+  { path: 'sub/export.md', data: { status: 'Done' }, body: '# Export\n' },
+  { path: 'sub/blocked.md', data: { status: 'Blocked' }, body: '# SSO\n' },
+  { path: 'notes.md', data: {}, body: 'Loose notes' },
+];
+const { board, paths } = buildFolderBoard(boardText, files, 'status');
+assert.deepStrictEqual(
+  board.columns.map((column) => [column.title, column.cards.map((card) => card.text)]),
+  [
+    ['Draft', ['Audit log due:2026-12-01', 'Billing']],
+    ['Review', ['Search @ada']],
+    ['Done', ['Export']],
+    [NO_STATUS, ['notes']],
+    ['Blocked', ['SSO']],
+  ]
+);
+assert.deepStrictEqual(paths, [['audit.md', 'billing.md'], ['search.md'], ['sub/export.md'], ['notes.md'], ['sub/blocked.md']]);
+
+// Test: cards in auto-complete columns are done; column settings are kept
+assert.strictEqual(board.columns[2].cards[0].completed, true);
+assert.strictEqual(board.columns[0].cards[0].completed, false);
+assert.strictEqual(board.columns[1].settings?.wipLimit, 2);
+
+// Test: the status key is configurable
+const byStage = buildFolderBoard('[folder:specs=stage]\n\n## Ready\n', [
+  { path: 'a.md', data: { stage: 'Ready', status: 'Draft' }, body: '# A\n' },
+], 'stage');
+assert.deepStrictEqual(byStage.board.columns.map((column) => [column.title, column.cards.length]), [['Ready', 1]]);
+
+// Test: cards in the .kanban file itself are ignored
+const withCards = buildFolderBoard('[folder:specs]\n\n## Draft\n\n- [ ] Stale card\n', [], 'status');
+assert.deepStrictEqual(withCards.board.columns[0].cards, []);
+
+// Test: stripping the cards gives back the .kanban file, with generated columns kept
+assert.strictEqual(stripFolderCards(boardText), boardText);
+assert.strictEqual(
+  stripFolderCards(serializeBoard(board)),
+  boardText + ['', `## ${NO_STATUS}`, '', '## Blocked', ''].join('\n')
+);
+
+// Test: setting a front matter field changes only its line
+const spec = ['---', 'title: Search', 'status: review', 'tags: [auth]', '---', '', '# Search', ''].join('\n');
+assert.strictEqual(setFrontmatterField(spec, 'status', 'Done'), spec.replace('status: review', 'status: Done'));
+
+// Test: values YAML would read differently are quoted
+assert.ok(setFrontmatterField(spec, 'status', 'In Review: QA').includes('status: "In Review: QA"'));
+assert.ok(setFrontmatterField(spec, 'status', 'yes').includes('status: "yes"'));
+assert.ok(setFrontmatterField(spec, 'status', '2026').includes('status: "2026"'));
+
+// Test: missing fields and front matter blocks are added
+assert.strictEqual(
+  setFrontmatterField('---\ntitle: Search\n---\nBody', 'status', 'Draft'),
+  '---\ntitle: Search\nstatus: Draft\n---\nBody'
+);
+assert.strictEqual(setFrontmatterField('# Search\r\n', 'status', 'Draft'), '---\r\nstatus: Draft\r\n---\r\n\r\n# Search\r\n');
+
+console.log('All kanban folder board tests passed');
@@ -0,0 +1,65 @@
+import { BoardHistory } from '../../webview/kanban/history';
+import assert from 'assert';
+
+let time = 0;
+const clock = () => time;
+
+// Test: undo and redo step through recorded snapshots
+const h1 = new BoardHistory('a', clock);
+assert.strictEqual(h1.canUndo(), false, 'fresh history has nothing to undo');
+h1.record('b');
+time += 5000;
+h1.record('c');
+assert.strictEqual(h1.undo(), 'b');
+assert.strictEqual(h1.undo(), 'a');
+assert.strictEqual(h1.undo(), null, 'should stop at the start');
+assert.strictEqual(h1.redo(), 'b');
+assert.strictEqual(h1.redo(), 'c');
+assert.strictEqual(h1.redo(), null, 'should stop at the end');
+
+// Test: unchanged snapshots are not recorded
+const h2 = new BoardHistory('a', clock);
+h2.record('a');
+assert.strictEqual(h2.canUndo(), false, 'no-op edits should not add steps');
+
+// Test: fast consecutive edits coalesce into one step
+time = 0;
+const h3 = new BoardHistory('a', clock);
+h3.record('b');
+time += 200;
+h3.record('c');
+time += 200;
+h3.record('d');
+assert.strictEqual(h3.undo(), 'a', 'fast edits should undo together');
+assert.strictEqual(h3.redo(), 'd', 'and redo together');
+
+// Test: an edit after undo starts a new step and clears redo
+time = 0;
+const h4 = new BoardHistory('a', clock);
+h4.record('b');
+h4.undo();
+time += 100;
+h4.record('x');
+assert.strictEqual(h4.canRedo(), false, 'new edit should clear redo');
+assert.strictEqual(h4.undo(), 'a', 'edit right after undo is its own step');
+
+// Test: VS Code's own undo/redo shifts the stacks instead of resetting them
+time = 0;
+const h5 = new BoardHistory('a', clock);
+h5.record('b');
+time += 5000;
+h5.record('c');
+h5.syncExternal('b');
+assert.strictEqual(h5.redo(), 'c', 'external undo should leave a redo step');
+h5.undo();
+h5.syncExternal('c');
+assert.strictEqual(h5.undo(), 'b', 'external redo should leave an undo step');
+
+// Test: unrelated external edits reset the history
+const h6 = new BoardHistory('a', clock);
+h6.record('b');
+h6.syncExternal('z');
+assert.strictEqual(h6.canUndo(), false, 'undo must not revert external edits');
+assert.strictEqual(h6.canRedo(), false);
+
+console.log('All kanbanHistory tests passed');
@@ -0,0 +1,169 @@
+import { importTrelloBoard, importCsvBoard, parseCsv } from '../../src/import/kanbanImport';
+import { boardToCsv } from '../../src/export/kanbanExport';
+import { parseMarkdown, serializeBoard } from '../../webview/kanban/parser';
+import assert from 'assert';
+
+// Test: CSV parsing handles quotes, embedded commas and line breaks, CRLF and a BOM
+assert.deepStrictEqual(parseCsv('\uFEFFa,b,c\r\n"1, one","say ""hi""","multi\nline"\r\n\r\nx,,z'), [
+  ['a', 'b', 'c'],
+  ['1, one', 'say "hi"', 'multi\nline'],
+  ['x', '', 'z'],
+]);
+assert.deepStrictEqual(parseCsv('a,b\n1,2\n'), [['a', 'b'], ['1', '2']]);
+
+// Test: Trello lists become columns in list order, archived lists and cards are skipped
+const trello = {
+  name: 'Roadmap Q4',
+  lists: [
+    { id: 'l2', name: 'Doing', pos: 2 },
+    { id: 'l1', name: 'Ideas', pos: 1 },
+    { id: 'l3', name: 'Old', pos: 3, closed: true },
+    { id: 'l4', name: 'Done', pos: 4 },
+  ],
+  members: [{ id: 'm1', username: 'alice', fullName: 'Alice A' }],
+  cards: [
+    { id: 'c2', name: 'Second idea', idList: 'l1', pos: 2 },
+    {
+      id: 'c1',
+      name: 'First idea',
+      desc: 'Some context\n\nMore detail  ',
+      idList: 'l1',
+      pos: 1,
+      due: '2026-11-01T12:00:00.000Z',
+      idMembers: ['m1'],
+      labels: [{ name: 'Good first issue', color: 'green' }, { name: '', color: 'red' }, { name: 'High' }],
+    },
+    { id: 'c3', name: 'Shipped', idList: 'l2', pos: 1, dueComplete: true },
+    { id: 'c4', name: 'Archived card', idList: 'l2', pos: 2, closed: true },
+    { id: 'c5', name: 'In archived list', idList: 'l3', pos: 1 },
+  ],
+  checklists: [
+    {
+      id: 'k1',
+      idCard: 'c1',
+      name: 'Steps',
+      pos: 1,
+      checkItems: [
+        { name: 'Second', state: 'incomplete', pos: 2 },
+        { name: 'First', state: 'complete', pos: 1 },
+      ],
+    },
+  ],
+};
+const trelloResult = importTrelloBoard(trello);
+assert.strictEqual(trelloResult.title, 'Roadmap Q4');
+assert.strictEqual(trelloResult.cards, 3);
+assert.strictEqual(trelloResult.skipped, 2);
+assert.strictEqual(
+  serializeBoard(trelloResult.board),
+  [
+    '## Ideas',
+    '',
+    '- [ ] First idea @alice #Good-first-issue #red due:2026-11-01 !high',
+    '  Some context',
+    '',
+    '  More detail',
+    '',
+    '  - [x] First',
+    '  - [ ] Second',
+    '- [ ] Second idea',
+    '',
+    '## Doing',
+    '',
+    '- [x] Shipped',
+    '',
+    '## Done',
+    '',
+  ].join('\n')
+);
+
+// Test: imported boards parse back with their metadata and subtasks
+const reparsed = parseMarkdown(serializeBoard(trelloResult.board));
+const first = reparsed.columns[0].cards[0];
+assert.deepStrictEqual(first.metadata.tags, ['Good-first-issue', 'red']);
+assert.strictEqual(first.description, 'Some context\n\nMore detail\n\n- [x] First\n- [ ] Second');
+
+// Test: several checklists are named so their items stay apart
+const twoLists = importTrelloBoard({
+  lists: [{ id: 'l', name: 'To Do' }],
+  cards: [{ id: 'c', name: 'Card', idList: 'l' }],
+  checklists: [
+    { id: 'a', idCard: 'c', name: 'Design', pos: 1, checkItems: [{ name: 'Mock', state: 'incomplete' }] },
+    { id: 'b', idCard: 'c', name: 'Build', pos: 2, checkItems: [{ name: 'Code', state: 'complete' }] },
+  ],
+});
+assert.strictEqual(
+  twoLists.board.columns[0].cards[0].description,
+  'Design:\n- [ ] Mock\n\nBuild:\n- [x] Code'
+);
+
+// Test: non-Trello JSON is rejected
+assert.throws(() => importTrelloBoard({ items: [] }), /not a Trello board export/);
+
+// Test: GitHub Projects CSV maps Status, Labels and Assignees
+const github = [
+  'Title,URL,Assignees,Status,Labels,Repository,State',
+  'Fix login,https://github.com/o/r/issues/1,"octocat, hubot",In Progress,"bug, priority: high",o/r,OPEN',
+  'Write docs,https://github.com/o/r/issues/2,,Done,documentation,o/r,CLOSED',
+  'Triage,https://github.com/o/r/issues/3,,,,o/r,OPEN',
+  ',https://github.com/o/r/issues/4,,Done,,o/r,OPEN',
+].join('\n');
+const githubResult = importCsvBoard(github);
+assert.strictEqual(githubResult.cards, 3);
+assert.strictEqual(githubResult.skipped, 1);
+assert.strictEqual(
+  serializeBoard(githubResult.board),
+  [
+    '## In Progress',
+    '',
+    '- [ ] Fix login @octocat @hubot #bug !high',
+    '',
+    '## Done',
+    '',
+    '- [x] Write docs #documentation',
+    '',
+    '## No Status',
+    '',
+    '- [ ] Triage',
+    '',
+  ].join('\n')
+);
+
+// Test: generic CSV with column/title/description and other date formats
+const generic = importCsvBoard(
+  [
+    'column,title,description,start date,due,priority',
+    'Backlog,Plan,"Line 1\nLine 2",2026-11-02,11/05/2026,Medium',
+  ].join('\n')
+);
+const planned = generic.board.columns[0].cards[0];
+assert.strictEqual(planned.text, 'Plan start:2026-11-02 due:2026-11-05 !medium');
+assert.strictEqual(planned.description, 'Line 1\nLine 2');
+
+// Test: CSV without a column or title field is rejected
+assert.throws(() => importCsvBoard('name,owner\nA,alice'), /column \(or status\) field and a title field/);
+assert.throws(() => importCsvBoard(''), /empty/);
+
+// Test: our own CSV export round-trips, lanes included
+const original = parseMarkdown(
+  [
+    '# Web',
+    '',
+    '## To Do',
+    '',
+    '- [ ] Fix login @alice #backend start:2026-10-28 due:2026-11-01 !high',
+    '  Steps, "quoted"',
+    '  - [ ] Patch',
+    '',
+    '# Mobile',
+    '',
+    '## Done',
+    '',
+    '- [x] Ship',
+    '',
+  ].join('\n')
+);
+const roundTrip = importCsvBoard(boardToCsv(original));
+assert.strictEqual(serializeBoard(roundTrip.board), serializeBoard(original));
+
+console.log('All kanban import tests passed');
@@ -0,0 +1,46 @@
+import { parseMarkdown } from '../../webview/kanban/parser';
+import { findKeyboardMoveTarget } from '../../webview/kanban/keyboard';
+import assert from 'assert';
+
+const board = parseMarkdown(
+  [
+    '# Web',
+    '',
+    '## To Do',
+    '',
+    '- [ ] First',
+    '- [ ] Second',
+    '- [ ] Third',
+    '',
+    '## Doing',
+    '',
+    '- [ ] Only',
+    '',
+    '# Mobile',
+    '',
+    '## To Do',
+    '',
+    '- [ ] Other lane',
+    '',
+  ].join('\n')
+);
+const [todo, doing] = board.columns;
+const [first, second, third] = todo.cards;
+
+// Test: up/down reorder within the column and stop at its ends
+assert.deepStrictEqual(findKeyboardMoveTarget(board, second.id, 'up'), { toColumnId: todo.id, toIndex: 0 });
+assert.deepStrictEqual(findKeyboardMoveTarget(board, second.id, 'down'), { toColumnId: todo.id, toIndex: 2 });
+assert.strictEqual(findKeyboardMoveTarget(board, first.id, 'up'), null, 'top card cannot move up');
+assert.strictEqual(findKeyboardMoveTarget(board, third.id, 'down'), null, 'bottom card cannot move down');
+
+// Test: left/right keep the position, clamped to the target column
+assert.deepStrictEqual(findKeyboardMoveTarget(board, first.id, 'right'), { toColumnId: doing.id, toIndex: 0 });
+assert.deepStrictEqual(findKeyboardMoveTarget(board, third.id, 'right'), { toColumnId: doing.id, toIndex: 1 });
+assert.strictEqual(findKeyboardMoveTarget(board, first.id, 'left'), null, 'first column cannot move left');
+
+// Test: left/right stay inside the card's lane
+assert.strictEqual(findKeyboardMoveTarget(board, doing.cards[0].id, 'right'), null, 'should not leave the lane');
+
+assert.strictEqual(findKeyboardMoveTarget(board, 'missing', 'up'), null, 'unknown card has no target');
+
+console.log('All kanbanKeyboard tests passed');
@@ -0,0 +1,149 @@
+import { mergeBoards, matchCards, keepIds } from '../../webview/kanban/merge';
+import { parseMarkdown, serializeBoard } from '../../webview/kanban/parser';
+import assert from 'assert';
+
+const base = [
+  '## To Do',
+  '',
+  '- [ ] Write brief',
+  '- [ ] Review copy',
+  '- [ ] Book room',
+  '',
+  '## Done',
+  '',
+  '- [x] Kickoff',
+  '',
+].join('\n');
+
+function merge(local: string, remote: string, from = base) {
+  const result = mergeBoards(parseMarkdown(from), parseMarkdown(local), parseMarkdown(remote));
+  return { content: serializeBoard(result.board), conflicts: result.conflicts };
+}
+
+// Test: edits on different cards are combined
+{
+  const local = base.replace('Write brief', 'Write brief @ada');
+  const remote = base.replace('- [ ] Book room', '- [x] Book room');
+  const { content, conflicts } = merge(local, remote);
+  assert.strictEqual(content, base.replace('Write brief', 'Write brief @ada').replace('- [ ] Book room', '- [x] Book room'));
+  assert.deepStrictEqual(conflicts, []);
+}
+
+// Test: a card added here and one added in the file both survive
+{
+  const local = base.replace('- [ ] Book room\n', '- [ ] Book room\n- [ ] Send invites\n');
+  const remote = base.replace('- [x] Kickoff\n', '- [x] Kickoff\n- [x] Budget\n');
+  const { content, conflicts } = merge(local, remote);
+  assert.ok(content.includes('- [ ] Book room\n- [ ] Send invites\n'));
+  assert.ok(content.includes('- [x] Kickoff\n- [x] Budget\n'));
+  assert.deepStrictEqual(conflicts, []);
+}
+
+// Test: a move made here is kept when the file edited the same card's text
+{
+  const local = base.replace('- [ ] Review copy\n', '').replace('- [x] Kickoff\n', '- [x] Kickoff\n- [ ] Review copy\n');
+  const remote = base.replace('Review copy', 'Review copy due:2026-11-02');
+  const { content, conflicts } = merge(local, remote);
+  assert.ok(content.includes('## Done\n\n- [x] Kickoff\n- [ ] Review copy due:2026-11-02\n'));
+  assert.ok(!content.split('## Done')[0].includes('Review copy'));
+  assert.deepStrictEqual(conflicts, []);
+}
+
+// Test: when both sides change the same card, the file wins and it is reported
+{
+  const local = base.replace('Write brief', 'Write the brief');
+  const remote = base.replace('Write brief', 'Draft brief');
+  const { content, conflicts } = merge(local, remote);
+  assert.ok(content.includes('- [ ] Draft brief\n'));
+  assert.ok(!content.includes('Write the brief'));
+  assert.deepStrictEqual(conflicts, ['Draft brief']);
+}
+
+// Test: a card deleted in the file stays deleted unless it was edited here
+{
+  const remote = base.replace('- [ ] Book room\n', '');
+  assert.strictEqual(merge(base.replace('Write brief', 'Write brief #q4'), remote).content.includes('Book room'), false);
+
+  const local = base.replace('Book room', 'Book room @bob');
+  const { content, conflicts } = merge(local, remote);
+  assert.strictEqual(content.includes('Book room'), false);
+  assert.deepStrictEqual(conflicts, ['Book room']);
+}
+
+// Test: a card deleted here stays deleted when the file left it alone
+{
+  const local = base.replace('- [ ] Review copy\n', '');
+  const remote = base.replace('- [x] Kickoff', '- [x] Kickoff meeting');
+  const { content, conflicts } = merge(local, remote);
+  assert.strictEqual(content.includes('Review copy'), false);
+  assert.ok(content.includes('Kickoff meeting'));
+  assert.deepStrictEqual(conflicts, []);
+}
+
+// Test: column changes made here are kept while the file's card edits come in
+{
+  const local = base.replace('## Done', '## Done [auto-complete]');
+  const remote = base.replace('Write brief', 'Write brief !high');
+  const { content, conflicts } = merge(local, remote);
+  assert.ok(content.includes('## Done [auto-complete]'));
+  assert.ok(content.includes('Write brief !high'));
+  assert.deepStrictEqual(conflicts, []);
+}
+
+// Test: a card both sides changed is reported when only this side changed the columns
+{
+  const local = base.replace('## Done', '## Shipped').replace('- [ ] Write brief', '- [ ] Write brief\n  Our notes');
+  const remote = base.replace('- [ ] Write brief', '- [ ] Write brief\n  Their notes');
+  const { content, conflicts } = merge(local, remote);
+  assert.ok(content.includes('## Shipped'));
+  assert.ok(content.includes('- [ ] Write brief\n  Their notes\n'));
+  assert.deepStrictEqual(conflicts, ['Write brief']);
+}
+
+// Test: when both sides change the columns, the file's columns win
+{
+  const local = base.replace('## Done', '## Shipped');
+  const remote = base.replace('## Done', '## Finished');
+  const { content, conflicts } = merge(local, remote);
+  assert.ok(content.includes('## Finished'));
+  assert.deepStrictEqual(conflicts, ['Columns']);
+}
+
+// Test: a card moved here follows its column when the file renames it
+{
+  const local = base.replace('- [ ] Book room\n', '').replace('- [x] Kickoff\n', '- [x] Kickoff\n- [ ] Book room\n');
+  const remote = base.replace('## Done', '## Shipped');
+  const { content, conflicts } = merge(local, remote);
+  assert.ok(content.includes('## Shipped\n\n- [x] Kickoff\n- [ ] Book room\n'));
+  assert.deepStrictEqual(conflicts, []);
+}
+
+// Test: keyed cards match by key even after both title and position change
+{
+  const keyed = '[keys:PM-3]\n\n## To Do\n\n- [ ] Login ^PM-1\n- [ ] Search ^PM-2\n';
+  const from = parseMarkdown(keyed);
+  const to = parseMarkdown('[keys:PM-3]\n\n## To Do\n\n- [ ] Full-text search ^PM-2\n- [ ] Login ^PM-1\n');
+  const matches = matchCards(from, to);
+  assert.strictEqual(matches.get(from.columns[0].cards[1])?.text, 'Full-text search ^PM-2');
+
+  // Both sides handed out the same key; the card added here gets a new one
+  const local = keyed.replace('PM-3]', 'PM-4]') + '- [ ] Export ^PM-3\n';
+  const remote = keyed.replace('PM-3]', 'PM-4]') + '- [ ] Import ^PM-3\n';
+  const { content } = merge(local, remote, keyed);
+  assert.ok(content.includes('- [ ] Import ^PM-3\n'));
+  assert.ok(content.includes('- [ ] Export ^PM-4\n'));
+  assert.ok(content.startsWith('[keys:PM-5]'));
+}
+
+// Test: ids are carried over so the open modal and focus still find their cards
+{
+  const previous = parseMarkdown(base);
+  const next = keepIds(parseMarkdown(base.replace('Review copy', 'Review copy @ada')), previous);
+  assert.deepStrictEqual(
+    next.columns.flatMap((c) => c.cards.map((card) => card.id)),
+    previous.columns.flatMap((c) => c.cards.map((card) => card.id))
+  );
+  assert.deepStrictEqual(next.columns.map((c) => c.id), previous.columns.map((c) => c.id));
+}
+
+console.log('All kanban merge tests passed');
@@ -0,0 +1,431 @@
+import {
+  parseMarkdown,
+  serializeBoard,
+  updateCard,
+  moveCard,
+  toggleCard,
+  addCard,
+  wouldExceedWipLimit,
+  findLaneDropColumn,
+  getCardTitle,
+  applyCardMetadata,
+  updateBoardSettings,
+  addColumn,
+  renameColumn,
+  moveColumn,
+  deleteColumn,
+  assignCardKey,
+  findCardByKey,
+  parseSubtasks,
+  toggleSubtask,
+  insertCard,
+  deleteCard,
+} from '../../webview/kanban/parser';
+import assert from 'assert';
+
+// Test: card metadata tokens are parsed into typed fields
+const b1 = parseMarkdown('## To Do\n\n- [ ] Fix login @alice #backend due:2026-11-01 !high\n');
+const c1 = b1.columns[0].cards[0];
+assert.deepStrictEqual(c1.metadata.assignees, ['alice'], 'should parse assignees');
+assert.deepStrictEqual(c1.metadata.tags, ['backend'], 'should parse tags');
+assert.strictEqual(c1.metadata.due, '2026-11-01', 'should parse due date');
+assert.strictEqual(c1.metadata.priority, 'high', 'should parse priority');
+assert.strictEqual(getCardTitle(c1.text), 'Fix login', 'title should exclude tokens');
+
+// Test: metadata round-trips exactly
+const md2 = '## To Do\n\n- [ ] Ship @bob the #api fix !low\n- [x] Done due:2026-01-02\n';
+assert.strictEqual(serializeBoard(parseMarkdown(md2)), md2, 'metadata should round-trip');
+
+// Test: non-token words are left alone
+const b3 = parseMarkdown('## To Do\n\n- [ ] Email a@b.com about C# and #42\n');
+assert.deepStrictEqual(b3.columns[0].cards[0].metadata, { assignees: [], tags: [] }, 'should ignore non-tokens');
+
+// Test: applyCardMetadata keeps token positions and appends new tokens
+assert.strictEqual(
+  applyCardMetadata('Fix @alice login !high', { assignees: ['alice'], tags: ['ui'], priority: 'low' }),
+  'Fix @alice login !low #ui',
+  'should replace in place and append'
+);
+assert.strictEqual(
+  applyCardMetadata('Fix @alice login', { assignees: [], tags: [] }),
+  'Fix login',
+  'should drop removed tokens'
+);
+
+// Test: start dates parse, stay out of the title and are written before the due date
+const start = parseMarkdown('## To Do\n\n- [ ] Launch start:2026-11-02 @alice\n').columns[0].cards[0];
+assert.strictEqual(start.metadata.start, '2026-11-02', 'should parse start date');
+assert.strictEqual(getCardTitle(start.text), 'Launch', 'title should exclude start token');
+assert.strictEqual(
+  applyCardMetadata(start.text, { ...start.metadata, start: '2026-11-03', due: '2026-11-09' }),
+  'Launch start:2026-11-03 @alice due:2026-11-09',
+  'should move start in place and append due'
+);
+assert.strictEqual(
+  applyCardMetadata('Plan @bob', { assignees: ['bob'], tags: [], start: '2026-11-01', due: '2026-11-05' }),
+  'Plan @bob start:2026-11-01 due:2026-11-05',
+  'should append start before due'
+);
+assert.strictEqual(
+  applyCardMetadata(start.text, { ...start.metadata, start: undefined }),
+  'Launch @alice',
+  'should drop removed start'
+);
+
+// Test: updateCard with metadata rewrites the card line
+const b4 = parseMarkdown('## To Do\n\n- [ ] Task #a\n');
+const id4 = b4.columns[0].cards[0].id;
+updateCard(b4, id4, { metadata: { assignees: ['carol'], tags: ['a'], due: '2026-12-24' } });
+assert.strictEqual(b4.columns[0].cards[0].text, 'Task #a @carol due:2026-12-24', 'should write tokens');
+assert.deepStrictEqual(b4.columns[0].cards[0].metadata.assignees, ['carol'], 'should refresh metadata');
+
+// Test: WIP limits parse from column titles and round-trip
+const md5 = '[enforce-wip]\n\n## Doing [auto-complete] [wip:2]\n\n- [ ] A\n- [ ] B\n\n## Todo\n\n- [ ] C\n';
+const b5 = parseMarkdown(md5);
+assert.strictEqual(b5.columns[0].title, 'Doing', 'title should exclude wip token');
+assert.strictEqual(b5.columns[0].settings?.wipLimit, 2, 'should parse wip limit');
+assert.strictEqual(b5.settings?.enforceWip, true, 'should parse enforce-wip');
+assert.strictEqual(serializeBoard(b5), md5, 'wip settings should round-trip');
+
+// Test: enforced WIP limits block moves into full columns
+const cardC = b5.columns[1].cards[0].id;
+assert(wouldExceedWipLimit(b5, cardC, b5.columns[0].id), 'should detect full column');
+assert(!wouldExceedWipLimit(b5, b5.columns[0].cards[0].id, b5.columns[0].id), 'reorder should be allowed');
+moveCard(b5, cardC, b5.columns[0].id, 0);
+assert.strictEqual(b5.columns[0].cards.length, 2, 'enforced move should be blocked');
+
+// Test: unenforced WIP limits allow going over
+b5.settings = {};
+moveCard(b5, cardC, b5.columns[0].id, 0);
+assert.strictEqual(b5.columns[0].cards.length, 3, 'unenforced move should go through');
+
+// Test: a lone # title stays in the preamble
+const b6 = parseMarkdown('# Sprint Board\n\n## Todo\n\n- [ ] A\n');
+assert.strictEqual(b6.preamble, '# Sprint Board', 'title should stay in preamble');
+assert.strictEqual(b6.lanes, undefined, 'should have no lanes');
+
+// Test: # headings after columns turn on swimlanes and round-trip
+const md7 = '# Board\n\n# Web\n\n## Todo\n\n- [ ] A\n\n## Done\n\n# Mobile\n\n## Todo\n\n- [ ] B\n';
+const b7 = parseMarkdown(md7);
+assert.strictEqual(b7.preamble, '# Board', 'board title should stay in preamble');
+assert.deepStrictEqual(b7.lanes?.map((l) => l.title), ['Web', 'Mobile'], 'should parse lanes');
+assert.strictEqual(b7.columns.length, 3, 'should keep all columns flat');
+assert.strictEqual(b7.columns[2].laneId, b7.lanes![1].id, 'columns should reference their lane');
+assert.strictEqual(serializeBoard(b7), md7, 'lanes should round-trip');
+
+// Test: # headings without columns below them don't turn on swimlanes
+const md7b = '# My Board\n\n## To Do\n\n- [ ] A\n\n## Done\n\n# Notes\n\nSee the wiki.\n';
+const b7b = parseMarkdown(md7b);
+assert.strictEqual(b7b.lanes, undefined, 'should not parse lanes');
+assert.strictEqual(b7b.preamble, '# My Board', 'board title should stay in preamble');
+assert.deepStrictEqual(b7b.columns.map((c) => c.title), ['To Do', 'Done']);
+assert.strictEqual(serializeBoard(b7b), md7b, 'trailing headings should round-trip');
+
+// Test: moving a card across lanes uses the matching column
+const cardA = b7.columns[0].cards[0].id;
+const dropColumn = findLaneDropColumn(b7, cardA, b7.lanes![1].id);
+assert.strictEqual(dropColumn?.id, b7.columns[2].id, 'should pick same-titled column in lane');
+moveCard(b7, cardA, dropColumn!.id, 0);
+assert(serializeBoard(b7).endsWith('# Mobile\n\n## Todo\n\n- [ ] A\n- [ ] B\n'), 'card should move lanes');
+
+// Test: unrecognized content, blank lines and indentation round-trip byte-for-byte
+const md8 = [
+  'Board intro',
+  '',
+  '## Backlog',
+  'Column notes describing this column',
+  '',
+  '- [ ] First',
+  '  Description line',
+  '',
+  '  Second paragraph',
+  '    - nested item',
+  '      - deeper item',
+  '',
+  'A stray paragraph',
+  '',
+  '```',
+  '## not a column',
+  '- [ ] not a card',
+  '```',
+  '- [x] Second',
+  '',
+  '',
+  '## Done',
+  '- [x] Shipped',
+  '',
+].join('\n');
+const b8 = parseMarkdown(md8);
+assert.strictEqual(serializeBoard(b8), md8, 'arbitrary content should round-trip');
+assert.strictEqual(b8.columns.length, 2, 'fenced headings should not start columns');
+assert.strictEqual(b8.columns[0].cards.length, 2, 'fenced tasks should not become cards');
+assert.strictEqual(
+  b8.columns[0].cards[0].description,
+  'Description line\n\nSecond paragraph\n  - nested item\n    - deeper item',
+  'description should keep blank lines and relative indentation'
+);
+assert.strictEqual(b8.columns[0].notes?.[0], 'Column notes describing this column', 'should keep column notes');
+
+// Test: edits only touch the affected lines
+toggleCard(b8, b8.columns[1].cards[0].id);
+addCard(b8, b8.columns[1].id, 'Next');
+assert.strictEqual(
+  serializeBoard(b8),
+  md8.replace('- [x] Shipped\n', '- [ ] Shipped\n- [ ] Next\n'),
+  'edits should leave other content untouched'
+);
+
+// Test: CRLF files keep their line endings
+const md9 = '## A\r\n\r\n- [ ] x\r\n  desc\r\n';
+assert.strictEqual(serializeBoard(parseMarkdown(md9)), md9, 'CRLF should round-trip');
+
+// Test: saved views are parsed from the preamble and round-trip
+const md10 = '[view:Mine=@alice is:open]\n[view:Bugs=#bug]\n\n## To Do\n\n- [ ] x\n';
+const b10 = parseMarkdown(md10);
+assert.deepStrictEqual(
+  b10.settings?.views,
+  [
+    { name: 'Mine', query: '@alice is:open' },
+    { name: 'Bugs', query: '#bug' },
+  ],
+  'should parse saved views'
+);
+assert.strictEqual(serializeBoard(b10), md10, 'saved views should round-trip');
+updateBoardSettings(b10, { views: [{ name: 'Mine', query: '@alice is:open' }] });
+assert.strictEqual(
+  serializeBoard(b10),
+  '[view:Mine=@alice is:open]\n\n## To Do\n\n- [ ] x\n',
+  'removing a view should rewrite the preamble'
+);
+
+// Test: a view query can't end its [view:] line early or spill onto the next line
+updateBoardSettings(b10, { views: [{ name: 'Odd', query: 'a]b\n## Injected\n[enforce-wip' }] });
+const md10b = serializeBoard(b10);
+assert.strictEqual(md10b, '[view:Odd=ab ## Injected enforce-wip]\n\n## To Do\n\n- [ ] x\n');
+const b10b = parseMarkdown(md10b);
+assert.deepStrictEqual(b10b.settings?.views, [{ name: 'Odd', query: 'ab ## Injected enforce-wip' }]);
+assert.strictEqual(b10b.settings?.enforceWip, undefined);
+assert.deepStrictEqual(
+  b10b.columns.map((c) => c.title),
+  ['To Do']
+);
+
+// Test: renaming keeps column settings
+const b11 = parseMarkdown('## Doing [wip:2]\n\n- [ ] a\n\n## Done\n\n- [x] b\n');
+renameColumn(b11, b11.columns[0].id, 'In Progress');
+assert.strictEqual(
+  serializeBoard(b11),
+  '## In Progress [wip:2]\n\n- [ ] a\n\n## Done\n\n- [x] b\n',
+  'rename should keep settings'
+);
+
+// Test: columns reorder with their cards
+moveColumn(b11, b11.columns[1].id, b11.columns[0].id, 'before');
+assert.strictEqual(
+  serializeBoard(b11),
+  '## Done\n\n- [x] b\n\n## In Progress [wip:2]\n\n- [ ] a\n',
+  'moved column should carry its cards'
+);
+
+// Test: inserted columns are separated like the rest
+addColumn(b11, 'Review', 1);
+assert.strictEqual(
+  serializeBoard(b11),
+  '## Done\n\n- [x] b\n\n## Review\n\n## In Progress [wip:2]\n\n- [ ] a\n',
+  'inserted column should be separated by blank lines'
+);
+
+// Test: deleting a column can move its cards elsewhere
+const b12 = parseMarkdown('## A\n\n- [ ] one\n\n## B\n\n- [ ] two\n\n## Done [auto-complete]\n');
+deleteColumn(b12, b12.columns[0].id, b12.columns[2].id);
+assert.strictEqual(
+  serializeBoard(b12),
+  '## B\n\n- [ ] two\n\n## Done [auto-complete]\n\n- [x] one\n',
+  'cards should move to the chosen column'
+);
+deleteColumn(b12, b12.columns[0].id);
+assert.strictEqual(serializeBoard(b12), '## Done [auto-complete]\n\n- [x] one\n', 'cards should be dropped');
+const b12b = parseMarkdown('## A\n\n- [ ] one\n\n## B\n\n- [ ] two\n\nNotes\n');
+deleteColumn(b12b, b12b.columns[0].id, b12b.columns[1].id);
+assert.strictEqual(
+  serializeBoard(b12b),
+  '## B\n\n- [ ] two\n\nNotes\n\n- [ ] one\n',
+  'moved cards should be set apart from the content above them'
+);
+
+// Test: moving a column next to one in another lane joins that lane
+const b13 = parseMarkdown('# Board\n\n## A\n\n# Web\n\n## B\n\n# Mobile\n\n## C\n');
+moveColumn(b13, b13.columns[2].id, b13.columns[1].id, 'after');
+assert.strictEqual(b13.columns[2].laneId, b13.columns[1].laneId, 'moved column should join the lane');
+
+// Test: card keys are parsed from the card line and round-trip
+const md14 = '[keys:PM-3]\n\n## To Do\n\n- [ ] Fix login #bug ^PM-1\n- [ ] Write docs\n';
+const b14 = parseMarkdown(md14);
+assert.strictEqual(b14.columns[0].cards[0].metadata.key, 'PM-1', 'should parse card key');
+assert.strictEqual(getCardTitle(b14.columns[0].cards[0].text), 'Fix login', 'title should exclude key');
+assert.deepStrictEqual(b14.settings?.keys, { prefix: 'PM', next: 3 }, 'should parse key settings');
+assert.strictEqual(serializeBoard(b14), md14, 'keys should round-trip');
+assert.strictEqual(findCardByKey(b14, 'pm-1')?.id, b14.columns[0].cards[0].id, 'should find card by key');
+
+// Test: new cards get the next key and the counter advances
+addCard(b14, b14.columns[0].id, 'Ship it');
+assignCardKey(b14, b14.columns[0].cards[1].id);
+assert.strictEqual(
+  serializeBoard(b14),
+  '[keys:PM-5]\n\n## To Do\n\n- [ ] Fix login #bug ^PM-1\n- [ ] Write docs ^PM-4\n- [ ] Ship it ^PM-3\n',
+  'should assign keys and advance the counter'
+);
+
+// Test: metadata edits keep the key
+updateCard(b14, b14.columns[0].cards[0].id, { metadata: { assignees: ['alice'], tags: [], key: 'PM-1' } });
+assert.strictEqual(b14.columns[0].cards[0].text, 'Fix login ^PM-1 @alice', 'key should survive metadata edits');
+
+// Test: the counter never reuses a key already on the board
+const b15 = parseMarkdown('[keys:PM]\n\n## To Do\n\n- [ ] a ^PM-7\n');
+assert.strictEqual(b15.settings?.keys?.next, 8, 'counter should skip existing keys');
+
+// Test: checklist items are parsed from the description
+const md16 = [
+  '## To Do',
+  '',
+  '- [ ] Launch',
+  '  Notes first',
+  '  - [x] Write copy',
+  '  - [ ] Design banner',
+  '  ```',
+  '  - [ ] not a subtask',
+  '  ```',
+  '\t- [ ] Tab-indented item',
+  '',
+].join('\n');
+const b16 = parseMarkdown(md16);
+const card16 = b16.columns[0].cards[0];
+assert.deepStrictEqual(
+  parseSubtasks(card16.description).map((t) => [t.text, t.completed]),
+  [
+    ['Write copy', true],
+    ['Design banner', false],
+    ['Tab-indented item', false],
+  ],
+  'should parse subtasks outside code fences'
+);
+
+// Test: toggling a subtask rewrites only its line
+toggleSubtask(b16, card16.id, 1);
+toggleSubtask(b16, card16.id, 2);
+assert.strictEqual(
+  serializeBoard(b16),
+  md16.replace('- [ ] Design banner', '- [x] Design banner').replace('\t- [ ] Tab', '\t- [x] Tab'),
+  'toggle should only touch the subtask line'
+);
+
+// Test: moving a card to another board carries its content and keeps its key
+const from17 = parseMarkdown(
+  ['[keys:PM-8]', '', '## To Do', '', '- [ ] Ship it @alice ^PM-7', '  Notes here', '- [ ] Plain card', ''].join('\n')
+);
+const to17 = parseMarkdown(['[keys:WEB-1]', '', '## Backlog', '', '## Done [auto-complete]', ''].join('\n'));
+const [keyed17, plain17] = from17.columns[0].cards;
+deleteCard(from17, keyed17.id);
+insertCard(to17, to17.columns[0].id, keyed17);
+deleteCard(from17, plain17.id);
+insertCard(to17, to17.columns[1].id, plain17);
+assert.strictEqual(
+  serializeBoard(from17),
+  ['[keys:PM-8]', '', '## To Do', ''].join('\n'),
+  'source should lose both cards'
+);
+const moved17 = to17.columns[0].cards[0];
+assert.strictEqual(moved17.text, 'Ship it @alice ^PM-7', 'existing key should be kept');
+assert.strictEqual(moved17.description, 'Notes here', 'description should carry over');
+assert.deepStrictEqual(moved17.metadata.assignees, ['alice']);
+assert.notStrictEqual(moved17.id, keyed17.id, 'inserted card gets a fresh id');
+assert.strictEqual(to17.columns[1].cards[0].text, 'Plain card ^WEB-1', 'unkeyed card gets a target key');
+assert.strictEqual(to17.columns[1].cards[0].completed, true, 'target auto-complete applies');
+
+// Test: deleting a card leaves the content written after it in place
+const md19 = ['## A', '', '- [ ] one', '', '```', 'code', '```', '', 'Intro', '', '- [ ] two', '- [ ] three', '', 'Outro', ''].join('\n');
+const b19 = parseMarkdown(md19);
+deleteCard(b19, b19.columns[0].cards[0].id);
+assert.strictEqual(
+  serializeBoard(b19),
+  ['## A', '', '```', 'code', '```', '', 'Intro', '', '- [ ] two', '- [ ] three', '', 'Outro', ''].join('\n'),
+  'first card content should move to the column notes'
+);
+deleteCard(b19, b19.columns[0].cards[1].id);
+assert.strictEqual(
+  serializeBoard(b19),
+  ['## A', '', '```', 'code', '```', '', 'Intro', '', '- [ ] two', '', 'Outro', ''].join('\n'),
+  'later card content should move to the previous card'
+);
+
+// Test: moved and inserted cards get canonical spacing
+const md20 = ['## A', '', '- [ ] one', '', 'Intro', '', '- [ ] two', '', '## B', '', '- [ ] three', '', 'Notes', ''].join('\n');
+const b20 = parseMarkdown(md20);
+moveCard(b20, b20.columns[0].cards[0].id, b20.columns[1].id, 1);
+assert.strictEqual(
+  serializeBoard(b20),
+  ['## A', '', 'Intro', '', '- [ ] two', '', '## B', '', '- [ ] three', '', 'Notes', '', '- [ ] one', ''].join('\n'),
+  'moved card should leave its content behind and be set apart from the paragraph above'
+);
+const from20 = parseMarkdown(md20);
+insertCard(b20, b20.columns[0].id, from20.columns[0].cards[0], 0);
+assert.strictEqual(
+  serializeBoard(b20).split('\n').slice(0, 6).join('\n'),
+  ['## A', '', 'Intro', '', '- [ ] one', '- [ ] two'].join('\n'),
+  'inserted card should not bring the source card\'s content'
+);
+
+// Test: moving a column's last card leaves a single blank line before the next heading
+const md22 = ['## A', '', '- [ ] a1', '', 'Para', '', '- [ ] a2', '', '## B', '', '- [ ] b1', '', '## C', ''].join('\n');
+const b22 = parseMarkdown(md22);
+moveCard(b22, b22.columns[0].cards[1].id, b22.columns[2].id, 0);
+moveCard(b22, b22.columns[1].cards[0].id, b22.columns[2].id, 1);
+assert.strictEqual(
+  serializeBoard(b22),
+  ['## A', '', '- [ ] a1', '', 'Para', '', '## B', '', '## C', '', '- [ ] a2', '- [ ] b1', ''].join('\n'),
+  'gaps above moved cards should merge with the column tails'
+);
+
+// Test: an unclosed fence in a description ends with the description
+const md21 = ['## To Do', '', '- [ ] A', '  ```', '  half-typed code', '- [ ] B', '', '## Done', '', '- [x] C', ''].join('\n');
+const b21 = parseMarkdown(md21);
+assert.deepStrictEqual(
+  b21.columns.map((c) => [c.title, c.cards.map((card) => card.text)]),
+  [['To Do', ['A', 'B']], ['Done', ['C']]],
+  'later cards and columns should not be swallowed'
+);
+assert.strictEqual(b21.columns[0].cards[0].description, '```\nhalf-typed code');
+assert.strictEqual(serializeBoard(b21), md21);
+
+// Test: rich descriptions from the card editor survive a save and reload
+const b18 = parseMarkdown(['## To Do', '', '- [ ] Card', '- [ ] Next', ''].join('\n'));
+const desc18 = [
+  '| Step | Owner |',
+  '| --- | --- |',
+  '| Draft | [spec](docs/spec.md) |',
+  '',
+  '```mermaid',
+  'graph TD',
+  '',
+  '    A[Start] --> B[End]',
+  '```',
+  '',
+  '- [ ] Outer',
+  '  - [x] Inner',
+  '',
+  '```',
+  '## To Do',
+  '- [ ] not a card',
+  '```',
+].join('\n');
+updateCard(b18, b18.columns[0].cards[0].id, { description: desc18 });
+const reloaded18 = parseMarkdown(serializeBoard(b18));
+assert.strictEqual(reloaded18.columns.length, 1, 'fenced headings should not become columns');
+assert.deepStrictEqual(
+  reloaded18.columns[0].cards.map((c) => c.text),
+  ['Card', 'Next'],
+  'description lines should not become cards'
+);
+assert.strictEqual(reloaded18.columns[0].cards[0].description, desc18, 'description should round-trip');
+
+console.log('All kanbanParser tests passed');
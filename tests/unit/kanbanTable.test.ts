@@ -0,0 +1,140 @@
+import { getTableRows, sortTableRows, groupTableRows } from '../../webview/kanban/table';
+import { parseMarkdown } from '../../webview/kanban/parser';
+import assert from 'assert';
+
+const board = parseMarkdown(
+  [
+    '## To Do',
+    '',
+    '- [ ] Write spec @bob #docs due:2026-11-10 !low ^PM-10',
+    '- [ ] Fix login @alice @bob #bug due:2026-11-01 !high ^PM-9',
+    '- [ ] Triage inbox',
+    '',
+    '## Done',
+    '',
+    '- [x] Ship beta #bug !medium ^PM-2',
+    '',
+  ].join('\n')
+);
+
+const titles = (rows: ReturnType<typeof getTableRows>) =>
+  rows.map((row) => row.card.text.split(/ [@#^!d]/)[0]);
+
+// Test: rows follow board order with their column as status
+const rows = getTableRows(board);
+assert.deepStrictEqual(titles(rows), ['Write spec', 'Fix login', 'Triage inbox', 'Ship beta']);
+assert.deepStrictEqual(
+  rows.map((row) => [row.status, row.order]),
+  [
+    ['To Do', 0],
+    ['To Do', 1],
+    ['To Do', 2],
+    ['Done', 3],
+  ]
+);
+
+// Test: no sort keeps board order
+assert.deepStrictEqual(titles(sortTableRows([...rows].reverse())), titles(rows));
+
+// Test: sorting by title, ascending and descending
+assert.deepStrictEqual(titles(sortTableRows(rows, { key: 'title' })), [
+  'Fix login',
+  'Ship beta',
+  'Triage inbox',
+  'Write spec',
+]);
+assert.deepStrictEqual(titles(sortTableRows(rows, { key: 'title', descending: true })), [
+  'Write spec',
+  'Triage inbox',
+  'Ship beta',
+  'Fix login',
+]);
+
+// Test: empty values sort last in both directions
+assert.deepStrictEqual(titles(sortTableRows(rows, { key: 'due' })), [
+  'Fix login',
+  'Write spec',
+  'Triage inbox',
+  'Ship beta',
+]);
+assert.deepStrictEqual(titles(sortTableRows(rows, { key: 'due', descending: true })), [
+  'Write spec',
+  'Fix login',
+  'Triage inbox',
+  'Ship beta',
+]);
+
+// Test: priority sorts high to low, keys sort numerically
+assert.deepStrictEqual(titles(sortTableRows(rows, { key: 'priority' })), [
+  'Fix login',
+  'Ship beta',
+  'Write spec',
+  'Triage inbox',
+]);
+assert.deepStrictEqual(titles(sortTableRows(rows, { key: 'key' })), [
+  'Ship beta',
+  'Fix login',
+  'Write spec',
+  'Triage inbox',
+]);
+
+// Test: ties keep board order
+assert.deepStrictEqual(titles(sortTableRows(rows, { key: 'done' })), [
+  'Write spec',
+  'Fix login',
+  'Triage inbox',
+  'Ship beta',
+]);
+
+// Test: no grouping is a single unlabeled group
+assert.deepStrictEqual(
+  groupTableRows(rows).map((g) => [g.label, g.rows.length]),
+  [['', 4]]
+);
+
+// Test: grouping by status follows the board's columns
+assert.deepStrictEqual(
+  groupTableRows(sortTableRows(rows, { key: 'title' }), 'status').map((g) => [g.label, titles(g.rows)]),
+  [
+    ['To Do', ['Fix login', 'Triage inbox', 'Write spec']],
+    ['Done', ['Ship beta']],
+  ]
+);
+
+// Test: cards appear under each assignee, unassigned last
+assert.deepStrictEqual(
+  groupTableRows(rows, 'assignee').map((g) => [g.label, titles(g.rows)]),
+  [
+    ['@alice', ['Fix login']],
+    ['@bob', ['Write spec', 'Fix login']],
+    ['Unassigned', ['Triage inbox', 'Ship beta']],
+  ]
+);
+
+// Test: priority groups go high to low, then cards without one
+assert.deepStrictEqual(
+  groupTableRows(rows, 'priority').map((g) => g.label),
+  ['!high', '!medium', '!low', 'No priority']
+);
+
+// Test: open cards come before done cards
+assert.deepStrictEqual(
+  groupTableRows(sortTableRows(rows, { key: 'done', descending: true }), 'done').map((g) => g.label),
+  ['Open', 'Done']
+);
+
+// Test: lanes prefix the status and group in board order
+const laned = parseMarkdown(
+  ['## Inbox', '- [ ] Loose', '# Web', '## To Do', '- [ ] Page', '# Mobile', '## To Do', '- [ ] App'].join('\n')
+);
+const lanedRows = getTableRows(laned);
+assert.deepStrictEqual(
+  lanedRows.map((row) => row.status),
+  ['Inbox', 'Web › To Do', 'Mobile › To Do']
+);
+assert.deepStrictEqual(
+  groupTableRows(lanedRows, 'lane').map((g) => g.label),
+  ['No lane', 'Web', 'Mobile']
+);
+
+console.log('All kanban table tests passed');
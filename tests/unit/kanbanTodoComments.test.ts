@@ -0,0 +1,133 @@
+import { scanTodoComments, syncTodoCards, getTodoCardKey, type FileTodos } from '../../src/kanban/todoComments';
+import { parseMarkdown, serializeBoard } from '../../webview/kanban/parser';
+import assert from 'assert';
+
+const source = [
+  'import { load } from "./load";',
+  '',
+  '// TODO: handle network errors',
+  'export function start() {',
+  '  /* FIXME(ada): retry twice */',
+  '  const label = "TODO in a string";',
+  '  return load(); // HACK skip the cache',
+  '}',
+  '# TODO',
+  ' * TODO document the options',
+].join('\n');
+
+function file(content: string, linkPath = '../src/start.ts'): FileTodos {
+  return { linkPath, label: 'src/start.ts', comments: scanTodoComments(content) };
+}
+
+function sync(board: string, files: FileTodos[], archiveColumn?: string, partial?: boolean) {
+  const parsed = parseMarkdown(board);
+  const result = syncTodoCards(parsed, files, { inboxColumn: 'Inbox', archiveColumn, partial });
+  return { content: serializeBoard(parsed), result, board: parsed };
+}
+
+// Test: comments are found after comment markers only, with their line
+{
+  assert.deepStrictEqual(
+    scanTodoComments(source).map((c) => [c.tag, c.text, c.line]),
+    [
+      ['TODO', 'handle network errors', 3],
+      ['FIXME', 'retry twice', 5],
+      ['HACK', 'skip the cache', 7],
+      ['TODO', '', 9],
+      ['TODO', 'document the options', 10],
+    ]
+  );
+  assert.deepStrictEqual(scanTodoComments('<!-- TODO: add screenshots -->').map((c) => c.text), ['add screenshots']);
+  assert.deepStrictEqual(scanTodoComments('const TODOS = [];\nlet hackish = 1;'), []);
+}
+
+// Test: new comments become cards in an inbox column, created when missing
+{
+  const { content, result, board } = sync('## Doing\n\n- [ ] Ship it\n', [file(source)]);
+  assert.deepStrictEqual(result, { added: 5, updated: 0, resolved: 0 });
+  assert.deepStrictEqual(board.columns.map((c) => c.title), ['Inbox', 'Doing']);
+  assert.deepStrictEqual(board.columns[0].cards.map((c) => c.text), [
+    'handle network errors #todo',
+    'retry twice #fixme',
+    'skip the cache #hack',
+    'TODO #todo',
+    'document the options #todo',
+  ]);
+  assert.strictEqual(
+    board.columns[0].cards[0].description,
+    '[src/start.ts#L3](../src/start.ts#L3)\n\n> TODO: handle network errors'
+  );
+  // Synced cards are recognised again after a save and reload
+  assert.strictEqual(
+    getTodoCardKey(parseMarkdown(content).columns[0].cards[1]),
+    '../src/start.ts\nFIXME: retry twice'
+  );
+}
+
+// Test: syncing again changes nothing; moved comments only update their links
+{
+  const first = sync('## Inbox\n', [file(source)]).content;
+  const again = sync(first, [file(source)]);
+  assert.deepStrictEqual(again.result, { added: 0, updated: 0, resolved: 0 });
+  assert.strictEqual(again.content, first);
+
+  const edited = first.replace('handle network errors #todo', 'Handle network errors @ada');
+  const moved = sync(edited, [file('\n\n' + source)]);
+  assert.deepStrictEqual(moved.result, { added: 0, updated: 5, resolved: 0 });
+  assert.ok(moved.content.includes('- [ ] Handle network errors @ada\n  [src/start.ts#L5](../src/start.ts#L5)'));
+}
+
+// Test: removed comments are marked done, or moved to the archive column
+{
+  const first = sync('## Inbox\n', [file(source)]).content;
+  const trimmed = source.replace('// TODO: handle network errors', '');
+
+  const done = sync(first, [file(trimmed)]);
+  assert.deepStrictEqual(done.result, { added: 0, updated: 0, resolved: 1 });
+  assert.ok(done.content.includes('- [x] handle network errors #todo'));
+
+  // Without an archive column, the comment coming back reopens the card in place
+  const undone = sync(done.content, [file(source)]);
+  assert.deepStrictEqual(undone.result, { added: 0, updated: 1, resolved: 0 });
+  assert.strictEqual(undone.content, first);
+
+  const archived = sync(first, [file(trimmed)], 'Archive');
+  assert.deepStrictEqual(archived.board.columns.map((c) => c.title), ['Inbox', 'Archive']);
+  assert.deepStrictEqual(archived.board.columns[1].cards.map((c) => [c.text, c.completed]), [
+    ['handle network errors #todo', true],
+  ]);
+
+  // The comment coming back reopens its card
+  const reopened = sync(archived.content, [file(source)], 'Archive');
+  assert.deepStrictEqual(reopened.result, { added: 0, updated: 1, resolved: 0 });
+  assert.strictEqual(reopened.board.columns[1].cards.length, 0);
+  assert.strictEqual(reopened.board.columns[0].cards.find((c) => c.text.startsWith('handle'))?.completed, false);
+}
+
+// Test: cards for paths with parentheses and brackets match their comments again
+{
+  const routed: FileTodos = {
+    linkPath: '../app/(auth)/[id]/page.tsx',
+    label: 'app/(auth)/[id]/page.tsx',
+    comments: scanTodoComments('// TODO: guard'),
+  };
+  const first = sync('## Inbox\n', [routed]);
+  assert.deepStrictEqual(first.result, { added: 1, updated: 0, resolved: 0 });
+  const again = sync(first.content, [routed]);
+  assert.deepStrictEqual(again.result, { added: 0, updated: 0, resolved: 0 });
+  assert.strictEqual(again.content, first.content);
+
+  // Written before parentheses were encoded
+  const unencoded = first.content.replace('%28auth%29', '(auth)');
+  assert.deepStrictEqual(sync(unencoded, [routed]).result, { added: 0, updated: 1, resolved: 0 });
+}
+
+// Test: a partial sync leaves cards of files it didn't scan alone
+{
+  const first = sync('## Inbox\n', [file(source), file('// TODO: other', '../src/other.ts')]).content;
+  const { result } = sync(first, [file(source)], undefined, true);
+  assert.deepStrictEqual(result, { added: 0, updated: 0, resolved: 0 });
+  assert.deepStrictEqual(sync(first, [file(source)]).result.resolved, 1);
+}
+
+console.log('All kanban TODO comments tests passed');
@@ -0,0 +1,77 @@
+import { relocateCard, toCardDescription, getCardDocumentName, type TrackedCard } from '../../src/kanban/trackedCard';
+import { parseMarkdown, serializeBoard, updateCard, deleteCard } from '../../webview/kanban/parser';
+import assert from 'assert';
+
+const md = ['## To Do', '', '- [ ] Write spec #docs', '  Draft notes', '- [ ] Review', '', '## Done', ''].join('\n');
+
+function track(board: ReturnType<typeof parseMarkdown>, columnIndex: number, cardIndex: number): TrackedCard {
+  const card = board.columns[columnIndex].cards[cardIndex];
+  return { locator: { columnIndex, cardIndex, text: card.text }, description: card.description };
+}
+
+// Test: a card is found where it was
+{
+  const board = parseMarkdown(md);
+  const tracked = track(board, 0, 0);
+  assert.strictEqual(relocateCard(board, tracked)?.text, 'Write spec #docs');
+}
+
+// Test: a moved card is followed by its text
+{
+  const tracked = track(parseMarkdown(md), 0, 0);
+  const board = parseMarkdown(['## To Do', '', '- [ ] Review', '', '## Done', '', '- [x] Write spec #docs', '  Draft notes', ''].join('\n'));
+  assert.strictEqual(relocateCard(board, tracked)?.text, 'Write spec #docs');
+  assert.deepStrictEqual(tracked.locator, { columnIndex: 1, cardIndex: 0, text: 'Write spec #docs' });
+}
+
+// Test: a renamed card is found at its position by its description
+{
+  const tracked = track(parseMarkdown(md), 0, 0);
+  const board = parseMarkdown(md.replace('Write spec', 'Write the spec'));
+  assert.strictEqual(relocateCard(board, tracked)?.text, 'Write the spec #docs');
+  assert.strictEqual(tracked.locator.text, 'Write the spec #docs', 'locator should follow the new text');
+}
+
+// Test: a keyed card is found by key even when renamed and moved
+{
+  const tracked = track(parseMarkdown(md.replace('#docs', '#docs ^PM-3')), 0, 0);
+  relocateCard(parseMarkdown(md.replace('#docs', '#docs ^PM-3')), tracked);
+  assert.strictEqual(tracked.key, 'PM-3');
+  const board = parseMarkdown(['## To Do', '', '- [ ] Review', '', '## Done', '', '- [x] Spec done ^PM-3', '  Other notes', ''].join('\n'));
+  assert.strictEqual(relocateCard(board, tracked)?.text, 'Spec done ^PM-3');
+}
+
+// Test: a deleted card is not found, and its neighbour isn't mistaken for it
+{
+  const board = parseMarkdown(md);
+  const tracked = track(board, 0, 0);
+  deleteCard(board, board.columns[0].cards[0].id);
+  assert.strictEqual(relocateCard(board, tracked), undefined);
+
+  const empty = parseMarkdown(['## To Do', '', '- [ ] First', '- [ ] Second', ''].join('\n'));
+  const trackedEmpty = track(empty, 0, 0);
+  deleteCard(empty, empty.columns[0].cards[0].id);
+  assert.strictEqual(relocateCard(empty, trackedEmpty), undefined, 'empty descriptions should not match by position');
+}
+
+// Test: tab content is written back as indented description lines
+{
+  const board = parseMarkdown(md);
+  const description = toCardDescription('\r\n# Notes\r\n\r\n- [ ] Step one\r\n\r\n```\r\n## To Do\r\n```\r\n\r\n');
+  assert.strictEqual(description, '# Notes\n\n- [ ] Step one\n\n```\n## To Do\n```');
+  updateCard(board, board.columns[0].cards[0].id, { description });
+  const content = serializeBoard(board);
+  assert.ok(content.includes('- [ ] Write spec #docs\n  # Notes\n\n  - [ ] Step one\n\n  ```\n  ## To Do\n  ```\n'));
+  const reloaded = parseMarkdown(content);
+  assert.strictEqual(reloaded.columns.length, 2, 'description headings should not become columns');
+  assert.strictEqual(reloaded.columns[0].cards[0].description, description);
+}
+
+// Test: tab names come from the card title
+{
+  assert.strictEqual(getCardDocumentName('Write spec #docs @alice due:2025-01-01'), 'Write spec.md');
+  assert.strictEqual(getCardDocumentName('Fix a/b: "quotes"'), 'Fix a b quotes.md');
+  assert.strictEqual(getCardDocumentName('#docs'), 'Untitled card.md');
+}
+
+console.log('All kanban tracked card tests passed');
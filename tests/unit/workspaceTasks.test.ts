@@ -0,0 +1,82 @@
+import {
+  scanMarkdownTasks,
+  scanKanbanTasks,
+  getDueGroup,
+  groupTasks,
+} from '../../src/tasks/workspaceTasks';
+import assert from 'assert';
+
+// Test: markdown tasks are found with their line, state and section
+const notes = [
+  '---',
+  'title: Standup',
+  '- [ ] not a task, front matter',
+  '---',
+  '# Standup',
+  '',
+  '- [ ] Send recap @alice due:2026-10-20',
+  '## Action items',
+  '* [x] Book room',
+  '  - [ ] Nested follow-up',
+  '```',
+  '- [ ] code, not a task',
+  '```',
+  '- regular bullet',
+].join('\n');
+const mdTasks = scanMarkdownTasks(notes);
+assert.deepStrictEqual(
+  mdTasks.map((t) => [t.line, t.title, t.completed, t.section, t.index]),
+  [
+    [6, 'Send recap', false, 'Standup', 0],
+    [8, 'Book room', true, 'Action items', 1],
+    [9, 'Nested follow-up', false, 'Action items', 2],
+  ],
+  'should find tasks outside front matter and code fences'
+);
+assert.deepStrictEqual(mdTasks[0].metadata.assignees, ['alice'], 'should parse task metadata');
+
+// Test: kanban cards map to their lines and board positions
+const board = ['## To Do', '', '- [ ] First', '  - [ ] subtask, not a card', '- [ ] First', '', '## Done', '', '- [x] Shipped ^PM-1', ''].join('\n');
+const cards = scanKanbanTasks(board);
+assert.deepStrictEqual(
+  cards.map((t) => [t.line, t.text, t.section, t.columnIndex, t.cardIndex]),
+  [
+    [2, 'First', 'To Do', 0, 0],
+    [4, 'First', 'To Do', 0, 1],
+    [8, 'Shipped ^PM-1', 'Done', 1, 0],
+  ],
+  'duplicate card text should still map to distinct lines'
+);
+
+// Test: due dates bucket relative to today
+assert.strictEqual(getDueGroup(undefined, '2026-10-19'), 'No due date');
+assert.strictEqual(getDueGroup('2026-10-18', '2026-10-19'), 'Overdue');
+assert.strictEqual(getDueGroup('2026-10-19', '2026-10-19'), 'Today');
+assert.strictEqual(getDueGroup('2026-10-26', '2026-10-19'), 'Next 7 days');
+assert.strictEqual(getDueGroup('2026-10-27', '2026-10-19'), 'Later');
+
+// Test: grouping by assignee and due date
+const items = [
+  ...mdTasks.map((task) => ({ task, file: 'notes.md' })),
+  ...cards.map((task) => ({ task, file: 'board.kanban' })),
+];
+assert.deepStrictEqual(
+  groupTasks(items, 'assignee', '2026-10-19').map((g) => [g.label, g.tasks.length]),
+  [
+    ['@alice', 1],
+    ['Unassigned', 5],
+  ],
+  'catch-all group should sort last'
+);
+assert.deepStrictEqual(
+  groupTasks(items, 'due', '2026-10-19').map((g) => g.label),
+  ['Next 7 days', 'No due date'],
+  'due groups should follow date order'
+);
+assert.deepStrictEqual(
+  groupTasks(items, 'file', '2026-10-19').map((g) => g.label),
+  ['notes.md', 'board.kanban'],
+  'file groups keep the given order'
+);
+
+console.log('All workspaceTasks tests passed');
@@ -27,10 +27,13 @@ import { KeyboardNavigation } from './extensions/KeyboardNavigation'
 import { SlashCommand, setTemplates } from './extensions/SlashCommand'
 import { ImageNode } from './extensions/ImageNode'
 import { MermaidNode } from './extensions/MermaidNode'
+import { KanbanNode } from './extensions/KanbanNode'
 import { TableControls } from './extensions/TableControls'
 import { MarkdownPaste } from './extensions/MarkdownPaste'
 import { FindReplace } from './extensions/FindReplace'
 import { AiDiff } from './extensions/AiDiff'
+import { CardKeyLinks } from './extensions/CardKeyLinks'
+import { replaceKanbanBlocks } from './kanbanFences'
 import {
   CommentMark,
   preprocessCommentsToHtml,
@@ -48,6 +51,7 @@ declare global {
     }
     _getEditorContent?: () => string
     __mermaidBlocks?: string[]
+    __kanbanBlocks?: string[]
   }
 }
 
@@ -74,6 +78,22 @@ function preprocessMermaidBlocks(markdown: string): string {
   return processed
 }
 
+/**
+ * Preprocess kanban code blocks the same way, into window.__kanbanBlocks.
+ * Their blank lines separate columns, so they must survive the double parse.
+ * Runs before the mermaid pass, as card descriptions can hold mermaid fences.
+ */
+function preprocessKanbanBlocks(markdown: string): string {
+  const kanbanBlocks: string[] = []
+  window.__kanbanBlocks = kanbanBlocks
+
+  return replaceKanbanBlocks(markdown, (content) => {
+    const index = kanbanBlocks.length
+    kanbanBlocks.push(content.trimEnd())
+    return '```kanban\n___KANBAN_BLOCK_' + index + '___\n```'
+  })
+}
+
 // Get vscode API - it should be set by index.tsx before this component mounts
 const getVSCode = () => window.vscode
 
@@ -124,6 +144,7 @@ export function Editor({ initialContent = '', filename = 'untitled.md' }: Editor
       TableControls,
       ImageNode,
       MermaidNode,
+      KanbanNode,
       Markdown.configure({
         html: true,
         tightLists: true,
@@ -139,6 +160,7 @@ export function Editor({ initialContent = '', filename = 'untitled.md' }: Editor
       FindReplace,
       AiDiff,
       CommentMark,
+      CardKeyLinks,
     ],
     content: initialContent,
     onUpdate: ({ editor }) => {
@@ -191,8 +213,8 @@ export function Editor({ initialContent = '', filename = 'untitled.md' }: Editor
             // Preprocess comment syntax → HTML so Tiptap's HTML parser picks it up
             const commentProcessed = preprocessCommentsToHtml(content)
 
-            // Preprocess mermaid blocks to protect them from double-parsing
-            const processedContent = preprocessMermaidBlocks(commentProcessed)
+            // Preprocess mermaid and kanban blocks to protect them from double-parsing
+            const processedContent = preprocessMermaidBlocks(preprocessKanbanBlocks(commentProcessed))
 
             // Set content without adding to undo history.
             // Pass markdown directly to setContent — tiptap-markdown's override
@@ -269,6 +291,39 @@ export function Editor({ initialContent = '', filename = 'untitled.md' }: Editor
           break
         }
 
+        // Kanban card key prefixes to link (PM-42)
+        case 'cardKeyPrefixes': {
+          editor.commands.setCardKeyPrefixes(message.payload.prefixes)
+          break
+        }
+
+        // Scroll to a checkbox task picked in the Tasks view
+        case 'revealTask': {
+          const { index, text } = message.payload
+          const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '')
+          const tasks: { pos: number; text: string }[] = []
+          editor.state.doc.descendants((node, pos) => {
+            if (node.type.name === 'taskItem') {
+              tasks.push({ pos, text: node.firstChild?.textContent ?? '' })
+            }
+          })
+
+          // The index can drift from the file's task count; prefer a text match
+          const sameText = (task: { text: string }) => normalize(task.text) === normalize(text)
+          const target =
+            tasks[index] && sameText(tasks[index]) ? tasks[index] : tasks.find(sameText) ?? tasks[index]
+          if (!target) break
+
+          editor.chain().focus().setTextSelection(target.pos + 2).run()
+          const dom = editor.view.nodeDOM(target.pos) as HTMLElement | null
+          if (dom) {
+            dom.scrollIntoView({ block: 'center' })
+            dom.classList.add('pm-task-revealed')
+            setTimeout(() => dom.classList.remove('pm-task-revealed'), 1500)
+          }
+          break
+        }
+
         // HTML export request from extension
         case 'requestHtmlExport': {
           const html = editor.getHTML()
@@ -356,7 +411,7 @@ export function Editor({ initialContent = '', filename = 'untitled.md' }: Editor
       setComments(parseCommentsFromMarkdown(updated))
       isUpdatingFromExtension.current = true
       const commentProcessed = preprocessCommentsToHtml(updated)
-      const processedContent = preprocessMermaidBlocks(commentProcessed)
+      const processedContent = preprocessMermaidBlocks(preprocessKanbanBlocks(commentProcessed))
       editor
         .chain()
         .command(({ tr }) => {
@@ -395,7 +450,7 @@ export function Editor({ initialContent = '', filename = 'untitled.md' }: Editor
       setComments(parseCommentsFromMarkdown(updated))
       isUpdatingFromExtension.current = true
       const commentProcessed = preprocessCommentsToHtml(updated)
-      const processedContent = preprocessMermaidBlocks(commentProcessed)
+      const processedContent = preprocessMermaidBlocks(preprocessKanbanBlocks(commentProcessed))
       editor
         .chain()
         .command(({ tr }) => {
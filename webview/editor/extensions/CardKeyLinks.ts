@@ -0,0 +1,120 @@
+/**
+ * Card Key Links Extension
+ *
+ * ProseMirror plugin that turns kanban card keys (PM-42) into links.
+ * The extension host sends the key prefixes declared by boards in the
+ * workspace; only those prefixes are linked, so text like UTF-8 is left alone.
+ * Cmd/Ctrl+click asks the extension to open the board with the card's modal.
+ *
+ * CSS classes applied by this extension:
+ *   .pm-card-key — every linked key
+ */
+
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+interface CardKeyLinksState {
+  prefixes: string[];
+  decorations: DecorationSet;
+}
+
+const cardKeyLinksKey = new PluginKey<CardKeyLinksState>('cardKeyLinks');
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    cardKeyLinks: {
+      /** Set the card key prefixes (e.g. PM) that should be linked. */
+      setCardKeyPrefixes: (prefixes: string[]) => ReturnType;
+    };
+  }
+}
+
+function findCardKeys(doc: ProseMirrorNode, prefixes: string[]): DecorationSet {
+  if (prefixes.length === 0) return DecorationSet.empty;
+
+  const escaped = prefixes.map((prefix) => prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const regex = new RegExp(`\\b(?:${escaped.join('|')})-\\d+\\b`, 'g');
+  const decorations: Decoration[] = [];
+
+  doc.descendants((node: ProseMirrorNode, pos: number, parent) => {
+    if (!node.isText) return;
+    // Keys inside code are literal text
+    if (parent?.type.spec.code || node.marks.some((mark) => mark.type.spec.code)) return;
+
+    let m;
+    while ((m = regex.exec(node.text!)) !== null) {
+      decorations.push(
+        Decoration.inline(pos + m.index, pos + m.index + m[0].length, {
+          class: 'pm-card-key',
+          'data-card-key': m[0],
+          title: `${navigator.platform.includes('Mac') ? 'Cmd' : 'Ctrl'}+click to open card`,
+        })
+      );
+    }
+  });
+
+  return DecorationSet.create(doc, decorations);
+}
+
+export const CardKeyLinks = Extension.create({
+  name: 'cardKeyLinks',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: cardKeyLinksKey,
+
+        state: {
+          init(): CardKeyLinksState {
+            return { prefixes: [], decorations: DecorationSet.empty };
+          },
+
+          apply(tr, pluginState, _oldState, newState): CardKeyLinksState {
+            const prefixes = tr.getMeta(cardKeyLinksKey) as string[] | undefined;
+            if (prefixes) {
+              return { prefixes, decorations: findCardKeys(newState.doc, prefixes) };
+            }
+            if (tr.docChanged && pluginState.prefixes.length > 0) {
+              return { ...pluginState, decorations: findCardKeys(newState.doc, pluginState.prefixes) };
+            }
+            return pluginState;
+          },
+        },
+
+        props: {
+          decorations(state) {
+            return cardKeyLinksKey.getState(state)?.decorations ?? DecorationSet.empty;
+          },
+
+          handleClick(_view, _pos, event) {
+            if (!event.metaKey && !event.ctrlKey) return false;
+
+            const keyEl = (event.target as HTMLElement).closest?.('[data-card-key]');
+            const key = keyEl?.getAttribute('data-card-key');
+            if (!key) return false;
+
+            window.vscode?.postMessage({ type: 'openCardKey', payload: { key } });
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+
+  addCommands() {
+    return {
+      setCardKeyPrefixes:
+        (prefixes: string[]) =>
+        ({ dispatch, tr }: any) => {
+          if (dispatch) {
+            tr.setMeta(cardKeyLinksKey, prefixes);
+            tr.setMeta('addToHistory', false);
+            dispatch(tr);
+          }
+          return true;
+        },
+    };
+  },
+});
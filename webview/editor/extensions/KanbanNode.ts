@@ -0,0 +1,242 @@
+/**
+ * Kanban Block Extension for Tiptap
+ *
+ * Renders kanban code blocks as small interactive boards. Cards can be dragged
+ * between columns and checked off in place; each change rewrites the block's
+ * source with the same parser and serializer as .kanban files, so untouched
+ * lines stay exactly as written.
+ *
+ * Supports standard markdown fenced code blocks with 'kanban' language:
+ * ```kanban
+ * ## To Do
+ * - [ ] Draft the brief
+ *
+ * ## Done
+ * ```
+ */
+
+import { Node, mergeAttributes } from '@tiptap/core';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { KanbanNodeView } from './KanbanNodeView';
+import { getKanbanFence } from '../kanbanFences';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    kanban: {
+      /**
+       * Insert a kanban board block
+       */
+      insertKanbanBlock: (content?: string) => ReturnType;
+    };
+  }
+}
+
+export const DEFAULT_KANBAN_BLOCK = '## To Do\n\n- [ ] First task\n\n## In Progress\n\n## Done [auto-complete]';
+
+export const KanbanNode = Node.create({
+  name: 'kanban',
+
+  group: 'block',
+
+  // Atom node - content is stored in attributes, not as child text nodes
+  atom: true,
+
+  marks: '',
+
+  code: true,
+
+  defining: true,
+
+  addAttributes() {
+    return {
+      content: {
+        default: DEFAULT_KANBAN_BLOCK,
+        renderHTML: () => {
+          // Don't render content as HTML attribute - it's stored internally
+          return {};
+        },
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      // Handle our own rendered output (pre with data-type="kanban");
+      // priority 60 puts these ahead of codeBlock's tag: 'pre' rule
+      {
+        tag: 'pre[data-type="kanban"]',
+        priority: 60,
+        getAttrs: (element: HTMLElement) => {
+          const code = element.querySelector('code');
+          const content = code?.textContent || element.textContent || '';
+          return { content };
+        },
+      },
+      // Handle markdown-generated output (pre > code.language-kanban)
+      {
+        tag: 'pre',
+        priority: 60,
+        getAttrs: (element: HTMLElement) => {
+          const code = element.querySelector('code.language-kanban');
+          if (!code) return false;
+          return { content: code.textContent || '' };
+        },
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['pre', mergeAttributes({ 'data-type': 'kanban' }, HTMLAttributes), ['code', { class: 'language-kanban' }, node.attrs.content || '']];
+  },
+
+  addCommands() {
+    return {
+      insertKanbanBlock:
+        (content?: string) =>
+        ({ commands }) => {
+          return commands.insertContent({
+            type: this.name,
+            attrs: { content: content || DEFAULT_KANBAN_BLOCK },
+          });
+        },
+    };
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          const content = node.attrs.content || '';
+          // Longer than any fence in the card descriptions, so they can't close it
+          const fence = getKanbanFence(content);
+          state.write(`${fence}kanban\n`);
+          state.text(content, false);
+          state.ensureNewLine();
+          state.write(fence);
+          state.closeBlock(node);
+        },
+        parse: {
+          // Tag kanban code elements before ProseMirror's DOMParser runs so
+          // our first parseHTML rule matches instead of codeBlock's
+          updateDOM(element: HTMLElement) {
+            element.querySelectorAll('pre > code.language-kanban').forEach(code => {
+              const pre = code.parentElement;
+              if (pre) {
+                pre.setAttribute('data-type', 'kanban');
+              }
+            });
+          },
+        },
+      },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      // Allow Enter to create a new paragraph after the kanban node
+      Enter: ({ editor }) => {
+        const { selection } = editor.state;
+        const node = editor.state.doc.nodeAt(selection.from);
+
+        if (node?.type.name === 'kanban') {
+          const pos = selection.from + node.nodeSize;
+          editor.chain()
+            .insertContentAt(pos, { type: 'paragraph' })
+            .setTextSelection(pos + 1)
+            .run();
+          return true;
+        }
+        return false;
+      },
+      // Allow ArrowDown to move cursor after the kanban node
+      ArrowDown: ({ editor }) => {
+        const { selection } = editor.state;
+        const node = editor.state.doc.nodeAt(selection.from);
+
+        if (node?.type.name === 'kanban') {
+          const pos = selection.from + node.nodeSize;
+          if (pos >= editor.state.doc.content.size - 1) {
+            editor.chain()
+              .insertContentAt(pos, { type: 'paragraph' })
+              .setTextSelection(pos + 1)
+              .run();
+          } else {
+            editor.commands.setTextSelection(pos);
+          }
+          return true;
+        }
+        return false;
+      },
+    };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(KanbanNodeView, {
+      // The board handles its own pointer, drag and key events; letting
+      // ProseMirror see them would select the node or drop text into the doc
+      stopEvent: ({ event }) => !!(event.target as HTMLElement).closest?.('.kanban-block-toolbar, .kanban-block-board, .kanban-block-edit'),
+    });
+  },
+
+  addProseMirrorPlugins() {
+    const kanbanType = this.type;
+
+    return [
+      new Plugin({
+        key: new PluginKey('kanbanTransformer'),
+        appendTransaction: (transactions, _oldState, newState) => {
+          // Skip our own transformation (prevent infinite loop)
+          if (transactions.some(tr => tr.getMeta('kanbanTransform'))) {
+            return null;
+          }
+
+          if (!transactions.some(tr => tr.docChanged)) {
+            return null;
+          }
+
+          // Kanban codeBlocks, and kanban nodes still holding a placeholder
+          // from preprocessKanbanBlocks, get the original block content
+          const kanbanBlocks = window.__kanbanBlocks || [];
+          const resolve = (content: string) => {
+            const placeholderMatch = content.match(/^___KANBAN_BLOCK_(\d+)___$/);
+            return placeholderMatch ? kanbanBlocks[parseInt(placeholderMatch[1], 10)] : undefined;
+          };
+          const replacements: { pos: number; nodeSize: number; content: string }[] = [];
+
+          newState.doc.descendants((node, pos) => {
+            if (node.type.name === 'codeBlock' && node.attrs.language === 'kanban') {
+              const content = resolve(node.textContent) ?? node.textContent;
+              replacements.push({ pos, nodeSize: node.nodeSize, content });
+              return false;
+            }
+            if (node.type.name === 'kanban') {
+              const content = resolve(node.attrs.content || '');
+              if (content !== undefined) {
+                replacements.push({ pos, nodeSize: node.nodeSize, content });
+              }
+              return false;
+            }
+            return true;
+          });
+
+          if (replacements.length === 0) {
+            return null;
+          }
+
+          const tr = newState.tr;
+
+          // Process in reverse order to maintain correct positions
+          for (let i = replacements.length - 1; i >= 0; i--) {
+            const { pos, nodeSize, content } = replacements[i];
+            tr.replaceWith(pos, pos + nodeSize, kanbanType.create({ content }));
+          }
+
+          tr.setMeta('addToHistory', false);
+          tr.setMeta('kanbanTransform', true);
+          return tr;
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,346 @@
+/**
+ * Kanban Block React NodeView Component
+ *
+ * Renders a ```kanban block as a compact board. The block's source is the
+ * single source of truth: every interaction parses it with the kanban parser,
+ * applies the same board operation the .kanban editor uses, and writes the
+ * serialized board back to the node.
+ *
+ * Features:
+ * - Drag cards within and between columns (WIP limits are respected)
+ * - Toggle cards done; Alt+Arrow moves the focused card
+ * - Add cards to a column
+ * - Edit mode with a textarea for the raw block source
+ */
+
+import { NodeViewWrapper } from '@tiptap/react'
+import type { NodeViewProps } from '@tiptap/react'
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
+import { Text } from 'lucide'
+import { LucideIcon } from '../components/LucideIcon'
+import {
+  parseMarkdown,
+  serializeBoard,
+  moveCard,
+  toggleCard,
+  addCard,
+  getCardTitle,
+  wouldExceedWipLimit,
+  type KanbanBoard,
+  type KanbanColumn,
+} from '../../kanban/parser'
+import { findKeyboardMoveTarget, type MoveDirection } from '../../kanban/keyboard'
+
+// Drag data type for cards, so text dragged in from elsewhere is ignored
+const CARD_DRAG_TYPE = 'application/x-pmtoolkit-block-card'
+
+const MOVE_KEYS: Record<string, MoveDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+}
+
+/**
+ * Index a dragged card should take in a column's list, from the pointer position
+ */
+function getDropIndex(list: HTMLElement, clientY: number, draggedCardId: string): number {
+  const cards = Array.from(list.querySelectorAll<HTMLElement>('.kanban-block-card')).filter(
+    (el) => el.dataset.cardId !== draggedCardId
+  )
+  const index = cards.findIndex((el) => {
+    const rect = el.getBoundingClientRect()
+    return clientY < rect.top + rect.height / 2
+  })
+  return index === -1 ? cards.length : index
+}
+
+export function KanbanNodeView({ node, updateAttributes, selected, editor }: NodeViewProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [addingTo, setAddingTo] = useState<string | null>(null) // Column id with an open add input
+  const [dropColumnId, setDropColumnId] = useState<string | null>(null)
+  const [blockedColumnId, setBlockedColumnId] = useState<string | null>(null)
+
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const boardRef = useRef<HTMLDivElement>(null)
+  // Card to focus after the next render, by position since ids change on every parse
+  const pendingFocus = useRef<{ columnIndex: number; cardIndex: number } | null>(null)
+
+  const content: string = node.attrs.content || ''
+  const board = useMemo(() => parseMarkdown(content), [content])
+
+  /**
+   * Write a changed board back to the block
+   */
+  const commit = useCallback(
+    (next: KanbanBoard) => {
+      const newContent = serializeBoard(next).trimEnd()
+      if (newContent !== content) {
+        updateAttributes({ content: newContent })
+      }
+    },
+    [content, updateAttributes]
+  )
+
+  /**
+   * Move a card, or flag the target column when it is at its WIP limit
+   */
+  const applyMove = useCallback(
+    (cardId: string, toColumnId: string, toIndex: number): boolean => {
+      if (board.settings?.enforceWip && wouldExceedWipLimit(board, cardId, toColumnId)) {
+        setBlockedColumnId(toColumnId)
+        return false
+      }
+      commit(moveCard(board, cardId, toColumnId, toIndex))
+      return true
+    },
+    [board, commit]
+  )
+
+  /**
+   * Clear the WIP limit flag shortly after it is shown
+   */
+  useEffect(() => {
+    if (!blockedColumnId) return
+    const timeout = setTimeout(() => setBlockedColumnId(null), 1000)
+    return () => clearTimeout(timeout)
+  }, [blockedColumnId])
+
+  /**
+   * Restore focus to a card moved with the keyboard
+   */
+  useEffect(() => {
+    const target = pendingFocus.current
+    if (!target || !boardRef.current) return
+    pendingFocus.current = null
+    boardRef.current
+      .querySelector<HTMLElement>(
+        `.kanban-block-card[data-column-index="${target.columnIndex}"][data-card-index="${target.cardIndex}"]`
+      )
+      ?.focus()
+  }, [board])
+
+  /**
+   * Focus textarea when entering edit mode
+   */
+  useEffect(() => {
+    if (isEditing && textareaRef.current) {
+      textareaRef.current.focus()
+    }
+  }, [isEditing])
+
+  /**
+   * Exit edit mode, saving the source unless cancelled
+   */
+  const exitEditMode = useCallback(
+    (save: boolean = true) => {
+      if (!isEditing) return
+      setIsEditing(false)
+      const newContent = textareaRef.current?.value.trimEnd()
+      if (save && newContent !== undefined && newContent !== content) {
+        updateAttributes({ content: newContent })
+      }
+    },
+    [isEditing, content, updateAttributes]
+  )
+
+  /**
+   * Handle deselection - exit edit mode when node is deselected
+   */
+  useEffect(() => {
+    if (!selected && isEditing) {
+      exitEditMode(true)
+    }
+  }, [selected, isEditing, exitEditMode])
+
+  const handleSourceKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      const modifier = e.metaKey || e.ctrlKey
+
+      // Escape to exit without saving
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        exitEditMode(false)
+        editor.commands.focus()
+        return
+      }
+
+      // Cmd/Ctrl+Enter to save and exit
+      if (modifier && e.key === 'Enter') {
+        e.preventDefault()
+        exitEditMode(true)
+        editor.commands.focus()
+      }
+    },
+    [editor, exitEditMode]
+  )
+
+  const handleCardKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>, cardId: string) => {
+      const direction = MOVE_KEYS[e.key]
+      if (!direction || !e.altKey) return
+      e.preventDefault()
+
+      const target = findKeyboardMoveTarget(board, cardId, direction)
+      if (!target) return
+      const columnIndex = board.columns.findIndex((c) => c.id === target.toColumnId)
+      if (applyMove(cardId, target.toColumnId, target.toIndex)) {
+        pendingFocus.current = { columnIndex, cardIndex: target.toIndex }
+      }
+    },
+    [board, applyMove]
+  )
+
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>, columnId: string) => {
+    if (!e.dataTransfer.types.includes(CARD_DRAG_TYPE)) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'move'
+    setDropColumnId(columnId)
+  }, [])
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLDivElement>, columnId: string) => {
+      const cardId = e.dataTransfer.getData(CARD_DRAG_TYPE)
+      setDropColumnId(null)
+      if (!cardId) return
+      e.preventDefault()
+      applyMove(cardId, columnId, getDropIndex(e.currentTarget, e.clientY, cardId))
+    },
+    [applyMove]
+  )
+
+  const handleAddCard = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>, columnId: string) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setAddingTo(null)
+        return
+      }
+      if (e.key !== 'Enter') return
+      e.preventDefault()
+      const text = e.currentTarget.value.trim()
+      setAddingTo(null)
+      if (text) {
+        commit(addCard(board, columnId, text))
+      }
+    },
+    [board, commit]
+  )
+
+  const getColumnTitle = (column: KanbanColumn): string => {
+    const lane = board.lanes?.find((l) => l.id === column.laneId)
+    return lane ? `${lane.title} › ${column.title}` : column.title
+  }
+
+  const renderColumn = (column: KanbanColumn, columnIndex: number) => {
+    const wipLimit = column.settings?.wipLimit
+    const classes = [
+      'kanban-block-column',
+      dropColumnId === column.id ? 'is-drop-target' : '',
+      blockedColumnId === column.id ? 'is-blocked' : '',
+    ]
+
+    return (
+      <div key={column.id} className={classes.filter(Boolean).join(' ')}>
+        <div className="kanban-block-column-header">
+          <span className="kanban-block-column-title">{getColumnTitle(column)}</span>
+          <span className="kanban-block-column-count">
+            {wipLimit ? `${column.cards.length}/${wipLimit}` : column.cards.length}
+          </span>
+        </div>
+        <div
+          className="kanban-block-cards"
+          onDragOver={(e) => handleDragOver(e, column.id)}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropColumnId(null)
+          }}
+          onDrop={(e) => handleDrop(e, column.id)}
+        >
+          {column.cards.map((card, cardIndex) => {
+            const title = getCardTitle(card.text) || card.text
+            return (
+              <div
+                key={card.id}
+                className={`kanban-block-card ${card.completed ? 'completed' : ''}`}
+                data-card-id={card.id}
+                data-column-index={columnIndex}
+                data-card-index={cardIndex}
+                tabIndex={0}
+                title={card.text}
+                aria-label={`${title}, ${column.title}. Alt+Arrow keys move it.`}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(CARD_DRAG_TYPE, card.id)
+                  e.dataTransfer.effectAllowed = 'move'
+                }}
+                onDragEnd={() => setDropColumnId(null)}
+                onKeyDown={(e) => handleCardKeyDown(e, card.id)}
+              >
+                <input
+                  type="checkbox"
+                  checked={card.completed}
+                  aria-label={`${title} done`}
+                  onChange={() => commit(toggleCard(board, card.id))}
+                />
+                <span className="kanban-block-card-title">{title}</span>
+              </div>
+            )
+          })}
+        </div>
+        {addingTo === column.id ? (
+          <input
+            className="kanban-block-add-input"
+            type="text"
+            placeholder="Card title, then Enter"
+            autoFocus
+            onKeyDown={(e) => handleAddCard(e, column.id)}
+            onBlur={() => setAddingTo(null)}
+          />
+        ) : (
+          <button type="button" className="kanban-block-add" onClick={() => setAddingTo(column.id)}>
+            + Add card
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <NodeViewWrapper
+      className={`kanban-block-node ${selected ? 'is-selected' : ''} ${isEditing ? 'is-editing' : ''}`}
+    >
+      <div className="kanban-block-toolbar">
+        <button
+          className="kanban-block-source-toggle"
+          type="button"
+          title="Edit source"
+          onClick={(e) => {
+            e.stopPropagation()
+            setIsEditing(true)
+          }}
+        >
+          <LucideIcon icon={Text} size={16} />
+        </button>
+      </div>
+
+      <div ref={boardRef} className="kanban-block-board">
+        {board.columns.map(renderColumn)}
+      </div>
+
+      {/* Edit container */}
+      {isEditing && (
+        <div className="kanban-block-edit">
+          <textarea
+            ref={textareaRef}
+            className="kanban-block-textarea"
+            defaultValue={content}
+            spellCheck={false}
+            rows={Math.min(20, content.split('\n').length + 2)}
+            onKeyDown={handleSourceKeyDown}
+            onBlur={() => exitEditMode(true)}
+          />
+        </div>
+      )}
+    </NodeViewWrapper>
+  )
+}
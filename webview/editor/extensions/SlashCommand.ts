@@ -13,7 +13,7 @@ import { createRoot, Root } from 'react-dom/client';
 import {
   Text, Heading1, Heading2, Heading3, Heading4,
   List, ListOrdered, ListTodo, Quote, Code, Minus,
-  Table, Image, LayoutTemplate, Network, ArrowRightLeft, Link, FileText,
+  Table, Image, LayoutTemplate, Network, ArrowRightLeft, Link, FileText, SquareKanban,
 } from 'lucide';
 import { LucideIcon } from '../components/LucideIcon';
 import { SlashCommandMenu, SlashCommandMenuRef } from '../components/SlashCommandMenu';
@@ -137,6 +137,7 @@ const ICON = {
   mermaid:      slashIcon(LayoutTemplate),
   flowchart:    slashIcon(Network),
   sequence:     slashIcon(ArrowRightLeft),
+  kanban:       slashIcon(SquareKanban),
   link:         slashIcon(Link),
 };
 
@@ -392,6 +393,21 @@ export const defaultCommands: SlashCommandItem[] = [
         .run();
     },
   },
+  {
+    title: 'Kanban Board',
+    description: 'Insert a small board of cards',
+    icon: ICON.kanban,
+    category: 'media',
+    searchTerms: ['kanban', 'board', 'cards', 'tasks', 'sprint'],
+    command: ({ editor, range }) => {
+      editor
+        .chain()
+        .focus()
+        .deleteRange(range)
+        .insertKanbanBlock()
+        .run();
+    },
+  },
   {
     title: 'Link',
     description: 'Link to file or URL',
@@ -510,6 +526,8 @@ export const SlashCommand = Extension.create({
 
   addOptions() {
     return {
+      // Titles of commands to leave out (e.g. blocks the host editor can't hold)
+      exclude: [] as string[],
       suggestion: {
         char: '/',
         startOfLine: false,
@@ -624,10 +642,16 @@ export const SlashCommand = Extension.create({
   },
 
   addProseMirrorPlugins() {
+    const { exclude, suggestion } = this.options;
+    const items = suggestion.items!;
+
     return [
       Suggestion({
         editor: this.editor,
-        ...this.options.suggestion,
+        ...suggestion,
+        items: exclude.length
+          ? (props) => (items(props) as SlashCommandItem[]).filter((item) => !exclude.includes(item.title))
+          : items,
       }),
     ];
   },
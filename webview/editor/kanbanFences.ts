@@ -0,0 +1,56 @@
+/**
+ * Kanban Fences
+ *
+ * Reading and writing ```kanban blocks in markdown documents. A board's card
+ * descriptions can hold code fences of their own, so the outer fence is
+ * written longer than any backtick run in the board, and a block only ends at
+ * an unindented fence at least as long as the one that opened it.
+ */
+
+const KANBAN_OPENING = /^(`{3,})kanban[ \t]*$/
+
+/**
+ * Backtick fence for a kanban block: longer than any backtick run in it
+ */
+export function getKanbanFence(content: string): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length))
+  return '`'.repeat(Math.max(3, longest + 1))
+}
+
+/**
+ * A kanban block as markdown, fenced so its content can't close it
+ */
+export function serializeKanbanBlock(content: string): string {
+  const fence = getKanbanFence(content)
+  return `${fence}kanban\n${content}${content.endsWith('\n') || !content ? '' : '\n'}${fence}`
+}
+
+/**
+ * Replace each kanban block in a document with the block returned for its
+ * content. A block without a closing fence runs to the end of the document.
+ */
+export function replaceKanbanBlocks(markdown: string, replace: (content: string) => string): string {
+  const lines = markdown.split('\n')
+  const output: string[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const opening = lines[i].match(KANBAN_OPENING)
+    if (!opening) {
+      output.push(lines[i])
+      continue
+    }
+
+    const fence = opening[1]
+    let end = i + 1
+    while (end < lines.length && !isClosingFence(lines[end], fence)) end++
+    output.push(replace(lines.slice(i + 1, end).join('\n')))
+    i = end
+  }
+
+  return output.join('\n')
+}
+
+function isClosingFence(line: string, fence: string): boolean {
+  const match = line.match(/^(`{3,})[ \t]*$/)
+  return !!match && match[1].length >= fence.length
+}
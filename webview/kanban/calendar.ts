@@ -0,0 +1,381 @@
+/**
+ * Calendar View
+ *
+ * Month calendar of the board's dated cards. A card shows on every day from
+ * its start: to its due: date; dragging it to another day moves both dates by
+ * the same number of days. Cards without dates wait in a side tray and get a
+ * due date when dropped on a day. Every change goes through the card's
+ * metadata, so only the date tokens on the card line are rewritten.
+ */
+
+import type { KanbanBoard, KanbanCard, CardMetadata } from './parser';
+import { getCardTitle } from './parser';
+import { isFilterActive, matchesFilter, type CardFilter } from './filter';
+import {
+  addDays,
+  addMonths,
+  clearCardDates,
+  daysBetween,
+  getMonthWeeks,
+  partitionCardsByDate,
+  setCardSpan,
+  shiftCardDates,
+  todayIso,
+  type CardSpan,
+  type DatedCard,
+} from './dates';
+
+export interface ScheduleCallbacks {
+  onDatesChange: (cardId: string, metadata: CardMetadata) => void;
+  onOpenCard: (cardId: string) => void;
+}
+
+export interface CalendarCallbacks extends ScheduleCallbacks {
+  onMonthChange: (month: string) => void;
+}
+
+export interface ScheduleViewOptions {
+  filter?: CardFilter;
+  filterMode?: 'dim' | 'hide';
+}
+
+export interface CalendarViewOptions extends ScheduleViewOptions {
+  month?: string; // YYYY-MM; defaults to the current month
+}
+
+/**
+ * What is being dragged: a card, and the day it was picked up from
+ * (none when it comes from the tray)
+ */
+interface CardDragData {
+  cardId: string;
+  fromDay?: string;
+}
+
+const CARD_DRAG_TYPE = 'application/x-pmtoolkit-card';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function setCardDragData(e: DragEvent, data: CardDragData): void {
+  if (!e.dataTransfer) return;
+  e.dataTransfer.setData(CARD_DRAG_TYPE, JSON.stringify(data));
+  e.dataTransfer.setData('text/plain', data.cardId);
+  e.dataTransfer.effectAllowed = 'move';
+}
+
+export function getCardDragData(e: DragEvent): CardDragData | null {
+  const raw = e.dataTransfer?.getData(CARD_DRAG_TYPE);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as CardDragData;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Make an element accept dropped cards, highlighting it while one hovers
+ */
+export function addCardDropTarget(el: HTMLElement, onDrop: (data: CardDragData, e: DragEvent) => void): void {
+  el.addEventListener('dragover', (e) => {
+    if (!e.dataTransfer?.types.includes(CARD_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    el.classList.add('drop-target');
+  });
+  el.addEventListener('dragleave', (e) => {
+    if (!el.contains(e.relatedTarget as Node | null)) {
+      el.classList.remove('drop-target');
+    }
+  });
+  el.addEventListener('drop', (e) => {
+    el.classList.remove('drop-target');
+    const data = getCardDragData(e);
+    if (!data) return;
+    e.preventDefault();
+    onDrop(data, e);
+  });
+}
+
+/**
+ * Filter class for a card element, or none when no filter is active
+ */
+export function getFilterClass(card: KanbanCard, options: ScheduleViewOptions): string | null {
+  if (!options.filter || !isFilterActive(options.filter)) return null;
+  if (matchesFilter(card, options.filter)) return 'filter-match';
+  return options.filterMode === 'hide' ? 'filter-hidden' : 'filter-dimmed';
+}
+
+function findCard(board: KanbanBoard, cardId: string): KanbanCard | undefined {
+  return board.columns.flatMap((column) => column.cards).find((card) => card.id === cardId);
+}
+
+/**
+ * New dates for a card dropped on a day: dated cards keep their length,
+ * cards from the tray become due that day
+ */
+export function getDroppedDates(card: KanbanCard, data: CardDragData, day: string): CardMetadata | null {
+  if (data.fromDay) {
+    const days = daysBetween(data.fromDay, day);
+    return days === 0 ? null : shiftCardDates(card.metadata, days);
+  }
+  return setCardSpan(card.metadata, day, day);
+}
+
+/**
+ * Side panel listing cards without dates. Calendar cards dropped on it lose
+ * their dates.
+ */
+export function renderDateTray(
+  board: KanbanBoard,
+  cards: KanbanCard[],
+  callbacks: ScheduleCallbacks,
+  options: ScheduleViewOptions
+): HTMLElement {
+  const tray = document.createElement('aside');
+  tray.className = 'date-tray';
+  tray.setAttribute('aria-label', 'Cards without dates');
+
+  const heading = document.createElement('h3');
+  heading.className = 'date-tray-title';
+  heading.textContent = 'No dates';
+  const countEl = document.createElement('span');
+  countEl.className = 'column-count';
+  countEl.textContent = String(cards.length);
+  heading.appendChild(countEl);
+  tray.appendChild(heading);
+
+  const hint = document.createElement('p');
+  hint.className = 'date-tray-hint';
+  hint.textContent =
+    cards.length > 0 ? 'Drag a card onto a day to give it a due date.' : 'Every card has a date.';
+  tray.appendChild(hint);
+  tray.appendChild(renderDateTrayCards(board, cards, callbacks, options));
+
+  addCardDropTarget(tray, (data) => {
+    const card = findCard(board, data.cardId);
+    if (card && data.fromDay) {
+      callbacks.onDatesChange(card.id, clearCardDates(card.metadata));
+    }
+  });
+
+  return tray;
+}
+
+/**
+ * List of tray cards: drag one onto a day, or click it to open the card
+ */
+export function renderDateTrayCards(
+  board: KanbanBoard,
+  cards: KanbanCard[],
+  callbacks: ScheduleCallbacks,
+  options: ScheduleViewOptions
+): HTMLElement {
+  const columnOf = new Map(board.columns.flatMap((column) => column.cards.map((card) => [card.id, column.title])));
+  const list = document.createElement('div');
+  list.className = 'date-tray-cards';
+  for (const card of cards) {
+    const item = document.createElement('button');
+    item.type = 'button';
+    item.className = `date-tray-card${card.completed ? ' completed' : ''}`;
+    item.dataset.cardId = card.id;
+    item.draggable = true;
+    const filterClass = getFilterClass(card, options);
+    if (filterClass) item.classList.add(filterClass);
+
+    const titleEl = document.createElement('span');
+    titleEl.className = 'date-tray-card-title';
+    titleEl.textContent = getCardTitle(card.text) || card.text;
+    const statusEl = document.createElement('span');
+    statusEl.className = 'date-tray-card-status';
+    statusEl.textContent = columnOf.get(card.id) ?? '';
+    item.appendChild(titleEl);
+    item.appendChild(statusEl);
+
+    item.addEventListener('dragstart', (e) => setCardDragData(e, { cardId: card.id }));
+    item.addEventListener('click', () => callbacks.onOpenCard(card.id));
+    list.appendChild(item);
+  }
+  return list;
+}
+
+/**
+ * Render the month calendar and the tray into the board container
+ */
+export function renderCalendar(
+  container: HTMLElement,
+  board: KanbanBoard,
+  callbacks: CalendarCallbacks,
+  options: CalendarViewOptions = {}
+): void {
+  // Re-rendering replaces every card, so remember which one had focus
+  const active = document.activeElement as HTMLElement | null;
+  const focused = container.contains(active) ? active?.closest<HTMLElement>('[data-card-id]') : null;
+  const focusedCardId = focused?.dataset.cardId;
+
+  container.innerHTML = '';
+
+  const today = todayIso();
+  const month = options.month ?? today.slice(0, 7);
+  const { dated, undated } = partitionCardsByDate(board);
+
+  const layout = document.createElement('div');
+  layout.className = 'schedule-layout';
+
+  const main = document.createElement('div');
+  main.className = 'calendar';
+  main.appendChild(renderCalendarHeader(month, today, callbacks));
+
+  const grid = document.createElement('div');
+  grid.className = 'calendar-grid';
+  grid.setAttribute('role', 'grid');
+
+  const headRow = document.createElement('div');
+  headRow.className = 'calendar-week calendar-weekdays';
+  headRow.setAttribute('role', 'row');
+  for (const weekday of WEEKDAYS) {
+    const cell = document.createElement('div');
+    cell.className = 'calendar-weekday';
+    cell.setAttribute('role', 'columnheader');
+    cell.textContent = weekday;
+    headRow.appendChild(cell);
+  }
+  grid.appendChild(headRow);
+
+  for (const week of getMonthWeeks(month)) {
+    const weekEl = document.createElement('div');
+    weekEl.className = 'calendar-week';
+    weekEl.setAttribute('role', 'row');
+    for (const day of week) {
+      const cards = dated.filter(({ span }) => span.start <= day && day <= span.end);
+      weekEl.appendChild(renderDay(day, month, today, cards, board, callbacks, options));
+    }
+    grid.appendChild(weekEl);
+  }
+
+  main.appendChild(grid);
+  layout.appendChild(main);
+  layout.appendChild(renderDateTray(board, undated, callbacks, options));
+  container.appendChild(layout);
+
+  if (focusedCardId) {
+    container.querySelector<HTMLElement>(`[data-card-id="${focusedCardId}"]`)?.focus();
+  }
+}
+
+function renderCalendarHeader(month: string, today: string, callbacks: CalendarCallbacks): HTMLElement {
+  const header = document.createElement('div');
+  header.className = 'calendar-header';
+
+  const [year, monthNumber] = month.split('-').map(Number);
+  const title = document.createElement('h2');
+  title.className = 'calendar-title';
+  title.setAttribute('aria-live', 'polite');
+  title.textContent = new Date(year, monthNumber - 1, 1).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+  });
+  header.appendChild(title);
+
+  const addButton = (className: string, label: string, text: string, target: string) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `calendar-nav-btn ${className}`;
+    button.title = label;
+    button.setAttribute('aria-label', label);
+    button.textContent = text;
+    button.addEventListener('click', () => callbacks.onMonthChange(target));
+    header.appendChild(button);
+  };
+
+  addButton('calendar-prev', 'Previous month', '‹', addMonths(month, -1));
+  addButton('calendar-next', 'Next month', '›', addMonths(month, 1));
+  addButton('calendar-today', 'Go to this month', 'Today', today.slice(0, 7));
+
+  return header;
+}
+
+function renderDay(
+  day: string,
+  month: string,
+  today: string,
+  cards: DatedCard[],
+  board: KanbanBoard,
+  callbacks: CalendarCallbacks,
+  options: CalendarViewOptions
+): HTMLElement {
+  const dayEl = document.createElement('div');
+  dayEl.className = 'calendar-day';
+  dayEl.dataset.date = day;
+  dayEl.setAttribute('role', 'gridcell');
+  if (!day.startsWith(month)) dayEl.classList.add('outside-month');
+  if (day === today) dayEl.classList.add('today');
+
+  const numberEl = document.createElement('span');
+  numberEl.className = 'calendar-day-number';
+  numberEl.textContent = String(Number(day.slice(8)));
+  dayEl.appendChild(numberEl);
+
+  const list = document.createElement('div');
+  list.className = 'calendar-day-cards';
+  for (const { card, span } of cards) {
+    list.appendChild(renderCalendarCard(card, span, day, month, today, callbacks, options));
+  }
+  dayEl.appendChild(list);
+
+  addCardDropTarget(dayEl, (data) => {
+    const card = findCard(board, data.cardId);
+    if (!card) return;
+    const metadata = getDroppedDates(card, data, day);
+    if (metadata) callbacks.onDatesChange(card.id, metadata);
+  });
+
+  return dayEl;
+}
+
+function renderCalendarCard(
+  card: KanbanCard,
+  span: CardSpan,
+  day: string,
+  month: string,
+  today: string,
+  callbacks: CalendarCallbacks,
+  options: CalendarViewOptions
+): HTMLElement {
+  const title = getCardTitle(card.text) || card.text;
+
+  const cardEl = document.createElement('button');
+  cardEl.type = 'button';
+  cardEl.className = 'calendar-card';
+  cardEl.dataset.cardId = card.id;
+  cardEl.draggable = true;
+  cardEl.textContent = title;
+  cardEl.title = span.start === span.end ? `${title} (${span.end})` : `${title} (${span.start} → ${span.end})`;
+
+  if (card.completed) cardEl.classList.add('completed');
+  if (!card.completed && span.end < today) cardEl.classList.add('overdue');
+  if (span.start !== span.end) {
+    cardEl.classList.add(day === span.start ? 'span-start' : day === span.end ? 'span-end' : 'span-middle');
+  }
+  if (card.metadata.priority) cardEl.classList.add(`priority-${card.metadata.priority}`);
+  const filterClass = getFilterClass(card, options);
+  if (filterClass) cardEl.classList.add(filterClass);
+
+  cardEl.addEventListener('dragstart', (e) => setCardDragData(e, { cardId: card.id, fromDay: day }));
+  cardEl.addEventListener('click', () => callbacks.onOpenCard(card.id));
+
+  // Arrow keys move the card a day (left/right) or a week (up/down)
+  cardEl.addEventListener('keydown', (e) => {
+    const days = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -7, ArrowDown: 7 }[e.key];
+    if (!days || e.altKey || e.ctrlKey || e.metaKey) return;
+    e.preventDefault();
+    e.stopPropagation();
+    callbacks.onDatesChange(card.id, shiftCardDates(card.metadata, days));
+
+    // Follow the card into the next or previous month
+    const movedTo = addDays(day, days).slice(0, 7);
+    if (movedTo !== month) callbacks.onMonthChange(movedTo);
+  });
+
+  return cardEl;
+}
@@ -0,0 +1,143 @@
+/**
+ * Card Images
+ *
+ * Images pasted or dropped into the card editor are shown right away from
+ * their data, then saved to the workspace's assets folder by the extension
+ * (the saveImage message). When the extension answers with imageSaved, the
+ * image is pointed at the file, so the card's markdown gets a relative path
+ * instead of base64.
+ */
+
+import { Extension } from '@tiptap/core';
+import type { Node as ProseMirrorNode, Slice } from '@tiptap/pm/model';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import type { EditorView } from '@tiptap/pm/view';
+
+export interface SavedImage {
+  originalPath: string; // Relative to the board
+  webviewUrl: string;
+  requestId?: string;
+}
+
+// Images sent to the extension and not yet swapped for their file, by request id
+const pendingImages = new Map<string, string>();
+let nextRequestId = 1;
+
+/**
+ * Ask the extension to save an image to the assets folder
+ */
+function requestSave(filename: string, dataUrl: string): void {
+  const requestId = `card-image-${nextRequestId++}`;
+  pendingImages.set(requestId, dataUrl);
+  (window as any).vscode?.postMessage({ type: 'saveImage', payload: { filename, data: dataUrl, requestId } });
+}
+
+/**
+ * Data of an image whose save the card editor didn't pick up (the modal was
+ * closed meanwhile), so the board can swap it in itself
+ */
+export function takePendingImage(requestId: string | undefined): string | undefined {
+  if (!requestId) return undefined;
+  const dataUrl = pendingImages.get(requestId);
+  pendingImages.delete(requestId);
+  return dataUrl;
+}
+
+function getImageFiles(files: FileList | null | undefined): File[] {
+  return Array.from(files ?? []).filter((file) => file.type.startsWith('image/'));
+}
+
+function readDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Insert image files at a position (or the selection), saving each one
+ */
+async function insertImageFiles(view: EditorView, files: File[], pos?: number): Promise<void> {
+  const imageType = view.state.schema.nodes.image;
+  for (const file of files) {
+    const dataUrl = await readDataUrl(file);
+    if (view.isDestroyed) return;
+
+    const node = imageType.create({ src: dataUrl, alt: null });
+    const tr = pos === undefined ? view.state.tr.replaceSelectionWith(node) : view.state.tr.insert(pos, node);
+    view.dispatch(tr);
+    if (pos !== undefined) pos += node.nodeSize;
+    requestSave(file.name || 'image.png', dataUrl);
+  }
+}
+
+export const CardImageUpload = Extension.create({
+  name: 'cardImageUpload',
+
+  addStorage() {
+    return { onImageSaved: null as ((e: Event) => void) | null };
+  },
+
+  onCreate() {
+    const editor = this.editor;
+    this.storage.onImageSaved = (e: Event) => {
+      const { requestId, originalPath, webviewUrl } = (e as CustomEvent<SavedImage>).detail;
+      const dataUrl = requestId ? pendingImages.get(requestId) : undefined;
+      if (!dataUrl || editor.isDestroyed) return;
+
+      const tr = editor.state.tr;
+      editor.state.doc.descendants((node, pos) => {
+        if (node.type.name === 'image' && node.attrs.src === dataUrl) {
+          tr.setNodeMarkup(pos, undefined, { ...node.attrs, src: webviewUrl, originalSrc: originalPath });
+        }
+      });
+      if (!tr.docChanged) return;
+      editor.view.dispatch(tr);
+      pendingImages.delete(requestId!);
+    };
+    window.addEventListener('image-saved', this.storage.onImageSaved);
+  },
+
+  onDestroy() {
+    if (this.storage.onImageSaved) {
+      window.removeEventListener('image-saved', this.storage.onImageSaved);
+    }
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: new PluginKey('cardImageUpload'),
+        props: {
+          handlePaste(view, event) {
+            const files = getImageFiles(event.clipboardData?.files);
+            if (files.length === 0) return false;
+            event.preventDefault();
+            insertImageFiles(view, files);
+            return true;
+          },
+          handleDrop(view, event, _slice, moved) {
+            const files = moved ? [] : getImageFiles(event.dataTransfer?.files);
+            if (files.length === 0) return false;
+            event.preventDefault();
+            const drop = view.posAtCoords({ left: event.clientX, top: event.clientY });
+            insertImageFiles(view, files, drop?.pos);
+            return true;
+          },
+          // Pasted HTML can carry images as data URLs too
+          transformPasted(slice: Slice) {
+            slice.content.descendants((node: ProseMirrorNode) => {
+              const src = node.type.name === 'image' ? String(node.attrs.src ?? '') : '';
+              if (src.startsWith('data:image/')) {
+                requestSave(`image.${src.slice(11, src.indexOf(';')).replace('jpeg', 'jpg').replace('+xml', '')}`, src);
+              }
+            });
+            return slice;
+          },
+        },
+      }),
+    ];
+  },
+});
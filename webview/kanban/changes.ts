@@ -0,0 +1,258 @@
+/**
+ * Card Changes
+ *
+ * Highlights what an outside edit to the file (an AI agent, usually) did to
+ * the board: cards added, moved to another column, edited or removed. Each
+ * change can be accepted, which keeps it, or rejected, which puts the card
+ * back the way it was. Follows the pmtoolkit.diff.aiDiffMode setting: in
+ * cursor mode changes are only highlighted; claude-code mode adds the
+ * accept/reject controls.
+ */
+
+import type { KanbanBoard, KanbanCard } from './parser';
+import { getCardTitle, updateCard, deleteCard } from './parser';
+import { matchCards, getPlaces, getColumnPath } from './merge';
+
+export type CardChangeType = 'added' | 'moved' | 'edited' | 'removed';
+
+export interface CardChange {
+  type: CardChangeType;
+  cardId: string; // The card on the board; for removed cards, the id it had
+  edited: boolean; // Text, description or done state changed (moved cards can be both)
+  previous?: {
+    card: KanbanCard;
+    column: string; // Lane and column title, see getColumnPath
+    index: number;
+  }; // The card before the change; absent for added cards
+}
+
+export interface CardChangeCallbacks {
+  onAccept: (change: CardChange) => void;
+  onReject: (change: CardChange) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+}
+
+/**
+ * Card changes from one version of a board to the next. Cards of the new
+ * version should carry the ids used on screen (see keepIds).
+ */
+export function diffBoards(before: KanbanBoard, after: KanbanBoard): CardChange[] {
+  const matches = matchCards(before, after);
+  const beforePlaces = getPlaces(before, before);
+  const afterPlaces = getPlaces(after, before);
+  const matched = new Set(matches.values());
+  const changes: CardChange[] = [];
+
+  for (const column of before.columns) {
+    const path = getColumnPath(before, column);
+    column.cards.forEach((card, index) => {
+      const previous = { card: { ...card }, column: path, index };
+      const next = matches.get(card);
+      if (!next) {
+        changes.push({ type: 'removed', cardId: card.id, edited: false, previous });
+        return;
+      }
+      const moved = beforePlaces.get(card)!.column !== afterPlaces.get(next)!.column;
+      const edited =
+        card.text !== next.text || card.description !== next.description || card.completed !== next.completed;
+      if (moved || edited) {
+        changes.push({ type: moved ? 'moved' : 'edited', cardId: next.id, edited, previous });
+      }
+    });
+  }
+
+  for (const card of after.columns.flatMap((column) => column.cards)) {
+    if (!matched.has(card)) {
+      changes.push({ type: 'added', cardId: card.id, edited: false });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Drop changes to cards that have since been deleted from the board
+ */
+export function pruneChanges(board: KanbanBoard, changes: CardChange[]): CardChange[] {
+  const ids = new Set(board.columns.flatMap((column) => column.cards.map((card) => card.id)));
+  return changes.filter((change) => change.type === 'removed' || ids.has(change.cardId));
+}
+
+/**
+ * Undo a change: remove an added card, or restore the card as it was
+ */
+export function rejectChange(board: KanbanBoard, change: CardChange): KanbanBoard {
+  if (change.type === 'added' || !change.previous) {
+    return deleteCard(board, change.cardId);
+  }
+
+  const { card: previous, column: path, index } = change.previous;
+  const column = board.columns.find((c) => getColumnPath(board, c) === path);
+
+  if (change.type === 'removed') {
+    const target = column ?? board.columns[0];
+    target?.cards.splice(Math.min(index, target.cards.length), 0, { ...previous });
+    return board;
+  }
+
+  const from = board.columns.find((c) => c.cards.some((card) => card.id === change.cardId));
+  const card = from?.cards.find((c) => c.id === change.cardId);
+  if (!from || !card) return board;
+
+  if (change.edited) {
+    updateCard(board, card.id, { text: previous.text, description: previous.description });
+    card.completed = previous.completed;
+  }
+  if (change.type === 'moved' && column && column !== from) {
+    from.cards.splice(from.cards.indexOf(card), 1);
+    column.cards.splice(Math.min(index, column.cards.length), 0, card);
+  }
+  return board;
+}
+
+/**
+ * Reject several changes, restoring removed and moved cards in board order so
+ * their positions come out as before
+ */
+export function rejectChanges(board: KanbanBoard, changes: CardChange[]): KanbanBoard {
+  const sorted = [...changes].sort((a, b) => (a.previous?.index ?? 0) - (b.previous?.index ?? 0));
+  for (const change of sorted) {
+    board = rejectChange(board, change);
+  }
+  return board;
+}
+
+function describeChange(change: CardChange): string {
+  const from = change.previous?.column.split('\n').pop();
+  switch (change.type) {
+    case 'added':
+      return 'Added';
+    case 'removed':
+      return 'Removed';
+    case 'moved':
+      return change.edited ? `Moved from ${from}, edited` : `Moved from ${from}`;
+    case 'edited':
+      return 'Edited';
+  }
+}
+
+function renderChangeControls(change: CardChange, title: string, callbacks: CardChangeCallbacks): HTMLElement[] {
+  const acceptBtn = document.createElement('button');
+  acceptBtn.className = 'card-change-accept';
+  acceptBtn.textContent = 'Accept';
+  acceptBtn.setAttribute('aria-label', `Accept change to ${title}`);
+  acceptBtn.addEventListener('click', (e) => {
+    e.stopPropagation();
+    callbacks.onAccept(change);
+  });
+
+  const rejectBtn = document.createElement('button');
+  rejectBtn.className = 'card-change-reject';
+  rejectBtn.textContent = 'Reject';
+  rejectBtn.setAttribute('aria-label', `Reject change to ${title}`);
+  rejectBtn.addEventListener('click', (e) => {
+    e.stopPropagation();
+    callbacks.onReject(change);
+  });
+
+  return [acceptBtn, rejectBtn];
+}
+
+/**
+ * Badge changed cards on the rendered board and show removed cards where they
+ * were, struck through
+ */
+export function renderCardChanges(
+  container: HTMLElement,
+  board: KanbanBoard,
+  changes: CardChange[],
+  callbacks: CardChangeCallbacks,
+  showControls: boolean
+): void {
+  const cards = board.columns.flatMap((column) => column.cards);
+  for (const change of changes) {
+    const card = cards.find((c) => c.id === change.cardId) ?? change.previous?.card;
+    const title = card ? getCardTitle(card.text) || card.text : '';
+
+    const badgeEl = document.createElement('div');
+    badgeEl.className = 'card-change';
+    const labelEl = document.createElement('span');
+    labelEl.className = 'card-change-label';
+    labelEl.textContent = describeChange(change);
+    badgeEl.appendChild(labelEl);
+    if (showControls) {
+      badgeEl.append(...renderChangeControls(change, title, callbacks));
+    }
+
+    if (change.type === 'removed') {
+      const column = board.columns.find((c) => getColumnPath(board, c) === change.previous!.column) ?? board.columns[0];
+      const cardsEl = column && container.querySelector(`.kanban-column[data-column-id="${column.id}"] .column-cards`);
+      if (!cardsEl) continue;
+
+      const ghostEl = document.createElement('div');
+      ghostEl.className = 'kanban-card-ghost card-change-removed';
+      const titleEl = document.createElement('span');
+      titleEl.className = 'card-title';
+      titleEl.textContent = title;
+      ghostEl.appendChild(titleEl);
+      ghostEl.appendChild(badgeEl);
+
+      const cardEls = cardsEl.querySelectorAll('.kanban-card');
+      cardsEl.insertBefore(ghostEl, cardEls[change.previous!.index] ?? null);
+      continue;
+    }
+
+    const cardEl = container.querySelector(`.kanban-card[data-card-id="${change.cardId}"]`);
+    if (!cardEl) continue;
+    cardEl.classList.add(`card-change-${change.type}`);
+    if (change.edited && change.previous) {
+      badgeEl.title = `Was: ${change.previous.card.text}`;
+    }
+    (cardEl.querySelector('.card-content') ?? cardEl).appendChild(badgeEl);
+  }
+}
+
+/**
+ * Bar under the toolbar counting the changes, with accept all / reject all,
+ * or just a dismiss button when changes are only highlighted
+ */
+export function renderChangesBar(
+  container: HTMLElement,
+  changes: CardChange[],
+  callbacks: CardChangeCallbacks,
+  showControls: boolean
+): void {
+  container.querySelector('.card-changes-bar')?.remove();
+  if (changes.length === 0) return;
+
+  const barEl = document.createElement('div');
+  barEl.className = 'card-changes-bar';
+  barEl.setAttribute('role', 'status');
+
+  const countEl = document.createElement('span');
+  countEl.className = 'card-changes-count';
+  countEl.textContent = `${changes.length} card${changes.length !== 1 ? 's' : ''} changed in the file`;
+  barEl.appendChild(countEl);
+
+  if (showControls) {
+    const acceptBtn = document.createElement('button');
+    acceptBtn.className = 'card-change-accept';
+    acceptBtn.textContent = 'Accept All';
+    acceptBtn.addEventListener('click', () => callbacks.onAcceptAll());
+
+    const rejectBtn = document.createElement('button');
+    rejectBtn.className = 'card-change-reject';
+    rejectBtn.textContent = 'Reject All';
+    rejectBtn.addEventListener('click', () => callbacks.onRejectAll());
+
+    barEl.appendChild(acceptBtn);
+    barEl.appendChild(rejectBtn);
+  } else {
+    const dismissBtn = document.createElement('button');
+    dismissBtn.className = 'card-change-reject';
+    dismissBtn.textContent = 'Dismiss';
+    dismissBtn.addEventListener('click', () => callbacks.onAcceptAll());
+    barEl.appendChild(dismissBtn);
+  }
+  container.appendChild(barEl);
+}
@@ -0,0 +1,200 @@
+/**
+ * Card Dates
+ *
+ * Date math for the calendar and timeline views. Cards carry start:YYYY-MM-DD
+ * and due:YYYY-MM-DD tokens; a card's span runs from its start to its due
+ * date, and a card with only one of them spans that single day. Dates are
+ * plain ISO strings in local time, so day arithmetic never crosses time zones.
+ */
+
+import type { CardMetadata, KanbanBoard, KanbanCard } from './parser';
+
+export interface CardSpan {
+  start: string; // First day, YYYY-MM-DD
+  end: string; // Last day, YYYY-MM-DD (same as start for one-day cards)
+}
+
+export interface DatedCard {
+  card: KanbanCard;
+  span: CardSpan;
+}
+
+/**
+ * Format a local date as YYYY-MM-DD
+ */
+export function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Today's date as YYYY-MM-DD in local time
+ */
+export function todayIso(): string {
+  return toIsoDate(new Date());
+}
+
+function parseIsoDate(iso: string): Date {
+  const [year, month, day] = iso.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Add (or with a negative count, subtract) days from a date
+ */
+export function addDays(iso: string, days: number): string {
+  const date = parseIsoDate(iso);
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+}
+
+/**
+ * Whole days from one date to another; negative when `to` is earlier
+ */
+export function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86_400_000);
+}
+
+/**
+ * Days a card covers, or undefined for cards without dates.
+ * A start after the due date is read as a one-day card on the start date.
+ */
+export function getCardSpan(metadata: CardMetadata): CardSpan | undefined {
+  const start = metadata.start ?? metadata.due;
+  const end = metadata.due ?? metadata.start;
+  if (!start || !end) return undefined;
+  return { start, end: end < start ? start : end };
+}
+
+/**
+ * Split the board's cards into dated cards (by start date, then board order)
+ * and undated cards (board order)
+ */
+export function partitionCardsByDate(board: KanbanBoard): { dated: DatedCard[]; undated: KanbanCard[] } {
+  const dated: DatedCard[] = [];
+  const undated: KanbanCard[] = [];
+  for (const card of board.columns.flatMap((column) => column.cards)) {
+    const span = getCardSpan(card.metadata);
+    if (span) {
+      dated.push({ card, span });
+    } else {
+      undated.push(card);
+    }
+  }
+  // Array.prototype.sort is stable, so equal starts keep board order
+  dated.sort((a, b) => a.span.start.localeCompare(b.span.start));
+  return { dated, undated };
+}
+
+/**
+ * Move a card's dates by a number of days, keeping its length
+ */
+export function shiftCardDates(metadata: CardMetadata, days: number): CardMetadata {
+  return {
+    ...metadata,
+    start: metadata.start && addDays(metadata.start, days),
+    due: metadata.due && addDays(metadata.due, days),
+  };
+}
+
+/**
+ * Set a card's span. One-day spans are written as a due date alone; longer
+ * spans get both tokens. An end before the start is clamped to the start.
+ */
+export function setCardSpan(metadata: CardMetadata, start: string, end: string): CardMetadata {
+  const due = end < start ? start : end;
+  return { ...metadata, start: start !== due ? start : undefined, due };
+}
+
+/**
+ * Drag one edge of a card's span to a new day, keeping the other edge
+ */
+export function resizeCardSpan(metadata: CardMetadata, edge: 'start' | 'end', date: string): CardMetadata {
+  const span = getCardSpan(metadata);
+  if (!span) return setCardSpan(metadata, date, date);
+  return edge === 'start'
+    ? setCardSpan(metadata, date > span.end ? span.end : date, span.end)
+    : setCardSpan(metadata, span.start, date);
+}
+
+/**
+ * Dates after dragging a card's bar by a number of days: the whole bar, or
+ * just its start or end edge
+ */
+export function dragCardDates(metadata: CardMetadata, edge: 'start' | 'end' | undefined, days: number): CardMetadata {
+  const span = getCardSpan(metadata);
+  if (!span || days === 0) return metadata;
+  if (!edge) return shiftCardDates(metadata, days);
+  return resizeCardSpan(metadata, edge, addDays(edge === 'start' ? span.start : span.end, days));
+}
+
+/**
+ * Remove both date tokens from a card
+ */
+export function clearCardDates(metadata: CardMetadata): CardMetadata {
+  return { ...metadata, start: undefined, due: undefined };
+}
+
+/**
+ * Days shown in a month calendar: whole weeks from the Sunday on or before
+ * the 1st to the Saturday on or after the last day. Month is YYYY-MM.
+ */
+export function getMonthWeeks(month: string): string[][] {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const first = new Date(year, monthNumber - 1, 1);
+  const last = new Date(year, monthNumber, 0);
+
+  let day = addDays(toIsoDate(first), -first.getDay());
+  const end = addDays(toIsoDate(last), 6 - last.getDay());
+
+  const weeks: string[][] = [];
+  while (day <= end) {
+    const week: string[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push(day);
+      day = addDays(day, 1);
+    }
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+/**
+ * Step a YYYY-MM month forward or back
+ */
+export function addMonths(month: string, count: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return toIsoDate(new Date(year, monthNumber - 1 + count, 1)).slice(0, 7);
+}
+
+/**
+ * How far from today the timeline reaches, in days each way. Cards dated
+ * beyond it (often a mistyped year) are listed apart instead of stretching
+ * the grid.
+ */
+export const TIMELINE_WINDOW_DAYS = 366;
+
+/**
+ * Whether a span lies wholly within the timeline's window around today
+ */
+export function isInTimelineWindow(span: CardSpan, today: string): boolean {
+  return (
+    daysBetween(today, span.start) >= -TIMELINE_WINDOW_DAYS && daysBetween(today, span.end) <= TIMELINE_WINDOW_DAYS
+  );
+}
+
+/**
+ * Days the timeline shows: today and every card span within the window, with
+ * a few days of margin before and at least four weeks in total
+ */
+export function getTimelineRange(spans: CardSpan[], today: string): CardSpan {
+  const shown = spans.filter((span) => isInTimelineWindow(span, today));
+  const starts = [today, ...shown.map((span) => span.start)].sort();
+  const ends = [today, ...shown.map((span) => span.end)].sort();
+  const start = addDays(starts[0], -3);
+  const end = addDays(ends[ends.length - 1], 7);
+  return { start, end: daysBetween(start, end) < 27 ? addDays(start, 27) : end };
+}
@@ -4,7 +4,7 @@
  * Uses @dnd-kit/dom for vanilla JavaScript drag-drop
  */
 
-import { DragDropManager, Draggable, Droppable } from '@dnd-kit/dom';
+import { DragDropManager, Draggable, Droppable, PointerSensor } from '@dnd-kit/dom';
 import type { KanbanBoard } from './parser';
 
 export interface DragEndEvent {
@@ -12,9 +12,29 @@ export interface DragEndEvent {
   fromColumnId: string;
   toColumnId: string;
   toIndex: number;
+  fromLaneId?: string;
+  toLaneId?: string;
+  droppedOnLane?: boolean; // Dropped on a (collapsed) lane header; toColumnId is empty
 }
 
+export interface ColumnDragEndEvent {
+  columnId: string;
+  toColumnId: string;
+  position: 'before' | 'after';
+}
+
+/** Droppable id prefix for lane headers, kept apart from column ids */
+const LANE_DROP_PREFIX = 'lane:';
+
+/** Id prefix for column drag sources and targets, kept apart from card drop zones */
+const COLUMN_DRAG_PREFIX = 'column:';
+
+/** Entity types, so cards only drop on columns and columns only on columns */
+const CARD_TYPE = 'card';
+const COLUMN_TYPE = 'column';
+
 export type OnDragEndCallback = (event: DragEndEvent) => void;
+export type OnColumnDragEndCallback = (event: ColumnDragEndEvent) => void;
 
 /**
  * Manages drag-and-drop for the kanban board
@@ -24,11 +44,14 @@ export class KanbanDragDrop {
   private draggables: Map<string, Draggable> = new Map();
   private droppables: Map<string, Droppable> = new Map();
   private onDragEnd: OnDragEndCallback;
+  private onColumnDragEnd: OnColumnDragEndCallback | undefined;
   private dropIndicator: HTMLElement | null = null;
 
-  constructor(onDragEnd: OnDragEndCallback) {
+  constructor(onDragEnd: OnDragEndCallback, onColumnDragEnd?: OnColumnDragEndCallback) {
     this.onDragEnd = onDragEnd;
-    this.manager = new DragDropManager();
+    this.onColumnDragEnd = onColumnDragEnd;
+    // Pointer only: the board's own shortcuts (see keyboard.ts) own Space/Enter/arrows on cards
+    this.manager = new DragDropManager({ sensors: [PointerSensor] });
 
     // Create drop indicator element
     this.createDropIndicator();
@@ -36,10 +59,17 @@ export class KanbanDragDrop {
     // Track drag movement to show drop indicator
     this.manager.monitor.addEventListener('dragmove', (event) => {
       const { source, target } = event.operation;
-      if (!source || !target) {
+      if (!source || !target || String(target.id).startsWith(LANE_DROP_PREFIX)) {
         this.hideDropIndicator();
         return;
       }
+      if (source.type === COLUMN_TYPE) {
+        this.updateColumnDropIndicator(
+          target.data?.columnId as string,
+          event.operation.position?.current?.x || 0
+        );
+        return;
+      }
       this.updateDropIndicator(target.id as string, event.operation.position?.current?.y || 0);
     });
 
@@ -57,9 +87,40 @@ export class KanbanDragDrop {
         return;
       }
 
+      // Column reorder: drop before or after the target depending on which half the pointer is over
+      if (source.type === COLUMN_TYPE) {
+        const columnId = source.data?.columnId as string;
+        const toColumnId = target.data?.columnId as string;
+        if (!toColumnId || columnId === toColumnId) return;
+
+        this.onColumnDragEnd?.({
+          columnId,
+          toColumnId,
+          position: this.getColumnDropPosition(toColumnId, event.operation.position?.current?.x || 0),
+        });
+        return;
+      }
+
       const cardId = source.id as string;
       const fromColumnId = source.data?.columnId as string;
+      const fromLaneId = source.data?.laneId as string | undefined;
+
+      // Dropped on a lane header: let the board pick the column in that lane
+      if (String(target.id).startsWith(LANE_DROP_PREFIX)) {
+        this.onDragEnd({
+          cardId,
+          fromColumnId,
+          toColumnId: '',
+          toIndex: 0,
+          fromLaneId,
+          toLaneId: target.data?.laneId as string,
+          droppedOnLane: true,
+        });
+        return;
+      }
+
       const toColumnId = target.id as string;
+      const toLaneId = target.data?.laneId as string | undefined;
 
       // Calculate the drop index based on the position
       const targetColumn = document.querySelector(`[data-column-id="${toColumnId}"]`);
@@ -82,6 +143,8 @@ export class KanbanDragDrop {
         fromColumnId,
         toColumnId,
         toIndex,
+        fromLaneId,
+        toLaneId,
       });
     });
   }
@@ -89,7 +152,7 @@ export class KanbanDragDrop {
   /**
    * Register a card as draggable
    */
-  registerCard(element: HTMLElement, cardId: string, columnId: string): void {
+  registerCard(element: HTMLElement, cardId: string, columnId: string, laneId?: string): void {
     // Clean up existing if present
     this.unregisterCard(cardId);
 
@@ -97,7 +160,8 @@ export class KanbanDragDrop {
       {
         id: cardId,
         element,
-        data: { columnId },
+        type: CARD_TYPE,
+        data: { columnId, laneId },
       },
       this.manager
     );
@@ -119,7 +183,7 @@ export class KanbanDragDrop {
   /**
    * Register a column as a drop target
    */
-  registerColumn(element: HTMLElement, columnId: string): void {
+  registerColumn(element: HTMLElement, columnId: string, laneId?: string): void {
     // Clean up existing if present
     this.unregisterColumn(columnId);
 
@@ -127,6 +191,8 @@ export class KanbanDragDrop {
       {
         id: columnId,
         element,
+        accept: CARD_TYPE,
+        data: { laneId },
       },
       this.manager
     );
@@ -134,6 +200,58 @@ export class KanbanDragDrop {
     this.droppables.set(columnId, droppable);
   }
 
+  /**
+   * Register a lane header as a drop target (for moving cards into collapsed lanes)
+   */
+  registerLane(element: HTMLElement, laneId: string): void {
+    const id = `${LANE_DROP_PREFIX}${laneId}`;
+    this.unregisterColumn(id);
+
+    const droppable = new Droppable(
+      {
+        id,
+        element,
+        accept: CARD_TYPE,
+        data: { laneId },
+      },
+      this.manager
+    );
+
+    this.droppables.set(id, droppable);
+  }
+
+  /**
+   * Make a whole column draggable by its header, and a target for other columns
+   */
+  registerColumnDrag(element: HTMLElement, handle: HTMLElement, columnId: string): void {
+    const id = `${COLUMN_DRAG_PREFIX}${columnId}`;
+    this.unregisterCard(id);
+    this.unregisterColumn(id);
+
+    const draggable = new Draggable(
+      {
+        id,
+        element,
+        handle,
+        type: COLUMN_TYPE,
+        data: { columnId },
+      },
+      this.manager
+    );
+    this.draggables.set(id, draggable);
+
+    const droppable = new Droppable(
+      {
+        id,
+        element,
+        accept: COLUMN_TYPE,
+        data: { columnId },
+      },
+      this.manager
+    );
+    this.droppables.set(id, droppable);
+  }
+
   /**
    * Unregister a column
    */
@@ -190,6 +308,40 @@ export class KanbanDragDrop {
     this.dropIndicator.style.left = `${containerRect.left}px`;
     this.dropIndicator.style.top = `${insertY}px`;
     this.dropIndicator.style.width = `${containerRect.width}px`;
+    this.dropIndicator.style.height = '';
+  }
+
+  /**
+   * Which side of the target column a column drop at x lands on
+   */
+  private getColumnDropPosition(columnId: string, x: number): 'before' | 'after' {
+    const columnEl = document.querySelector(`.kanban-column[data-column-id="${columnId}"]`);
+    if (!columnEl) return 'after';
+    const rect = columnEl.getBoundingClientRect();
+    return x < rect.left + rect.width / 2 ? 'before' : 'after';
+  }
+
+  /**
+   * Show a vertical drop indicator beside the target column
+   */
+  private updateColumnDropIndicator(columnId: string, x: number): void {
+    if (!this.dropIndicator) return;
+
+    const columnEl = document.querySelector(`.kanban-column[data-column-id="${columnId}"]`);
+    if (!columnEl) {
+      this.hideDropIndicator();
+      return;
+    }
+
+    const rect = columnEl.getBoundingClientRect();
+    const edge = this.getColumnDropPosition(columnId, x) === 'before' ? rect.left - 9 : rect.right + 7;
+
+    this.dropIndicator.style.display = 'block';
+    this.dropIndicator.style.position = 'fixed';
+    this.dropIndicator.style.left = `${edge}px`;
+    this.dropIndicator.style.top = `${rect.top}px`;
+    this.dropIndicator.style.width = '2px';
+    this.dropIndicator.style.height = `${rect.height}px`;
   }
 
   /**
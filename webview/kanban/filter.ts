@@ -0,0 +1,109 @@
+/**
+ * Board Filtering
+ *
+ * Parses filter queries and matches cards against them. A query is free text
+ * plus optional tokens, the same syntax saved views use in the board preamble:
+ *
+ * login #bug @alice !high is:open
+ */
+
+import type { KanbanCard, CardPriority } from './parser';
+import { getCardTitle } from './parser';
+
+export type FilterStatus = 'all' | 'open' | 'done';
+
+export interface CardFilter {
+  text: string[]; // Free-text words, all must match
+  status: FilterStatus;
+  tags: string[];
+  assignees: string[];
+  priority?: CardPriority;
+}
+
+/**
+ * Parse a filter query string
+ */
+export function parseFilterQuery(query: string): CardFilter {
+  const filter: CardFilter = { text: [], status: 'all', tags: [], assignees: [] };
+
+  for (const word of query.split(/\s+/).filter(Boolean)) {
+    const lower = word.toLowerCase();
+    if (lower === 'is:open') {
+      filter.status = 'open';
+    } else if (lower === 'is:done') {
+      filter.status = 'done';
+    } else if (/^@[\w.-]+$/.test(word)) {
+      filter.assignees.push(word.slice(1));
+    } else if (/^#[A-Za-z][\w/-]*$/.test(word)) {
+      filter.tags.push(word.slice(1));
+    } else if (/^!(low|medium|high)$/i.test(word)) {
+      filter.priority = lower.slice(1) as CardPriority;
+    } else {
+      filter.text.push(word);
+    }
+  }
+
+  return filter;
+}
+
+/**
+ * Format a filter back into a query string
+ */
+export function formatFilterQuery(filter: CardFilter): string {
+  return [
+    ...filter.text,
+    ...filter.tags.map((tag) => `#${tag}`),
+    ...filter.assignees.map((name) => `@${name}`),
+    ...(filter.priority ? [`!${filter.priority}`] : []),
+    ...(filter.status !== 'all' ? [`is:${filter.status}`] : []),
+  ].join(' ');
+}
+
+/**
+ * Whether the filter narrows the board at all
+ */
+export function isFilterActive(filter: CardFilter): boolean {
+  return (
+    filter.text.length > 0 ||
+    filter.status !== 'all' ||
+    filter.tags.length > 0 ||
+    filter.assignees.length > 0 ||
+    filter.priority !== undefined
+  );
+}
+
+/**
+ * Check whether a card matches every part of the filter
+ */
+export function matchesFilter(card: KanbanCard, filter: CardFilter): boolean {
+  if (filter.status === 'open' && card.completed) return false;
+  if (filter.status === 'done' && !card.completed) return false;
+
+  const { metadata } = card;
+  const lowerTags = metadata.tags.map((tag) => tag.toLowerCase());
+  if (!filter.tags.every((tag) => lowerTags.includes(tag.toLowerCase()))) return false;
+
+  const lowerAssignees = metadata.assignees.map((name) => name.toLowerCase());
+  if (!filter.assignees.every((name) => lowerAssignees.includes(name.toLowerCase()))) return false;
+
+  if (filter.priority && metadata.priority !== filter.priority) return false;
+
+  const haystack = `${getCardTitle(card.text)}\n${card.description}\n${metadata.key ?? ''}`.toLowerCase();
+  return filter.text.every((word) => haystack.includes(word.toLowerCase()));
+}
+
+/**
+ * Split text into plain and highlighted segments for the filter's free-text words
+ */
+export function splitHighlights(text: string, words: string[]): { text: string; match: boolean }[] {
+  const terms = words.filter(Boolean).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  const pattern = new RegExp(`(${terms.join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.some((t) => new RegExp(`^${t}$`, 'i').test(part)) }));
+}
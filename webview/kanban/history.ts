@@ -0,0 +1,108 @@
+/**
+ * Board History
+ *
+ * Undo/redo stack for the kanban webview. Entries are serialized board
+ * markdown, so restoring one is just re-parsing it and every kind of
+ * mutation is covered without per-operation inverses.
+ */
+
+/** Edits closer together than this become a single undo step */
+const COALESCE_MS = 1000;
+
+/** Oldest entries are dropped past this many undo steps */
+const HISTORY_LIMIT = 100;
+
+export class BoardHistory {
+  private undoStack: string[] = [];
+  private redoStack: string[] = [];
+  private current: string;
+  private lastRecordedAt = -Infinity;
+  private now: () => number;
+
+  constructor(snapshot: string, now: () => number = Date.now) {
+    this.current = snapshot;
+    this.now = now;
+  }
+
+  /**
+   * Start over from a new document, dropping all undo/redo steps
+   */
+  reset(snapshot: string): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.current = snapshot;
+    this.lastRecordedAt = -Infinity;
+  }
+
+  /**
+   * Record the board after a local edit
+   */
+  record(snapshot: string): void {
+    if (snapshot === this.current) return;
+
+    const time = this.now();
+    const coalesce = this.undoStack.length > 0 && time - this.lastRecordedAt < COALESCE_MS;
+    if (!coalesce) {
+      this.undoStack.push(this.current);
+      if (this.undoStack.length > HISTORY_LIMIT) {
+        this.undoStack.shift();
+      }
+    }
+
+    this.redoStack = [];
+    this.current = snapshot;
+    this.lastRecordedAt = time;
+  }
+
+  /**
+   * Step back; returns the snapshot to restore, or null if there is nothing to undo
+   */
+  undo(): string | null {
+    const previous = this.undoStack.pop();
+    if (previous === undefined) return null;
+
+    this.redoStack.push(this.current);
+    this.current = previous;
+    this.lastRecordedAt = -Infinity;
+    return previous;
+  }
+
+  /**
+   * Step forward again; returns the snapshot to restore, or null if there is nothing to redo
+   */
+  redo(): string | null {
+    const next = this.redoStack.pop();
+    if (next === undefined) return null;
+
+    this.undoStack.push(this.current);
+    this.current = next;
+    this.lastRecordedAt = -Infinity;
+    return next;
+  }
+
+  /**
+   * Follow a change made outside the webview. VS Code's own Edit > Undo/Redo
+   * lands on a snapshot we already hold, so the stacks just shift. Anything
+   * else is an unrelated edit: older snapshots would silently revert it if
+   * restored, so the history starts over from the new content.
+   */
+  syncExternal(snapshot: string): void {
+    if (snapshot === this.current) return;
+
+    if (snapshot === this.undoStack[this.undoStack.length - 1]) {
+      this.undo();
+    } else if (snapshot === this.redoStack[this.redoStack.length - 1]) {
+      this.redo();
+    } else {
+      this.reset(snapshot);
+    }
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Board Keyboard Navigation
+ *
+ * Roving focus over cards, keyboard shortcuts for moving, toggling and
+ * deleting the focused card, and a live region that announces the result
+ * to screen readers
+ */
+
+import { getLaneColumns, type KanbanBoard } from './parser';
+
+export type MoveDirection = 'up' | 'down' | 'left' | 'right';
+
+export interface KeyboardMoveTarget {
+  toColumnId: string;
+  toIndex: number;
+}
+
+export interface KeyboardCallbacks {
+  /** Move a card one step; returns false when it can't move (edge of the board, WIP limit) */
+  onMoveCard: (cardId: string, direction: MoveDirection) => boolean;
+  onToggleCard: (cardId: string) => void;
+  onDeleteCard: (cardId: string) => void;
+  onOpenCard: (cardId: string) => void;
+}
+
+/** Read out by screen readers when a card receives focus */
+export const KEYBOARD_HELP =
+  'Arrow keys move between cards. Alt+arrow keys move the card. ' +
+  'Enter opens it, Space toggles done, Delete removes it.';
+
+const ARROW_DIRECTIONS: Record<string, MoveDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+/**
+ * Work out where a keyboard move puts a card. Up/down reorder within the
+ * column; left/right go to the neighbouring column in the same lane, keeping
+ * the card's position where possible. Returns null at the edges.
+ */
+export function findKeyboardMoveTarget(
+  board: KanbanBoard,
+  cardId: string,
+  direction: MoveDirection
+): KeyboardMoveTarget | null {
+  const column = board.columns.find((c) => c.cards.some((card) => card.id === cardId));
+  if (!column) return null;
+  const index = column.cards.findIndex((card) => card.id === cardId);
+
+  if (direction === 'up' || direction === 'down') {
+    const toIndex = direction === 'up' ? index - 1 : index + 1;
+    if (toIndex < 0 || toIndex >= column.cards.length) return null;
+    return { toColumnId: column.id, toIndex };
+  }
+
+  const siblings = getLaneColumns(board, column.laneId);
+  const target = siblings[siblings.indexOf(column) + (direction === 'left' ? -1 : 1)];
+  if (!target) return null;
+  return { toColumnId: target.id, toIndex: Math.min(index, target.cards.length) };
+}
+
+/**
+ * Keyboard controller for the board container. Created once; the board calls
+ * beforeRender()/afterRender() around each re-render so focus survives it.
+ */
+export class BoardKeyboard {
+  private container: HTMLElement;
+  private callbacks: KeyboardCallbacks;
+  private announcer: HTMLElement;
+  private helpEl: HTMLElement;
+  private focusedCardId: string | null = null;
+  private restoreFocus = false;
+
+  constructor(container: HTMLElement, callbacks: KeyboardCallbacks) {
+    this.container = container;
+    this.callbacks = callbacks;
+
+    container.setAttribute('role', 'region');
+    container.setAttribute('aria-label', 'Kanban board');
+
+    this.announcer = document.createElement('div');
+    this.announcer.className = 'sr-only';
+    this.announcer.setAttribute('role', 'status');
+    this.announcer.setAttribute('aria-live', 'polite');
+    document.body.appendChild(this.announcer);
+
+    this.helpEl = document.createElement('div');
+    this.helpEl.id = 'kanban-keyboard-help';
+    this.helpEl.className = 'sr-only';
+    this.helpEl.textContent = KEYBOARD_HELP;
+    document.body.appendChild(this.helpEl);
+
+    container.addEventListener('keydown', (e) => this.handleKeydown(e));
+    container.addEventListener('focusin', (e) => {
+      const cardEl = (e.target as HTMLElement).closest?.('.kanban-card') as HTMLElement | null;
+      if (cardEl?.dataset.cardId) {
+        this.setFocusedCard(cardEl.dataset.cardId);
+      }
+    });
+  }
+
+  /**
+   * Remember whether a card had focus, since re-rendering replaces it
+   */
+  beforeRender(): void {
+    const active = document.activeElement as HTMLElement | null;
+    this.restoreFocus = !!active?.classList.contains('kanban-card') && this.container.contains(active);
+  }
+
+  /**
+   * Label the fresh card elements and put focus back on the tracked card
+   */
+  afterRender(): void {
+    this.container.querySelectorAll('.kanban-column').forEach((columnEl) => {
+      const title = columnEl.querySelector('.column-title')?.textContent ?? '';
+      const cardsEl = columnEl.querySelector('.column-cards');
+      cardsEl?.setAttribute('role', 'list');
+      cardsEl?.setAttribute('aria-label', title);
+
+      const cardEls = this.getCards(columnEl);
+      cardEls.forEach((cardEl, i) => {
+        cardEl.setAttribute('role', 'listitem');
+        cardEl.setAttribute('aria-describedby', this.helpEl.id);
+        cardEl.setAttribute('aria-label', this.describeCard(cardEl, title, i, cardEls.length));
+        cardEl.querySelectorAll('input, button').forEach((el) => {
+          // Shortcuts cover these, so keep Tab moving between cards and columns
+          (el as HTMLElement).tabIndex = -1;
+        });
+      });
+    });
+
+    if (!this.findCard(this.focusedCardId)) {
+      this.focusedCardId = null;
+    }
+    this.updateTabStops();
+
+    if (this.restoreFocus && this.focusedCardId) {
+      this.findCard(this.focusedCardId)?.focus();
+    }
+    this.restoreFocus = false;
+  }
+
+  /**
+   * Announce a message through the live region
+   */
+  announce(message: string): void {
+    // Clear first so repeating the same message is still read out
+    this.announcer.textContent = '';
+    requestAnimationFrame(() => {
+      this.announcer.textContent = message;
+    });
+  }
+
+  private handleKeydown(e: KeyboardEvent): void {
+    const cardEl = e.target as HTMLElement;
+    // Only act on the card itself, not on inputs opened inside the board
+    if (!cardEl.classList?.contains('kanban-card')) return;
+    const cardId = cardEl.dataset.cardId;
+    if (!cardId) return;
+
+    const direction = ARROW_DIRECTIONS[e.key];
+    if (direction) {
+      e.preventDefault();
+      if (e.altKey) {
+        this.moveCard(cardEl, cardId, direction);
+      } else {
+        this.moveFocus(cardEl, direction);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'Enter':
+        e.preventDefault();
+        this.callbacks.onOpenCard(cardId);
+        break;
+      case ' ': {
+        e.preventDefault();
+        const wasDone = cardEl.classList.contains('completed');
+        this.callbacks.onToggleCard(cardId);
+        this.announce(`${this.getTitle(cardEl)} marked ${wasDone ? 'not done' : 'done'}`);
+        break;
+      }
+      case 'Delete':
+      case 'Backspace': {
+        e.preventDefault();
+        const cards = this.getCards(cardEl.closest('.kanban-column')!);
+        const index = cards.indexOf(cardEl);
+        const neighbour = cards[index + 1] ?? cards[index - 1];
+        const title = this.getTitle(cardEl);
+        this.focusedCardId = neighbour?.dataset.cardId ?? null;
+        this.callbacks.onDeleteCard(cardId);
+        this.announce(`${title} deleted`);
+        break;
+      }
+      case 'Home':
+      case 'End': {
+        e.preventDefault();
+        const cards = this.getCards(cardEl.closest('.kanban-column')!);
+        this.focusCard(e.key === 'Home' ? cards[0] : cards[cards.length - 1]);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Move focus to the neighbouring visible card
+   */
+  private moveFocus(cardEl: HTMLElement, direction: MoveDirection): void {
+    const columnEl = cardEl.closest('.kanban-column') as HTMLElement;
+    const cards = this.getCards(columnEl);
+    const index = cards.indexOf(cardEl);
+
+    if (direction === 'up' || direction === 'down') {
+      this.focusCard(cards[direction === 'up' ? index - 1 : index + 1]);
+      return;
+    }
+
+    // Left/right stay within the lane row, skipping columns with no visible cards
+    const rowColumns = Array.from(columnEl.parentElement!.children).filter((el) =>
+      el.classList.contains('kanban-column')
+    ) as HTMLElement[];
+    const step = direction === 'left' ? -1 : 1;
+    for (let i = rowColumns.indexOf(columnEl) + step; i >= 0 && i < rowColumns.length; i += step) {
+      const targetCards = this.getCards(rowColumns[i]);
+      if (targetCards.length > 0) {
+        this.focusCard(targetCards[Math.min(index, targetCards.length - 1)]);
+        return;
+      }
+    }
+  }
+
+  private moveCard(cardEl: HTMLElement, cardId: string, direction: MoveDirection): void {
+    const title = this.getTitle(cardEl);
+    const moved = this.callbacks.onMoveCard(cardId, direction);
+    if (!moved) return;
+
+    // The board has re-rendered; describe where the card landed
+    const newCardEl = this.findCard(cardId);
+    newCardEl?.focus();
+    const columnEl = newCardEl?.closest('.kanban-column');
+    if (!newCardEl || !columnEl) return;
+    const columnTitle = columnEl.querySelector('.column-title')?.textContent ?? '';
+    const cards = Array.from(columnEl.querySelectorAll('.kanban-card'));
+    this.announce(
+      `${title} moved to ${columnTitle}, position ${cards.indexOf(newCardEl) + 1} of ${cards.length}`
+    );
+  }
+
+  private focusCard(cardEl: HTMLElement | undefined): void {
+    if (!cardEl) return;
+    this.setFocusedCard(cardEl.dataset.cardId!);
+    cardEl.focus();
+    cardEl.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }
+
+  private setFocusedCard(cardId: string): void {
+    this.focusedCardId = cardId;
+    this.updateTabStops();
+  }
+
+  /**
+   * Roving tabindex: only the focused card (or the first card) is a Tab stop
+   */
+  private updateTabStops(): void {
+    const cards = this.getCards(this.container);
+    const active = this.findCard(this.focusedCardId) ?? cards[0];
+    for (const cardEl of cards) {
+      cardEl.tabIndex = cardEl === active ? 0 : -1;
+    }
+  }
+
+  private getCards(root: Element): HTMLElement[] {
+    return Array.from(root.querySelectorAll('.kanban-card:not(.filter-hidden)')) as HTMLElement[];
+  }
+
+  private findCard(cardId: string | null): HTMLElement | null {
+    if (!cardId) return null;
+    return this.container.querySelector(`.kanban-card[data-card-id="${cardId}"]`);
+  }
+
+  private getTitle(cardEl: HTMLElement): string {
+    return cardEl.querySelector('.card-title')?.textContent ?? '';
+  }
+
+  private describeCard(cardEl: HTMLElement, columnTitle: string, index: number, total: number): string {
+    const done = cardEl.classList.contains('completed') ? ', done' : '';
+    return `${this.getTitle(cardEl)}${done}. ${columnTitle}, card ${index + 1} of ${total}`;
+  }
+}
@@ -13,12 +13,56 @@ import {
   updateCard,
   deleteCard,
   updateColumnSettings,
+  updateBoardSettings,
+  wouldExceedWipLimit,
+  findLaneDropColumn,
+  addColumn,
+  renameColumn,
+  moveColumn,
+  deleteColumn,
+  assignCardKey,
+  findCardByKey,
+  findCardAt,
+  toggleSubtask,
+  getCardTitle,
   type KanbanBoard,
+  type KanbanCard,
   type ColumnSettings,
 } from './parser';
-import { KanbanDragDrop, type DragEndEvent } from './dnd';
-import { renderBoard, showAddCardInput, type UICallbacks } from './ui';
+import { KanbanDragDrop, type DragEndEvent, type ColumnDragEndEvent } from './dnd';
+import {
+  renderBoard,
+  showAddCardInput,
+  showColumnTitleInput,
+  showWipLimitBlocked,
+  openCardDetails,
+  revealCardElement,
+  showCardModal,
+  showBoardNotice,
+  type UICallbacks,
+} from './ui';
 import { hideColumnMenu } from './menu';
+import { getOpenCardId, closeCardModal } from './modal';
+import { takePendingImage } from './cardImages';
+import { mergeBoards, keepIds } from './merge';
+import {
+  diffBoards,
+  pruneChanges,
+  rejectChange,
+  rejectChanges,
+  renderCardChanges,
+  renderChangesBar,
+  type CardChange,
+  type CardChangeCallbacks,
+} from './changes';
+import { BoardToolbar, type FilterMode, type ViewMode } from './toolbar';
+import { parseFilterQuery, isFilterActive, matchesFilter, type CardFilter } from './filter';
+import { BoardKeyboard, findKeyboardMoveTarget } from './keyboard';
+import { BoardHistory } from './history';
+import { renderTable, type TableSort, type TableGroupBy } from './table';
+import { renderCalendar } from './calendar';
+import { renderTimeline } from './timeline';
+import { getCardSpan, todayIso } from './dates';
 
 // VS Code webview API
 interface VSCodeAPI {
@@ -34,6 +78,26 @@ const vscode = acquireVsCodeApi();
 // Board state
 let board: KanbanBoard | null = null;
 let dnd: KanbanDragDrop | null = null;
+let toolbar: BoardToolbar | null = null;
+let keyboard: BoardKeyboard | null = null;
+let boardHistory: BoardHistory | null = null;
+
+// Webview-only view state, persisted across reloads via vscode.setState
+interface ViewState {
+  collapsedLanes?: string[];
+  filterQuery?: string;
+  filterMode?: FilterMode;
+  viewMode?: ViewMode;
+  tableSort?: TableSort;
+  tableGroupBy?: TableGroupBy;
+  calendarMonth?: string; // YYYY-MM shown in the calendar
+}
+
+const viewState: ViewState = (vscode.getState() as ViewState | undefined) ?? {};
+
+function saveViewState(): void {
+  vscode.setState(viewState);
+}
 
 // Flag to prevent feedback loops
 let isUpdatingFromExtension = false;
@@ -42,27 +106,162 @@ let isUpdatingFromExtension = false;
 let updateTimeout: number | null = null;
 const DEBOUNCE_MS = 150;
 
+// The document's content as last reported by the extension: the common base
+// when merging a change made elsewhere with edits made here
+let documentContent = '';
+// Content sent to the extension that it has not echoed back yet
+let postedContents: string[] = [];
+
+// Cards the last outside change touched, per pmtoolkit.diff.aiDiffMode
+let cardChanges: CardChange[] = [];
+let aiDiffMode = 'off';
+
 /**
  * Send board update to extension
  */
 function sendUpdate(): void {
   if (!board || isUpdatingFromExtension) return;
 
+  // Every local mutation ends here, so this is where undo steps are recorded
+  boardHistory?.record(serializeBoard(board));
+
   if (updateTimeout) {
     clearTimeout(updateTimeout);
   }
 
-  updateTimeout = window.setTimeout(() => {
-    const markdown = serializeBoard(board!);
-    vscode.postMessage({
-      type: 'update',
-      payload: { content: markdown },
-    });
-  }, DEBOUNCE_MS);
+  updateTimeout = window.setTimeout(postUpdate, DEBOUNCE_MS);
+}
+
+function postUpdate(): void {
+  updateTimeout = null;
+  const markdown = serializeBoard(board!);
+  postedContents.push(markdown);
+  vscode.postMessage({
+    type: 'update',
+    payload: { content: markdown },
+  });
+}
+
+/**
+ * Send a debounced update right away, before asking the extension to edit the file
+ */
+function flushUpdate(): void {
+  if (!updateTimeout) return;
+  clearTimeout(updateTimeout);
+  postUpdate();
+}
+
+/**
+ * Restore the board to a snapshot from the undo history
+ */
+function restoreSnapshot(snapshot: string | null | undefined, announcement: string): void {
+  if (snapshot == null) return;
+  board = parseMarkdown(snapshot);
+  cardChanges = [];
+  render();
+  sendUpdate();
+  keyboard?.announce(announcement);
+}
+
+/**
+ * Take in the document's content after a change. Echoes of our own updates
+ * are skipped; a change made elsewhere is merged with any edits made here
+ * since, keeping ids so the open modal and focus stay on their cards.
+ */
+function applyExternalContent(content: string, diffMode?: string): void {
+  if (!board) return;
+
+  const echoIndex = postedContents.indexOf(content);
+  if (echoIndex !== -1) {
+    postedContents = postedContents.slice(echoIndex + 1);
+    documentContent = content;
+    return;
+  }
+
+  const previous = board;
+  const current = serializeBoard(previous);
+  const base = documentContent;
+  documentContent = content;
+  if (content === current) return;
+
+  // Edits not yet in the document: since the last echo, or still debouncing
+  const hasLocalEdits = current !== base;
+  const { board: next, conflicts } = hasLocalEdits
+    ? mergeBoards(parseMarkdown(base), previous, parseMarkdown(content))
+    : { board: parseMarkdown(content), conflicts: [] as string[] };
+  board = keepIds(next, previous);
+
+  // Highlight what the change did, with the ids the cards have on screen
+  if (diffMode && diffMode !== 'off' && !board.settings?.folder) {
+    cardChanges = diffBoards(parseMarkdown(base), keepIds(parseMarkdown(content), board));
+    aiDiffMode = diffMode;
+  } else {
+    cardChanges = [];
+  }
+
+  // The modal keeps its own copy of the card, so tell the user if the file changed it
+  const openCardId = getOpenCardId();
+  if (openCardId) {
+    const before = previous.columns.flatMap((c) => c.cards).find((c) => c.id === openCardId);
+    const after = board.columns.flatMap((c) => c.cards).find((c) => c.id === openCardId);
+    if (!after) {
+      closeCardModal();
+      conflicts.push(getCardTitle(before?.text ?? '') || 'The open card');
+    } else if (before && (before.text !== after.text || before.description !== after.description)) {
+      const title = getCardTitle(after.text) || after.text;
+      if (!conflicts.includes(title)) conflicts.push(title);
+    }
+  }
+
+  isUpdatingFromExtension = true;
+  const merged = serializeBoard(board);
+  boardHistory?.syncExternal(merged);
+  renderKeepingScroll();
+  isUpdatingFromExtension = false;
+
+  // Send the edits made here back on top of the new content
+  if (merged !== content) {
+    if (updateTimeout) clearTimeout(updateTimeout);
+    postUpdate();
+  }
+
+  if (conflicts.length > 0) {
+    showBoardNotice(`Changed in the file while you were editing: ${conflicts.join(', ')}. The file's version was kept.`);
+  }
+}
+
+/**
+ * Re-render without losing the board's or the columns' scroll positions
+ */
+function renderKeepingScroll(): void {
+  const container = document.getElementById('board');
+  const boardScroll = container ? { left: container.scrollLeft, top: container.scrollTop } : null;
+  const windowScroll = { x: window.scrollX, y: window.scrollY };
+  const columnScroll = new Map<string, number>();
+  document.querySelectorAll<HTMLElement>('.kanban-column[data-column-id]').forEach((columnEl) => {
+    const cardsEl = columnEl.querySelector<HTMLElement>('.column-cards');
+    if (cardsEl) columnScroll.set(columnEl.dataset.columnId!, cardsEl.scrollTop);
+  });
+
+  render();
+
+  if (container && boardScroll) {
+    container.scrollLeft = boardScroll.left;
+    container.scrollTop = boardScroll.top;
+  }
+  window.scrollTo(windowScroll.x, windowScroll.y);
+  document.querySelectorAll<HTMLElement>('.kanban-column[data-column-id]').forEach((columnEl) => {
+    const scrollTop = columnScroll.get(columnEl.dataset.columnId!);
+    const cardsEl = columnEl.querySelector<HTMLElement>('.column-cards');
+    if (cardsEl && scrollTop) cardsEl.scrollTop = scrollTop;
+  });
 }
 
+/** Container classes of the views other than the columns board */
+const ALTERNATE_VIEW_CLASSES = ['table-view', 'calendar-view', 'timeline-view'];
+
 /**
- * Re-render the board and set up drag-drop
+ * Re-render the board (or the table, calendar or timeline view) and set up drag-drop
  */
 function render(): void {
   const container = document.getElementById('board');
@@ -70,7 +269,69 @@ function render(): void {
 
   // Close any open menus before re-rendering
   hideColumnMenu();
+  cardChanges = pruneChanges(board, cardChanges);
+
+  // Folder boards hide the controls that add, delete or check off cards
+  container.classList.toggle('folder-board', !!board.settings?.folder);
+
+  const filter = parseFilterQuery(viewState.filterQuery ?? '');
+  if (viewState.viewMode === 'table') {
+    renderTableView(container, filter);
+    updateToolbar();
+    return;
+  }
+  if (viewState.viewMode === 'calendar' || viewState.viewMode === 'timeline') {
+    renderScheduleView(container, filter);
+    updateToolbar();
+    return;
+  }
+  container.classList.remove(...ALTERNATE_VIEW_CLASSES);
+
+  keyboard?.beforeRender();
+  renderBoard(container, board, createUICallbacks(), {
+    collapsedLanes: new Set(viewState.collapsedLanes ?? []),
+    filter,
+    filterMode: viewState.filterMode,
+  });
+  renderCardChanges(container, board, cardChanges, createChangeCallbacks(), aiDiffMode === 'claude-code');
+  keyboard?.afterRender();
+  setupDragDrop();
+  updateToolbar();
+}
+
+/**
+ * Accept or reject the changes an outside edit made to cards. Accepting only
+ * clears the highlight; the file already has the change.
+ */
+function createChangeCallbacks(): CardChangeCallbacks {
+  return {
+    onAccept: (change) => {
+      cardChanges = cardChanges.filter((c) => c !== change);
+      render();
+    },
+    onReject: (change) => {
+      board = rejectChange(board!, change);
+      cardChanges = cardChanges.filter((c) => c !== change);
+      render();
+      sendUpdate();
+    },
+    onAcceptAll: () => {
+      cardChanges = [];
+      render();
+    },
+    onRejectAll: () => {
+      board = rejectChanges(board!, cardChanges);
+      cardChanges = [];
+      render();
+      sendUpdate();
+    },
+  };
+}
 
+/**
+ * Callbacks for the cards, columns and card modal of the board view
+ */
+function createUICallbacks(): UICallbacks {
   const callbacks: UICallbacks = {
     onToggleCard: (cardId) => {
       board = toggleCard(board!, cardId);
@@ -105,15 +366,424 @@ function render(): void {
       render();
       sendUpdate();
     },
+    onCardMetadataChange: (cardId, metadata) => {
+      board = updateCard(board!, cardId, { metadata });
+      render();
+      sendUpdate();
+    },
     onColumnSettingsChange: (columnId, settings) => {
       board = updateColumnSettings(board!, columnId, settings);
       render();
       sendUpdate();
     },
+    onBoardSettingsChange: (settings) => {
+      board = updateBoardSettings(board!, settings);
+      render();
+      sendUpdate();
+    },
+    onToggleLane: (laneTitle) => {
+      const collapsed = new Set(viewState.collapsedLanes ?? []);
+      if (collapsed.has(laneTitle)) {
+        collapsed.delete(laneTitle);
+      } else {
+        collapsed.add(laneTitle);
+      }
+      viewState.collapsedLanes = [...collapsed];
+      saveViewState();
+      render();
+    },
+    onColumnRename: (columnId, title) => {
+      board = renameColumn(board!, columnId, title);
+      render();
+      sendUpdate();
+    },
+    onInsertColumn: (columnId, side) => {
+      const index = board!.columns.findIndex((c) => c.id === columnId);
+      if (index === -1) return;
+      const laneId = board!.columns[index].laneId;
+      insertColumn(side === 'left' ? index : index + 1, laneId);
+    },
+    onDeleteColumn: (columnId, moveCardsTo) => {
+      board = deleteColumn(board!, columnId, moveCardsTo);
+      render();
+      sendUpdate();
+    },
+    onAddColumn: (laneId) => {
+      insertColumn(board!.columns.length, laneId);
+    },
+    onAssignCardKey: (cardId) => {
+      board = assignCardKey(board!, cardId);
+      render();
+      sendUpdate();
+      return board.columns.flatMap((c) => c.cards).find((c) => c.id === cardId)?.text;
+    },
+    onMoveCardToBoard: (cardId) => {
+      const locator = getCardLocator(cardId);
+      if (!locator) return;
+
+      // The extension edits both files, so it must see this board's latest content
+      flushUpdate();
+      vscode.postMessage({ type: 'moveCardToBoard', payload: locator });
+    },
+    onOpenCardInEditor: (cardId) => {
+      const locator = getCardLocator(cardId);
+      if (!locator) return;
+
+      // The tab reads the description from the file, so write this board's edits first
+      flushUpdate();
+      vscode.postMessage({ type: 'openCardInEditor', payload: locator });
+    },
+    onToggleSubtask: (cardId, index) => {
+      board = toggleSubtask(board!, cardId, index);
+      render();
+      sendUpdate();
+      return board.columns.flatMap((c) => c.cards).find((c) => c.id === cardId)?.description;
+    },
   };
+  return board?.settings?.folder ? withFolderCards(callbacks) : callbacks;
+}
 
-  renderBoard(container, board, callbacks);
-  setupDragDrop();
+/**
+ * Callbacks for a folder board, whose cards are markdown files: clicking a
+ * card opens its file, and card edits are refused since the files own them
+ */
+function withFolderCards(callbacks: UICallbacks): UICallbacks {
+  const refuse = () => {
+    keyboard?.announce('Cards on this board are files. Open one to edit it.');
+    render();
+    return undefined;
+  };
+  return {
+    ...callbacks,
+    onToggleCard: refuse,
+    onAddCard: refuse,
+    onDeleteCard: refuse,
+    onCardTextChange: refuse,
+    onCardDescriptionChange: refuse,
+    onCardMetadataChange: refuse,
+    onAssignCardKey: refuse,
+    onToggleSubtask: refuse,
+    onMoveCardToBoard: refuse,
+    onOpenCardInEditor: refuse,
+    onDeleteColumn: (columnId, moveCardsTo) => {
+      if (board!.columns.find((c) => c.id === columnId)?.cards.length) {
+        refuse();
+        return;
+      }
+      callbacks.onDeleteColumn(columnId, moveCardsTo);
+    },
+    onOpenCard: (cardId) => {
+      const locator = getCardLocator(cardId);
+      if (locator) {
+        vscode.postMessage({ type: 'openFolderCard', payload: locator });
+      }
+    },
+  };
+}
+
+/**
+ * Position of a card on the board, for messages that ask the extension to act on it
+ */
+function getCardLocator(cardId: string): { columnIndex: number; cardIndex: number; text: string } | undefined {
+  const columnIndex = board!.columns.findIndex((c) => c.cards.some((card) => card.id === cardId));
+  if (columnIndex === -1) return undefined;
+  const cardIndex = board!.columns[columnIndex].cards.findIndex((card) => card.id === cardId);
+  return { columnIndex, cardIndex, text: board!.columns[columnIndex].cards[cardIndex].text };
+}
+
+/**
+ * Open a card's modal, or on folder boards its file
+ */
+function openCard(card: KanbanCard): void {
+  const callbacks = createUICallbacks();
+  if (callbacks.onOpenCard) {
+    callbacks.onOpenCard(card.id);
+  } else {
+    showCardModal(card, callbacks, board!.settings);
+  }
+}
+
+/**
+ * Move a card to a column. On folder boards the extension sets the status
+ * field of the card's file instead of writing the board; the board comes back
+ * rebuilt once the file is saved.
+ */
+function applyCardMove(cardId: string, toColumnId: string, toIndex: number): void {
+  const folder = board!.settings?.folder;
+  if (folder) {
+    const locator = getCardLocator(cardId);
+    const column = board!.columns.find((c) => c.id === toColumnId);
+    if (locator && column && board!.columns[locator.columnIndex] !== column) {
+      vscode.postMessage({ type: 'moveFolderCard', payload: { ...locator, status: column.title } });
+    }
+  }
+
+  board = moveCard(board!, cardId, toColumnId, toIndex);
+  render();
+  if (!folder) {
+    sendUpdate();
+  }
+}
+
+/**
+ * Switch the container over from the columns board to another view
+ */
+function prepareAlternateView(container: HTMLElement, viewClass: string): void {
+  // The board's drag-drop only knows columns and cards; other views bring their own
+  if (dnd) {
+    dnd.destroy();
+    dnd = null;
+  }
+  container.classList.remove('has-lanes', ...ALTERNATE_VIEW_CLASSES);
+  container.classList.add(viewClass);
+}
+
+/**
+ * Render every card as a sortable, groupable table row with editable cells
+ */
+function renderTableView(container: HTMLElement, filter: CardFilter): void {
+  prepareAlternateView(container, 'table-view');
+
+  const callbacks = createUICallbacks();
+  renderTable(
+    container,
+    board!,
+    {
+      onToggleCard: callbacks.onToggleCard,
+      onCardTextChange: callbacks.onCardTextChange,
+      onCardMetadataChange: callbacks.onCardMetadataChange,
+      onMoveCard: (cardId, columnId) => {
+        const column = board!.columns.find((c) => c.id === columnId);
+        if (!column || column.cards.some((c) => c.id === cardId)) return;
+
+        if (board!.settings?.enforceWip && wouldExceedWipLimit(board!, cardId, columnId)) {
+          keyboard?.announce(`${column.title} is at its WIP limit`);
+          render();
+          return;
+        }
+
+        applyCardMove(cardId, columnId, column.cards.length);
+      },
+      onOpenCard: (cardId) => {
+        const card = board!.columns.flatMap((c) => c.cards).find((c) => c.id === cardId);
+        if (card) {
+          openCard(card);
+        }
+      },
+      onSortChange: (sort) => {
+        viewState.tableSort = sort;
+        saveViewState();
+        render();
+      },
+    },
+    {
+      sort: viewState.tableSort,
+      groupBy: viewState.tableGroupBy,
+      filter,
+      filterMode: viewState.filterMode,
+    }
+  );
+}
+
+/**
+ * Render dated cards on a month calendar or a timeline, with undated cards in a tray
+ */
+function renderScheduleView(container: HTMLElement, filter: CardFilter): void {
+  const callbacks = createUICallbacks();
+  const scheduleCallbacks = {
+    onDatesChange: callbacks.onCardMetadataChange,
+    onOpenCard: (cardId: string) => {
+      const card = board!.columns.flatMap((c) => c.cards).find((c) => c.id === cardId);
+      if (card) {
+        openCard(card);
+      }
+    },
+  };
+  const options = { filter, filterMode: viewState.filterMode };
+
+  if (viewState.viewMode === 'calendar') {
+    prepareAlternateView(container, 'calendar-view');
+    renderCalendar(
+      container,
+      board!,
+      {
+        ...scheduleCallbacks,
+        onMonthChange: (month) => {
+          viewState.calendarMonth = month;
+          saveViewState();
+          render();
+        },
+      },
+      { ...options, month: viewState.calendarMonth }
+    );
+  } else {
+    prepareAlternateView(container, 'timeline-view');
+    renderTimeline(container, board!, scheduleCallbacks, options);
+  }
+}
+
+/**
+ * Add a column and put its title straight into edit mode
+ */
+function insertColumn(index: number, laneId: string | undefined): void {
+  board = addColumn(board!, 'New column', index, laneId);
+  const column = board.columns[index];
+  render();
+  sendUpdate();
+  showColumnTitleInput(column.id, (title) => {
+    board = renameColumn(board!, column.id, title);
+    render();
+    sendUpdate();
+  });
+}
+
+/**
+ * Expand the lane holding a card if it is collapsed, so the card is rendered
+ */
+function expandLaneOf(card: KanbanCard): void {
+  const column = board!.columns.find((c) => c.cards.includes(card));
+  const lane = board!.lanes?.find((l) => l.id === column?.laneId);
+  if (lane && viewState.collapsedLanes?.includes(lane.title)) {
+    viewState.collapsedLanes = viewState.collapsedLanes.filter((title) => title !== lane.title);
+    saveViewState();
+    render();
+  }
+}
+
+/**
+ * Open the modal for the card with the given key, expanding its lane if collapsed
+ */
+function openCardByKey(key: string): void {
+  if (!board) return;
+  const card = findCardByKey(board, key);
+  if (!card) return;
+
+  expandLaneOf(card);
+  if (viewState.viewMode && viewState.viewMode !== 'board') {
+    openCard(card);
+  } else {
+    openCardDetails(card.id);
+  }
+}
+
+/**
+ * Scroll to a card and focus it (from the Tasks view)
+ */
+function revealCard(columnIndex: number, cardIndex: number, text: string): void {
+  if (!board) return;
+  const card = findCardAt(board, columnIndex, cardIndex, text);
+  if (!card) return;
+
+  expandLaneOf(card);
+
+  // The calendar only shows one month; turn to the card's if it is elsewhere
+  const span = getCardSpan(card.metadata);
+  const month = viewState.calendarMonth ?? todayIso().slice(0, 7);
+  if (viewState.viewMode === 'calendar' && span && (span.start.slice(0, 7) > month || span.end.slice(0, 7) < month)) {
+    viewState.calendarMonth = span.start.slice(0, 7);
+    saveViewState();
+    render();
+  }
+  revealCardElement(card.id);
+}
+
+/**
+ * Create the filter toolbar once; later renders only refresh it
+ */
+function setupToolbar(): void {
+  const container = document.getElementById('toolbar');
+  if (!container) return;
+
+  toolbar = new BoardToolbar(container, {
+    onQueryChange: (query) => {
+      viewState.filterQuery = query;
+      saveViewState();
+      render();
+    },
+    onModeChange: (mode) => {
+      viewState.filterMode = mode;
+      saveViewState();
+      render();
+    },
+    onSaveView: (name, query) => {
+      const views = (board!.settings?.views ?? []).filter((v) => v.name !== name);
+      board = updateBoardSettings(board!, { views: [...views, { name, query }] });
+      render();
+      sendUpdate();
+    },
+    onDeleteView: (name) => {
+      const views = (board!.settings?.views ?? []).filter((v) => v.name !== name);
+      board = updateBoardSettings(board!, { views: views.length > 0 ? views : undefined });
+      render();
+      sendUpdate();
+    },
+    onViewModeChange: (viewMode) => {
+      viewState.viewMode = viewMode;
+      saveViewState();
+      render();
+    },
+    onGroupByChange: (groupBy) => {
+      viewState.tableGroupBy = groupBy;
+      saveViewState();
+      render();
+    },
+  });
+}
+
+function updateToolbar(): void {
+  if (!toolbar || !board) return;
+
+  // Every view shows the outside changes still under review
+  const toolbarEl = document.getElementById('toolbar');
+  if (toolbarEl) {
+    renderChangesBar(toolbarEl, cardChanges, createChangeCallbacks(), aiDiffMode === 'claude-code');
+  }
+
+  const query = viewState.filterQuery ?? '';
+  const filter = parseFilterQuery(query);
+  const cards = board.columns.flatMap((c) => c.cards);
+  toolbar.update(board, {
+    query,
+    mode: viewState.filterMode ?? 'dim',
+    matchCount: isFilterActive(filter) ? cards.filter((c) => matchesFilter(c, filter)).length : cards.length,
+    totalCount: cards.length,
+    viewMode: viewState.viewMode ?? 'board',
+    groupBy: viewState.tableGroupBy ?? 'none',
+  });
+}
+
+/**
+ * Create the keyboard controller once; it lives on the board container
+ */
+function setupKeyboard(container: HTMLElement): void {
+  keyboard = new BoardKeyboard(container, {
+    onMoveCard: (cardId, direction) => {
+      if (!board) return false;
+      const target = findKeyboardMoveTarget(board, cardId, direction);
+      if (!target) return false;
+
+      if (board.settings?.enforceWip && wouldExceedWipLimit(board, cardId, target.toColumnId)) {
+        showWipLimitBlocked(target.toColumnId);
+        const column = board.columns.find((c) => c.id === target.toColumnId);
+        keyboard?.announce(`${column?.title} is at its WIP limit`);
+        return false;
+      }
+
+      applyCardMove(cardId, target.toColumnId, target.toIndex);
+      return true;
+    },
+    onToggleCard: (cardId) => {
+      if (!board) return;
+      createUICallbacks().onToggleCard(cardId);
+    },
+    onDeleteCard: (cardId) => {
+      if (!board) return;
+      createUICallbacks().onDeleteCard(cardId);
+    },
+    onOpenCard: (cardId) => {
+      openCardDetails(cardId);
+    },
+  });
 }
 
 /**
@@ -125,33 +795,69 @@ function setupDragDrop(): void {
     dnd.destroy();
   }
 
-  dnd = new KanbanDragDrop((event: DragEndEvent) => {
+  const onColumnDragEnd = (event: ColumnDragEndEvent) => {
     if (!board) return;
-
-    board = moveCard(board, event.cardId, event.toColumnId, event.toIndex);
+    board = moveColumn(board, event.columnId, event.toColumnId, event.position);
     render();
     sendUpdate();
-  });
+  };
+
+  dnd = new KanbanDragDrop((event: DragEndEvent) => {
+    if (!board) return;
+
+    let { toColumnId, toIndex } = event;
+
+    // Dropped on a lane header: append to the matching column in that lane
+    if (event.droppedOnLane && event.toLaneId) {
+      const laneColumn = findLaneDropColumn(board, event.cardId, event.toLaneId);
+      if (!laneColumn) return;
+      toColumnId = laneColumn.id;
+      toIndex = laneColumn.cards.length;
+    }
+
+    // Blocked moves leave the board untouched; flag the full column instead
+    if (board.settings?.enforceWip && wouldExceedWipLimit(board, event.cardId, toColumnId)) {
+      showWipLimitBlocked(toColumnId);
+      return;
+    }
+
+    applyCardMove(event.cardId, toColumnId, toIndex);
+  }, onColumnDragEnd);
 
   // Register all columns as drop targets
   const columnEls = document.querySelectorAll('.kanban-column');
   columnEls.forEach((el) => {
-    const columnId = (el as HTMLElement).dataset.columnId;
+    const { columnId, laneId } = (el as HTMLElement).dataset;
     if (columnId) {
       const cardsContainer = el.querySelector('.column-cards') as HTMLElement;
       if (cardsContainer) {
-        dnd!.registerColumn(cardsContainer, columnId);
+        dnd!.registerColumn(cardsContainer, columnId, laneId);
+      }
+      const headerEl = el.querySelector('.column-header') as HTMLElement | null;
+      if (headerEl) {
+        dnd!.registerColumnDrag(el as HTMLElement, headerEl, columnId);
       }
     }
   });
 
+  // Register lane headers so cards can be dropped into collapsed lanes
+  const laneEls = document.querySelectorAll('.kanban-lane[data-lane-id]');
+  laneEls.forEach((el) => {
+    const laneId = (el as HTMLElement).dataset.laneId;
+    const headerEl = el.querySelector('.lane-header') as HTMLElement | null;
+    if (laneId && headerEl) {
+      dnd!.registerLane(headerEl, laneId);
+    }
+  });
+
   // Register all cards as draggable
   const cardEls = document.querySelectorAll('.kanban-card');
   cardEls.forEach((el) => {
     const cardId = (el as HTMLElement).dataset.cardId;
     const columnId = (el as HTMLElement).dataset.columnId;
     if (cardId && columnId) {
-      dnd!.registerCard(el as HTMLElement, cardId, columnId);
+      const laneId = (el.closest('.kanban-column') as HTMLElement | null)?.dataset.laneId;
+      dnd!.registerCard(el as HTMLElement, cardId, columnId, laneId);
     }
   });
 }
@@ -169,10 +875,62 @@ function init(): void {
   // Show loading state
   container.innerHTML = '<p class="loading">Loading board...</p>';
 
+  setupToolbar();
+  setupKeyboard(container);
+
+  // Cmd/Ctrl+F focuses the filter bar
+  document.addEventListener('keydown', (e) => {
+    if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'f' && toolbar) {
+      // Leave find inside the card modal alone
+      if ((e.target as HTMLElement).closest?.('.card-modal-overlay')) return;
+      e.preventDefault();
+      toolbar.focus();
+    }
+  });
+
+  // Cmd/Ctrl+Z undoes board edits; Shift+Cmd/Ctrl+Z (or Ctrl+Y) redoes them
+  document.addEventListener('keydown', (e) => {
+    if (!(e.metaKey || e.ctrlKey)) return;
+    const key = e.key.toLowerCase();
+    const isUndo = key === 'z' && !e.shiftKey;
+    const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey);
+    if (!isUndo && !isRedo) return;
+
+    // Text fields and the card modal's editor keep their own undo
+    const target = e.target as HTMLElement;
+    if (target.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+    if (document.querySelector('.card-modal-overlay')) return;
+
+    e.preventDefault();
+    if (isUndo) {
+      restoreSnapshot(boardHistory?.undo(), 'Undone');
+    } else {
+      restoreSnapshot(boardHistory?.redo(), 'Redone');
+    }
+  });
+
   // Signal ready to extension
   vscode.postMessage({ type: 'ready' });
 }
 
+/**
+ * Point cards holding an image's data at the file it was saved to
+ */
+function replaceImageData(dataUrl: string, imagePath: string): void {
+  if (!board) return;
+  let changed = false;
+  for (const card of board.columns.flatMap((column) => column.cards)) {
+    if (card.description.includes(dataUrl)) {
+      board = updateCard(board, card.id, { description: card.description.split(dataUrl).join(imagePath) });
+      changed = true;
+    }
+  }
+  if (changed) {
+    render();
+    sendUpdate();
+  }
+}
+
 // Expose vscode API globally for use in tiptap editor (image URL conversion)
 (window as any).vscode = vscode;
 
@@ -184,21 +942,26 @@ window.addEventListener('message', (event) => {
     case 'init':
       isUpdatingFromExtension = true;
       board = parseMarkdown(message.payload.content);
+      documentContent = message.payload.content;
+      postedContents = [];
+      boardHistory = new BoardHistory(serializeBoard(board));
       render();
       isUpdatingFromExtension = false;
       break;
 
     case 'update':
-      // Only update if content differs (external change)
-      if (board) {
-        const currentMarkdown = serializeBoard(board);
-        if (message.payload.content !== currentMarkdown) {
-          isUpdatingFromExtension = true;
-          board = parseMarkdown(message.payload.content);
-          render();
-          isUpdatingFromExtension = false;
-        }
-      }
+      // The document changed: our own update, or an edit made elsewhere
+      applyExternalContent(message.payload.content, message.payload.aiDiffMode);
+      break;
+
+    case 'openCard':
+      // Opened from a card key reference in another document
+      openCardByKey(message.payload.key);
+      break;
+
+    case 'revealCard':
+      // Opened from the Tasks view
+      revealCard(message.payload.columnIndex, message.payload.cardIndex, message.payload.text);
       break;
 
     case 'imageUrl':
@@ -213,6 +976,21 @@ window.addEventListener('message', (event) => {
       );
       break;
 
+    case 'imageSaved': {
+      // A pasted image was written to the assets folder; the card editor swaps it in
+      window.dispatchEvent(new CustomEvent('image-saved', { detail: message.payload }));
+      // The modal was closed before the save finished: swap it in on the board instead
+      const dataUrl = takePendingImage(message.payload.requestId);
+      if (dataUrl) {
+        replaceImageData(dataUrl, message.payload.originalPath);
+      }
+      break;
+    }
+
+    case 'filePickerResult':
+      window.dispatchEvent(new CustomEvent('file-picker-result', { detail: message.payload }));
+      break;
+
     case 'clipboardData':
       // Handle clipboard data from extension (for paste in contenteditable fields)
       const pasteTarget = (window as any).__pendingPasteTarget as HTMLElement | null;
@@ -8,12 +8,24 @@ import { CheckIcon as Check } from './icons';
 
 export interface ColumnMenuOptions {
   autoComplete: boolean;
+  wipLimit?: number;
+  enforceWip: boolean;
+  cardCount: number;
+  otherColumns: { id: string; title: string }[]; // Where cards can go when this column is deleted
 }
 
 export interface ColumnMenuCallbacks {
   onToggleAutoComplete: () => void;
+  onWipLimitChange: (limit: number | undefined) => void;
+  onToggleEnforceWip: () => void;
+  onRename: () => void;
+  onInsertColumn: (side: 'left' | 'right') => void;
+  onDelete: (moveCardsTo?: string) => void;
 }
 
+/** Limit suggested when WIP limits are first switched on for a column */
+const DEFAULT_WIP_LIMIT = 3;
+
 /**
  * Column settings dropdown menu
  */
@@ -46,6 +58,27 @@ export class ColumnMenu {
     this.menuEl.dataset.columnId = this.columnId;
 
     // Create menu items
+    this.menuEl.appendChild(
+      this.createMenuItem('Rename', false, () => {
+        this.hide();
+        this.callbacks.onRename();
+      })
+    );
+    this.menuEl.appendChild(
+      this.createMenuItem('Insert column left', false, () => {
+        this.hide();
+        this.callbacks.onInsertColumn('left');
+      })
+    );
+    this.menuEl.appendChild(
+      this.createMenuItem('Insert column right', false, () => {
+        this.hide();
+        this.callbacks.onInsertColumn('right');
+      })
+    );
+
+    this.menuEl.appendChild(this.createSeparator());
+
     const autoCompleteItem = this.createMenuItem(
       'Auto-complete items',
       this.options.autoComplete,
@@ -57,6 +90,43 @@ export class ColumnMenu {
 
     this.menuEl.appendChild(autoCompleteItem);
 
+    const wipEnabled = this.options.wipLimit !== undefined;
+    const wipItem = this.createMenuItem('WIP limit', wipEnabled, () => {
+      this.callbacks.onWipLimitChange(wipEnabled ? undefined : DEFAULT_WIP_LIMIT);
+      this.hide();
+    });
+    this.menuEl.appendChild(wipItem);
+
+    if (wipEnabled) {
+      this.menuEl.appendChild(this.createWipLimitInput(this.options.wipLimit!));
+    }
+
+    this.menuEl.appendChild(this.createSeparator());
+
+    const enforceItem = this.createMenuItem(
+      'Block moves over WIP limits',
+      this.options.enforceWip,
+      () => {
+        this.callbacks.onToggleEnforceWip();
+        this.hide();
+      }
+    );
+    enforceItem.title = 'Board setting: block drops into full columns instead of warning';
+    this.menuEl.appendChild(enforceItem);
+
+    this.menuEl.appendChild(this.createSeparator());
+
+    const deleteItem = this.createMenuItem('Delete column', false, () => {
+      if (this.options.cardCount > 0) {
+        this.showDeleteChoices();
+      } else {
+        this.hide();
+        this.callbacks.onDelete();
+      }
+    });
+    deleteItem.classList.add('danger');
+    this.menuEl.appendChild(deleteItem);
+
     // Position the menu
     document.body.appendChild(this.menuEl);
     this.positionMenu(anchorEl);
@@ -121,6 +191,88 @@ export class ColumnMenu {
     return item;
   }
 
+  /**
+   * Replace the menu contents with the choice of what to do with the column's cards
+   */
+  private showDeleteChoices(): void {
+    if (!this.menuEl) return;
+    this.menuEl.innerHTML = '';
+
+    const count = this.options.cardCount;
+    const heading = document.createElement('div');
+    heading.className = 'column-menu-heading';
+    heading.textContent = `Move ${count} ${count === 1 ? 'card' : 'cards'} to…`;
+    this.menuEl.appendChild(heading);
+
+    for (const column of this.options.otherColumns) {
+      this.menuEl.appendChild(
+        this.createMenuItem(column.title, false, () => {
+          this.hide();
+          this.callbacks.onDelete(column.id);
+        })
+      );
+    }
+
+    this.menuEl.appendChild(this.createSeparator());
+
+    const dropItem = this.createMenuItem(`Delete column and ${count === 1 ? 'card' : 'cards'}`, false, () => {
+      this.hide();
+      this.callbacks.onDelete();
+    });
+    dropItem.classList.add('danger');
+    this.menuEl.appendChild(dropItem);
+
+    this.menuEl.appendChild(this.createMenuItem('Cancel', false, () => this.hide()));
+  }
+
+  /**
+   * Create the number input for editing a column's WIP limit
+   */
+  private createWipLimitInput(limit: number): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'column-menu-input-row';
+
+    const labelEl = document.createElement('span');
+    labelEl.className = 'menu-item-label';
+    labelEl.textContent = 'Max cards';
+    row.appendChild(labelEl);
+
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.min = '1';
+    input.className = 'column-menu-number';
+    input.value = String(limit);
+    row.appendChild(input);
+
+    const commit = () => {
+      const value = parseInt(input.value, 10);
+      if (value > 0 && value !== limit) {
+        this.callbacks.onWipLimitChange(value);
+      }
+      this.hide();
+    };
+
+    input.addEventListener('click', (e) => e.stopPropagation());
+    input.addEventListener('change', commit);
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        commit();
+      }
+    });
+
+    return row;
+  }
+
+  /**
+   * Create a separator between menu sections
+   */
+  private createSeparator(): HTMLElement {
+    const separator = document.createElement('div');
+    separator.className = 'column-menu-separator';
+    return separator;
+  }
+
   /**
    * Position the menu below the anchor element
    */
@@ -0,0 +1,298 @@
+/**
+ * Board Merge
+ *
+ * Three-way merge of the board in the webview with a version of the file
+ * changed elsewhere (on disk, in another editor, by git). The base is the
+ * content both last agreed on. Cards are matched by key, text, title or
+ * position, so an edited card is still the same card. Changes made on one
+ * side only are combined; where both sides changed the same card differently
+ * the file wins and the card is reported as a conflict.
+ */
+
+import {
+  parseMarkdown,
+  serializeBoard,
+  updateCard,
+  deleteCard,
+  getCardTitle,
+  type KanbanBoard,
+  type KanbanCard,
+  type KanbanColumn,
+} from './parser';
+
+export interface MergeResult {
+  board: KanbanBoard;
+  conflicts: string[]; // Titles of cards both sides changed, or "Columns"
+}
+
+export interface CardPlace {
+  column: string; // Key of the column, see getColumnKeys
+  index: number;
+}
+
+function allCards(board: KanbanBoard): KanbanCard[] {
+  return board.columns.flatMap((column) => column.cards);
+}
+
+/**
+ * A column's identity across versions of a board: its lane and title
+ */
+export function getColumnPath(board: KanbanBoard, column: KanbanColumn): string {
+  const lane = board.lanes?.find((l) => l.id === column.laneId);
+  return `${lane?.title ?? ''}\n${column.title}`;
+}
+
+/**
+ * Key each column of a board by the column it was in the base version: the
+ * one with the same lane and title, or for a renamed column the one at the
+ * same position whose title is gone
+ */
+function getColumnKeys(board: KanbanBoard, base: KanbanBoard): Map<KanbanColumn, string> {
+  const paths = board.columns.map((column) => getColumnPath(board, column));
+  const basePaths = base.columns.map((column) => getColumnPath(base, column));
+  const keys = new Map<KanbanColumn, string>();
+  board.columns.forEach((column, i) => {
+    const renamed = !basePaths.includes(paths[i]) && basePaths[i] !== undefined && !paths.includes(basePaths[i]);
+    keys.set(column, renamed ? basePaths[i] : paths[i]);
+  });
+  return keys;
+}
+
+/**
+ * Where each card sits, with columns keyed by the base version's columns
+ */
+export function getPlaces(board: KanbanBoard, base: KanbanBoard): Map<KanbanCard, CardPlace> {
+  const keys = getColumnKeys(board, base);
+  const places = new Map<KanbanCard, CardPlace>();
+  for (const column of board.columns) {
+    column.cards.forEach((card, index) => places.set(card, { column: keys.get(column)!, index }));
+  }
+  return places;
+}
+
+function findColumn(board: KanbanBoard, base: KanbanBoard, key: string): KanbanColumn | undefined {
+  const keys = getColumnKeys(board, base);
+  return board.columns.find((column) => keys.get(column) === key);
+}
+
+/**
+ * Everything but the cards: columns, lanes, their settings and the preamble.
+ * The key counter is left out since adding a keyed card moves it.
+ */
+function getLayout(board: KanbanBoard): string {
+  const { keys, ...settings } = board.settings ?? {};
+  return JSON.stringify({
+    preamble: board.preamble,
+    settings: { ...settings, keys: keys?.prefix },
+    columns: board.columns.map((column) => [getColumnPath(board, column), column.settings ?? {}]),
+  });
+}
+
+function isSameCard(a: KanbanCard, b: KanbanCard): boolean {
+  return a.text === b.text && a.description === b.description && a.completed === b.completed;
+}
+
+/**
+ * Pair each card of one version of a board with the same card in another:
+ * by key, then by identical text, then by title (so metadata can change),
+ * then by position for edited cards
+ */
+export function matchCards(from: KanbanBoard, to: KanbanBoard): Map<KanbanCard, KanbanCard> {
+  const matches = new Map<KanbanCard, KanbanCard>();
+  const used = new Set<KanbanCard>();
+  const fromCards = allCards(from);
+  const toCards = allCards(to);
+
+  const pairWith = (predicate: (a: KanbanCard, b: KanbanCard) => boolean) => {
+    for (const a of fromCards) {
+      if (matches.has(a)) continue;
+      const b = toCards.find((card) => !used.has(card) && predicate(a, card));
+      if (b) {
+        matches.set(a, b);
+        used.add(b);
+      }
+    }
+  };
+
+  pairWith((a, b) => !!a.metadata.key && a.metadata.key === b.metadata.key);
+  pairWith((a, b) => a.text === b.text);
+  pairWith((a, b) => {
+    const title = getCardTitle(a.text);
+    return !!title && title === getCardTitle(b.text);
+  });
+
+  const fromPlaces = getPlaces(from, from);
+  const toPlaces = getPlaces(to, from);
+  pairWith((a, b) => {
+    const p = fromPlaces.get(a)!;
+    const q = toPlaces.get(b)!;
+    const keysDiffer = !!a.metadata.key && !!b.metadata.key && a.metadata.key !== b.metadata.key;
+    return !keysDiffer && p.column === q.column && p.index === q.index;
+  });
+
+  return matches;
+}
+
+/**
+ * Move a card to a column position, without the auto-complete or WIP checks
+ * of a user move: the merge only replays moves already made
+ */
+function placeCard(board: KanbanBoard, card: KanbanCard, column: KanbanColumn, index: number): void {
+  const from = board.columns.find((c) => c.cards.includes(card));
+  if (from) {
+    from.cards.splice(from.cards.indexOf(card), 1);
+  }
+  column.cards.splice(Math.min(index, column.cards.length), 0, card);
+}
+
+/**
+ * Replay the card changes between base and changed onto target. With
+ * changesWin, changed overrides target where both differ from the base.
+ * Either way, a card both sides changed differently is a conflict.
+ */
+function applyCardChanges(
+  target: KanbanBoard,
+  base: KanbanBoard,
+  changed: KanbanBoard,
+  changesWin: boolean,
+  conflicts: Set<string>
+): void {
+  const toTarget = matchCards(base, target);
+  const toChanged = matchCards(base, changed);
+  const basePlaces = getPlaces(base, base);
+  const changedPlaces = getPlaces(changed, base);
+  const conflict = (card: KanbanCard) => conflicts.add(getCardTitle(card.text) || card.text);
+
+  for (const b of allCards(base)) {
+    const c = toChanged.get(b);
+    const t = toTarget.get(b);
+
+    if (!t) {
+      // Gone from the target; an edit on the other side can't be kept
+      if (c && !isSameCard(b, c)) conflict(c);
+      continue;
+    }
+    if (!c) {
+      // Removed on the changed side: remove it too unless the target edited it
+      if (!isSameCard(b, t)) conflict(t);
+      if (isSameCard(b, t) || changesWin) {
+        deleteCard(target, t.id);
+      }
+      continue;
+    }
+
+    const fields = ['text', 'description', 'completed'] as const;
+    for (const field of fields) {
+      if (c[field] === b[field] || c[field] === t[field]) continue;
+      const bothChanged = t[field] !== b[field];
+      if (bothChanged && !changesWin) {
+        conflict(t);
+        continue;
+      }
+      if (field === 'text') {
+        updateCard(target, t.id, { text: c.text });
+      } else if (field === 'description') {
+        t.description = c.description;
+      } else {
+        t.completed = c.completed;
+      }
+      if (bothChanged) conflict(t);
+    }
+
+    const basePlace = basePlaces.get(b)!;
+    const changedPlace = changedPlaces.get(c)!;
+    const targetPlace = getPlaces(target, base).get(t)!;
+    const column = findColumn(target, base, changedPlace.column);
+    if (changedPlace.column !== basePlace.column) {
+      const bothMoved = targetPlace.column !== basePlace.column && targetPlace.column !== changedPlace.column;
+      if (bothMoved) conflict(t);
+      if ((!bothMoved || changesWin) && column && targetPlace.column !== changedPlace.column) {
+        placeCard(target, t, column, changedPlace.index);
+      }
+    } else if (column && changedPlace.index !== basePlace.index && targetPlace.column === basePlace.column) {
+      placeCard(target, t, column, changedPlace.index);
+    }
+  }
+
+  // Cards added on the changed side
+  const matched = new Set(toChanged.values());
+  for (const card of allCards(changed)) {
+    if (matched.has(card)) continue;
+    const place = changedPlaces.get(card)!;
+    const column = findColumn(target, base, place.column) ?? target.columns[0];
+    if (!column) continue;
+    if (column !== findColumn(target, base, place.column)) conflict(card);
+    // Added on both sides, e.g. the same line pasted in two places
+    if (column.cards.some((existing) => existing.text === card.text)) continue;
+    const added = { ...card };
+    column.cards.splice(Math.min(place.index, column.cards.length), 0, added);
+
+    // Both sides gave a new card the same key: this one gets the next
+    const keys = target.settings?.keys;
+    const key = added.metadata.key;
+    if (keys && key && allCards(target).some((c) => c !== added && c.metadata.key === key)) {
+      updateCard(target, added.id, { metadata: { ...added.metadata, key: `${keys.prefix}-${keys.next}` } });
+      keys.next++;
+    }
+  }
+}
+
+/**
+ * Merge the webview's board (local) and the file's new content (remote),
+ * both changed from base
+ */
+export function mergeBoards(base: KanbanBoard, local: KanbanBoard, remote: KanbanBoard): MergeResult {
+  const conflicts = new Set<string>();
+  const baseLayout = getLayout(base);
+  const localLayout = getLayout(local);
+  const remoteLayout = getLayout(remote);
+
+  // Keep the columns of whichever side changed them and replay the other
+  // side's card changes onto it. If both did, the file's columns win.
+  const keepLocal = localLayout !== baseLayout && remoteLayout === baseLayout;
+  if (localLayout !== baseLayout && remoteLayout !== baseLayout && localLayout !== remoteLayout) {
+    conflicts.add('Columns');
+  }
+  const target = parseMarkdown(serializeBoard(keepLocal ? local : remote));
+
+  // Both sides may have handed out keys; the counter must pass them all
+  const localKeys = local.settings?.keys;
+  const remoteKeys = remote.settings?.keys;
+  const keys = target.settings?.keys;
+  if (keys && localKeys && remoteKeys && localKeys.prefix === remoteKeys.prefix) {
+    keys.next = Math.max(localKeys.next, remoteKeys.next);
+  }
+
+  applyCardChanges(target, base, keepLocal ? remote : local, keepLocal, conflicts);
+  return { board: target, conflicts: [...conflicts] };
+}
+
+/**
+ * Give cards, columns and lanes of a new version of the board the ids they had
+ * in the previous one, so open modals, focus and drag state still find them
+ */
+export function keepIds(board: KanbanBoard, previous: KanbanBoard): KanbanBoard {
+  for (const [card, previousCard] of matchCards(board, previous)) {
+    card.id = previousCard.id;
+  }
+
+  const laneIds = new Map<string, string>();
+  for (const lane of board.lanes ?? []) {
+    const previousLane = previous.lanes?.find((l) => l.title === lane.title);
+    if (previousLane) {
+      laneIds.set(lane.id, previousLane.id);
+      lane.id = previousLane.id;
+    }
+  }
+  const columnKeys = getColumnKeys(board, previous);
+  for (const column of board.columns) {
+    const previousColumn = findColumn(previous, previous, columnKeys.get(column)!);
+    if (column.laneId) {
+      column.laneId = laneIds.get(column.laneId) ?? column.laneId;
+    }
+    if (previousColumn) {
+      column.id = previousColumn.id;
+    }
+  }
+  return board;
+}
@@ -6,15 +6,42 @@
  */
 
 import type { Editor } from '@tiptap/core';
-import type { KanbanCard } from './parser';
+import type { KanbanCard, CardMetadata, CardPriority } from './parser';
+import {
+  getCardTitle,
+  setCardTitle,
+  applyCardMetadata,
+  parseCardMetadata,
+  parseSubtasks,
+} from './parser';
 import { createCardEditor } from './tiptap-editor';
 
 export interface CardModalCallbacks {
   onTitleChange: (title: string) => void;
   onDescriptionChange: (description: string) => void;
+  onMetadataChange: (metadata: CardMetadata) => void;
+  onToggleSubtask: (index: number) => string | undefined; // Returns the new description
+  onAssignKey?: () => string | undefined; // Offered when the board uses keys and the card has none
+  onMoveToBoard: () => void;
+  onOpenInEditor: () => void;
+  onOpenLink: (href: string) => void; // Links in the description, e.g. src/app.ts#L10-L24
   onClose: () => void;
 }
 
+/**
+ * Split a comma/space separated list input into names, dropping a leading prefix
+ */
+export function parseListInput(value: string, prefix: string): string[] {
+  const names: string[] = [];
+  for (const raw of value.split(/[\s,]+/)) {
+    const name = raw.startsWith(prefix) ? raw.slice(prefix.length) : raw;
+    if (name && !names.includes(name)) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
 let activeModal: CardModal | null = null;
 
 /**
@@ -46,6 +73,10 @@ class CardModal {
     // Create modal
     this.modalEl = document.createElement('div');
     this.modalEl.className = 'card-modal';
+    this.modalEl.setAttribute('role', 'dialog');
+    this.modalEl.setAttribute('aria-modal', 'true');
+    this.modalEl.setAttribute('aria-label', this.getTitle());
+    this.modalEl.tabIndex = -1;
     this.modalEl.addEventListener('click', (e) => e.stopPropagation());
 
     this.render();
@@ -60,6 +91,7 @@ class CardModal {
     closeBtn.className = 'card-modal-close';
     closeBtn.type = 'button';
     closeBtn.innerHTML = '&times;';
+    closeBtn.setAttribute('aria-label', 'Close');
     closeBtn.addEventListener('click', () => this.close());
     this.modalEl.appendChild(closeBtn);
 
@@ -69,12 +101,23 @@ class CardModal {
 
     const titleEl = document.createElement('h2');
     titleEl.className = 'card-modal-title';
-    titleEl.textContent = this.card.text || 'Untitled';
+    titleEl.textContent = this.getTitle();
     titleEl.addEventListener('click', () => this.editTitle(titleEl));
     titleSection.appendChild(titleEl);
 
+    const keyEl = this.renderKey();
+    if (keyEl) {
+      titleSection.appendChild(keyEl);
+    }
+
     this.modalEl.appendChild(titleSection);
 
+    // Metadata section (assignees, tags, due date, priority)
+    this.modalEl.appendChild(this.renderMetadataSection());
+
+    // Checklist items from the description, toggleable without the editor
+    this.modalEl.appendChild(this.renderSubtasksSection());
+
     // Description section with Tiptap editor
     const descSection = document.createElement('div');
     descSection.className = 'card-modal-desc-section';
@@ -83,8 +126,43 @@ class CardModal {
     editorContainer.className = 'card-modal-editor-container';
     descSection.appendChild(editorContainer);
 
+    // Links open in the editor rather than navigating the webview
+    editorContainer.addEventListener('click', (e) => {
+      const link = (e.target as HTMLElement).closest('a[href]');
+      if (!link) return;
+      e.preventDefault();
+      this.callbacks.onOpenLink(link.getAttribute('href')!);
+    });
+
     this.modalEl.appendChild(descSection);
 
+    // Footer actions
+    const actionsEl = document.createElement('div');
+    actionsEl.className = 'card-modal-actions';
+    const editorBtn = document.createElement('button');
+    editorBtn.type = 'button';
+    editorBtn.className = 'card-modal-action';
+    editorBtn.textContent = 'Open in editor';
+    editorBtn.title = 'Edit the description in a full markdown editor tab';
+    editorBtn.addEventListener('click', () => {
+      // Close first so a pending description edit reaches the board before the tab reads it
+      this.close();
+      this.callbacks.onOpenInEditor();
+    });
+    actionsEl.appendChild(editorBtn);
+    const moveBtn = document.createElement('button');
+    moveBtn.type = 'button';
+    moveBtn.className = 'card-modal-action';
+    moveBtn.textContent = 'Move to board…';
+    moveBtn.title = 'Move this card to another .kanban board';
+    moveBtn.addEventListener('click', () => {
+      // Close first so a pending description edit is saved before the card leaves
+      this.close();
+      this.callbacks.onMoveToBoard();
+    });
+    actionsEl.appendChild(moveBtn);
+    this.modalEl.appendChild(actionsEl);
+
     // Initialize Tiptap editor after DOM is ready
     requestAnimationFrame(() => {
       this.initEditor(editorContainer);
@@ -107,11 +185,190 @@ class CardModal {
     });
   }
 
+  private getTitle(): string {
+    return getCardTitle(this.card.text) || 'Untitled';
+  }
+
+  /**
+   * Card key badge (click to copy), or a button to assign one
+   */
+  private renderKey(): HTMLElement | null {
+    const key = this.card.metadata.key;
+    if (key) {
+      const keyEl = document.createElement('button');
+      keyEl.type = 'button';
+      keyEl.className = 'card-modal-key';
+      keyEl.textContent = key;
+      keyEl.title = 'Copy key';
+      keyEl.addEventListener('click', () => {
+        const vscode = (window as any).vscode;
+        vscode?.postMessage({ type: 'copyToClipboard', payload: { text: key } });
+      });
+      return keyEl;
+    }
+
+    if (!this.callbacks.onAssignKey) return null;
+
+    const assignBtn = document.createElement('button');
+    assignBtn.type = 'button';
+    assignBtn.className = 'card-modal-key assign';
+    assignBtn.textContent = 'Assign key';
+    assignBtn.addEventListener('click', () => {
+      const newText = this.callbacks.onAssignKey?.();
+      if (newText) {
+        this.card.text = newText;
+        this.card.metadata = parseCardMetadata(newText);
+        const keyEl = this.renderKey();
+        if (keyEl) assignBtn.replaceWith(keyEl);
+      }
+    });
+    return assignBtn;
+  }
+
+  private renderSubtasksSection(): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'card-modal-subtasks';
+
+    const subtasks = parseSubtasks(this.card.description);
+    if (subtasks.length === 0) {
+      section.hidden = true;
+      return section;
+    }
+
+    const done = subtasks.filter((subtask) => subtask.completed).length;
+    const heading = document.createElement('div');
+    heading.className = 'card-modal-meta-label';
+    heading.textContent = `Subtasks ${done}/${subtasks.length}`;
+    section.appendChild(heading);
+
+    subtasks.forEach((subtask, index) => {
+      const item = document.createElement('label');
+      item.className = `card-modal-subtask${subtask.completed ? ' completed' : ''}`;
+
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = subtask.completed;
+      checkbox.addEventListener('change', () => this.toggleSubtask(index));
+
+      const text = document.createElement('span');
+      text.textContent = subtask.text;
+
+      item.appendChild(checkbox);
+      item.appendChild(text);
+      section.appendChild(item);
+    });
+
+    return section;
+  }
+
+  private toggleSubtask(index: number): void {
+    // Save edits made in the editor first so the toggle applies on top of them
+    this.saveDescription();
+    this.pendingDescription = null;
+
+    const description = this.callbacks.onToggleSubtask(index);
+    if (description === undefined) return;
+
+    this.card.description = description;
+    this.editor?.commands.setContent(description, false);
+
+    const section = this.modalEl.querySelector('.card-modal-subtasks');
+    section?.replaceWith(this.renderSubtasksSection());
+  }
+
+  private renderMetadataSection(): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'card-modal-meta-section';
+
+    const addField = (label: string, control: HTMLElement) => {
+      const field = document.createElement('label');
+      field.className = 'card-modal-meta-field';
+      const labelEl = document.createElement('span');
+      labelEl.className = 'card-modal-meta-label';
+      labelEl.textContent = label;
+      field.appendChild(labelEl);
+      field.appendChild(control);
+      section.appendChild(field);
+    };
+
+    const { metadata } = this.card;
+
+    const assigneesInput = document.createElement('input');
+    assigneesInput.type = 'text';
+    assigneesInput.className = 'card-modal-meta-input';
+    assigneesInput.placeholder = '@alice, @bob';
+    assigneesInput.value = metadata.assignees.map((name) => `@${name}`).join(', ');
+
+    const tagsInput = document.createElement('input');
+    tagsInput.type = 'text';
+    tagsInput.className = 'card-modal-meta-input';
+    tagsInput.placeholder = '#backend';
+    tagsInput.value = metadata.tags.map((tag) => `#${tag}`).join(', ');
+
+    const startInput = document.createElement('input');
+    startInput.type = 'date';
+    startInput.className = 'card-modal-meta-input';
+    startInput.value = metadata.start ?? '';
+
+    const dueInput = document.createElement('input');
+    dueInput.type = 'date';
+    dueInput.className = 'card-modal-meta-input';
+    dueInput.value = metadata.due ?? '';
+
+    const prioritySelect = document.createElement('select');
+    prioritySelect.className = 'card-modal-meta-input';
+    for (const value of ['', 'low', 'medium', 'high']) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = value || 'None';
+      prioritySelect.appendChild(option);
+    }
+    prioritySelect.value = metadata.priority ?? '';
+
+    const save = () => {
+      const updated: CardMetadata = {
+        assignees: parseListInput(assigneesInput.value, '@'),
+        tags: parseListInput(tagsInput.value, '#'),
+        start: startInput.value || undefined,
+        due: dueInput.value || undefined,
+        priority: (prioritySelect.value || undefined) as CardPriority | undefined,
+        key: this.card.metadata.key,
+      };
+      const newText = applyCardMetadata(this.card.text, updated);
+      if (newText !== this.card.text) {
+        this.card.text = newText;
+        this.card.metadata = parseCardMetadata(newText);
+        this.callbacks.onMetadataChange(updated);
+      }
+    };
+
+    for (const input of [assigneesInput, tagsInput]) {
+      input.addEventListener('change', save);
+      input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          input.blur();
+        }
+      });
+    }
+    startInput.addEventListener('change', save);
+    dueInput.addEventListener('change', save);
+    prioritySelect.addEventListener('change', save);
+
+    addField('Assignees', assigneesInput);
+    addField('Tags', tagsInput);
+    addField('Start', startInput);
+    addField('Due', dueInput);
+    addField('Priority', prioritySelect);
+
+    return section;
+  }
+
   private editTitle(titleEl: HTMLElement): void {
     const input = document.createElement('input');
     input.type = 'text';
     input.className = 'card-modal-title-input';
-    input.value = this.card.text;
+    input.value = getCardTitle(this.card.text);
 
     titleEl.replaceWith(input);
     input.focus();
@@ -119,16 +376,18 @@ class CardModal {
 
     const save = () => {
       const newTitle = input.value.trim();
-      if (newTitle && newTitle !== this.card.text) {
-        this.card.text = newTitle;
-        this.callbacks.onTitleChange(newTitle);
+      if (newTitle && newTitle !== getCardTitle(this.card.text)) {
+        const newText = setCardTitle(this.card.text, newTitle);
+        this.card.text = newText;
+        this.card.metadata = parseCardMetadata(newText);
+        this.callbacks.onTitleChange(newText);
       }
       // Re-render just the title, not the whole modal (preserve editor state)
       const titleSection = this.modalEl.querySelector('.card-modal-title-section');
       if (titleSection) {
         const newTitleEl = document.createElement('h2');
         newTitleEl.className = 'card-modal-title';
-        newTitleEl.textContent = this.card.text || 'Untitled';
+        newTitleEl.textContent = this.getTitle();
         newTitleEl.addEventListener('click', () => this.editTitle(newTitleEl));
         input.replaceWith(newTitleEl);
       }
@@ -145,7 +404,7 @@ class CardModal {
         if (titleSection) {
           const newTitleEl = document.createElement('h2');
           newTitleEl.className = 'card-modal-title';
-          newTitleEl.textContent = this.card.text || 'Untitled';
+          newTitleEl.textContent = this.getTitle();
           newTitleEl.addEventListener('click', () => this.editTitle(newTitleEl));
           input.replaceWith(newTitleEl);
         }
@@ -160,10 +419,17 @@ class CardModal {
     }
   }
 
+  get cardId(): string {
+    return this.card.id;
+  }
+
   show(): void {
     document.body.appendChild(this.overlayEl);
     document.addEventListener('keydown', this.boundHandleKeydown);
 
+    // Take focus off the board so its card shortcuts don't fire underneath
+    this.modalEl.focus();
+
     // Animate in
     requestAnimationFrame(() => {
       this.overlayEl.classList.add('visible');
@@ -192,6 +458,9 @@ class CardModal {
 
   private handleKeydown(e: KeyboardEvent): void {
     if (e.key === 'Escape') {
+      // Menus and pickers in the description handle their own Escape
+      if (e.defaultPrevented || document.querySelector('.link-picker, .table-size-picker')) return;
+
       // Only close if not editing title
       const activeEl = document.activeElement;
       if (!activeEl || !activeEl.classList.contains('card-modal-title-input')) {
@@ -234,3 +503,10 @@ export function closeCardModal(): void {
     activeModal = null;
   }
 }
+
+/**
+ * Id of the card shown in the modal, if one is open
+ */
+export function getOpenCardId(): string | null {
+  return activeModal?.cardId ?? null;
+}
@@ -10,21 +10,99 @@
  *   Optional description
  *
  * - [x] Completed task
+ *
+ * Boards can be split into swimlanes with # headings above the columns:
+ * # Team A
+ * ## Column Name
+ *
+ * Card lines may carry inline metadata tokens anywhere in the text:
+ * - [ ] Fix login @alice #backend start:2026-10-27 due:2026-11-01 !high
+ *
+ * Boards with [keys:PM-43] in the preamble give cards persistent keys,
+ * stored as a ^PM-42 token at the end of the card line.
+ *
+ * Boards with [folder:specs=status] in the preamble are folder-backed: the
+ * extension builds their cards from the markdown files in the folder, one
+ * column per value of the status front matter field.
+ *
+ * Parsing is lossless: anything that is not a heading, card or description
+ * (column notes, blank lines, code fences, stray paragraphs) is kept as opaque
+ * lines, and parsed elements remember their original markdown. serializeBoard
+ * writes unchanged elements back byte-for-byte and only re-renders what changed.
  */
 
+export type CardPriority = 'low' | 'medium' | 'high';
+
+export interface CardMetadata {
+  assignees: string[];
+  tags: string[];
+  start?: string; // ISO date (YYYY-MM-DD) the work begins
+  due?: string; // ISO date (YYYY-MM-DD)
+  priority?: CardPriority;
+  key?: string; // Persistent card key, e.g. PM-42
+}
+
+/**
+ * Original markdown of a parsed card, with the values it parsed to
+ */
+interface CardSource {
+  line: string;
+  text: string;
+  completed: boolean;
+  descriptionLines: string[];
+  description: string;
+}
+
 export interface KanbanCard {
   id: string;
+  text: string; // Full card line text, including metadata tokens
+  description: string; // Indented lines below the card, dedented by one level
+  completed: boolean;
+  metadata: CardMetadata; // Derived from text
+  trailing?: string[]; // Unrecognized lines after the card, written back verbatim
+  source?: CardSource;
+}
+
+export interface Subtask {
   text: string;
-  description: string;
   completed: boolean;
+  line: number; // Line index within the card description
 }
 
 export interface ColumnSettings {
   autoComplete?: boolean;
+  wipLimit?: number; // Max cards allowed in the column
+}
+
+export interface CardKeySettings {
+  prefix: string; // e.g. PM
+  next: number; // Number the next assigned key gets
+}
+
+export interface BoardView {
+  name: string;
+  query: string; // Filter query, e.g. "#bug @alice is:open"
+}
+
+export interface FolderSource {
+  path: string; // Folder of markdown files, relative to the .kanban file
+  key: string; // Front matter field holding each file's column, e.g. status
 }
 
 export interface BoardSettings {
   showThumbnails?: boolean; // Default true - show first image as card thumbnail
+  enforceWip?: boolean; // Default false - block moves past a WIP limit instead of warning
+  views?: BoardView[]; // Saved filter views
+  keys?: CardKeySettings; // Persistent card keys
+  folder?: FolderSource; // Cards come from the files in a folder
+}
+
+/**
+ * Original heading line of a parsed column or lane, with the heading it parsed to
+ */
+interface HeadingSource {
+  line: string;
+  heading: string;
 }
 
 export interface KanbanColumn {
@@ -32,12 +110,30 @@ export interface KanbanColumn {
   title: string;
   cards: KanbanCard[];
   settings?: ColumnSettings;
+  laneId?: string; // Swimlane this column belongs to
+  notes?: string[]; // Lines between the heading and the first card, verbatim
+  tail?: string[]; // Blank lines closing the column, verbatim
+  source?: HeadingSource;
+}
+
+export interface KanbanLane {
+  id: string;
+  title: string;
+  notes?: string[]; // Lines between the lane heading and its first column, verbatim
+  source?: HeadingSource;
 }
 
 export interface KanbanBoard {
   preamble: string; // Content before first column
-  columns: KanbanColumn[];
+  columns: KanbanColumn[]; // All columns, grouped by lane in lane order
+  lanes?: KanbanLane[];
   settings?: BoardSettings;
+  source?: {
+    header: string; // Canonical preamble + settings at parse time
+    headerLines: string[]; // Original lines before the first heading
+    eol: string; // Line separator of the original file
+    ending: string; // Trailing newlines of the original file
+  };
 }
 
 /**
@@ -47,9 +143,162 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
+/**
+ * Inline metadata token patterns. A token is a whole whitespace-delimited word.
+ */
+const ASSIGNEE_TOKEN = /^@([\w.-]+)$/;
+const TAG_TOKEN = /^#([A-Za-z][\w/-]*)$/;
+const START_TOKEN = /^start:(\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01]))$/i;
+const DUE_TOKEN = /^due:(\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01]))$/i;
+const PRIORITY_TOKEN = /^!(low|medium|high)$/i;
+const KEY_TOKEN = /^\^([A-Za-z][A-Za-z0-9]*-\d+)$/;
+
+/**
+ * Card key as written in other documents, e.g. PM-42
+ */
+export const CARD_KEY_PATTERN = /\b([A-Z][A-Z0-9]*)-(\d+)\b/g;
+
+/**
+ * Date of a start: or due: token, or null when the word isn't one or names a
+ * day that doesn't exist, like due:2026-02-30
+ */
+function matchDateToken(word: string, token: RegExp): string | null {
+  const date = word.match(token)?.[1];
+  if (!date) return null;
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = new Date(0);
+  parsed.setUTCFullYear(year, month - 1, day);
+  return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day ? date : null;
+}
+
+function isMetadataToken(word: string): boolean {
+  return (
+    ASSIGNEE_TOKEN.test(word) ||
+    TAG_TOKEN.test(word) ||
+    matchDateToken(word, START_TOKEN) !== null ||
+    matchDateToken(word, DUE_TOKEN) !== null ||
+    PRIORITY_TOKEN.test(word) ||
+    KEY_TOKEN.test(word)
+  );
+}
+
+/**
+ * Extract metadata tokens from a card line
+ */
+export function parseCardMetadata(text: string): CardMetadata {
+  const metadata: CardMetadata = { assignees: [], tags: [] };
+
+  for (const word of text.split(/\s+/)) {
+    let match: RegExpMatchArray | null;
+    let date: string | null;
+    if ((match = word.match(ASSIGNEE_TOKEN))) {
+      if (!metadata.assignees.includes(match[1])) {
+        metadata.assignees.push(match[1]);
+      }
+    } else if ((match = word.match(TAG_TOKEN))) {
+      if (!metadata.tags.includes(match[1])) {
+        metadata.tags.push(match[1]);
+      }
+    } else if ((date = matchDateToken(word, START_TOKEN))) {
+      metadata.start = date;
+    } else if ((date = matchDateToken(word, DUE_TOKEN))) {
+      metadata.due = date;
+    } else if ((match = word.match(PRIORITY_TOKEN))) {
+      metadata.priority = match[1].toLowerCase() as CardPriority;
+    } else if ((match = word.match(KEY_TOKEN))) {
+      metadata.key = match[1];
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Get the display title of a card line (text without metadata tokens)
+ */
+export function getCardTitle(text: string): string {
+  return text
+    .split(/\s+/)
+    .filter((word) => word && !isMetadataToken(word))
+    .join(' ');
+}
+
+/**
+ * Replace the title portion of a card line, keeping its metadata tokens
+ */
+export function setCardTitle(text: string, title: string): string {
+  const tokens = text.split(/\s+/).filter((word) => word && isMetadataToken(word));
+  return [title.trim(), ...tokens].filter(Boolean).join(' ');
+}
+
+/**
+ * Rewrite the metadata tokens of a card line.
+ * Tokens that still apply stay where they are, removed tokens are dropped and
+ * new ones are appended, so unrelated text is left untouched.
+ */
+export function applyCardMetadata(text: string, metadata: CardMetadata): string {
+  const remainingAssignees = [...metadata.assignees];
+  const remainingTags = [...metadata.tags];
+  let startWritten = false;
+  let dueWritten = false;
+  let priorityWritten = false;
+  let keyWritten = false;
+
+  // Split keeping whitespace so untouched text round-trips exactly
+  const parts = text.split(/(\s+)/);
+  const kept: string[] = [];
+
+  for (const part of parts) {
+    let match: RegExpMatchArray | null;
+    let replacement: string | null = part;
+
+    if ((match = part.match(ASSIGNEE_TOKEN))) {
+      const index = remainingAssignees.indexOf(match[1]);
+      replacement = index !== -1 ? part : null;
+      if (index !== -1) remainingAssignees.splice(index, 1);
+    } else if ((match = part.match(TAG_TOKEN))) {
+      const index = remainingTags.indexOf(match[1]);
+      replacement = index !== -1 ? part : null;
+      if (index !== -1) remainingTags.splice(index, 1);
+    } else if (matchDateToken(part, START_TOKEN)) {
+      replacement = metadata.start && !startWritten ? `start:${metadata.start}` : null;
+      startWritten = startWritten || replacement !== null;
+    } else if (matchDateToken(part, DUE_TOKEN)) {
+      replacement = metadata.due && !dueWritten ? `due:${metadata.due}` : null;
+      dueWritten = dueWritten || replacement !== null;
+    } else if (PRIORITY_TOKEN.test(part)) {
+      replacement = metadata.priority && !priorityWritten ? `!${metadata.priority}` : null;
+      priorityWritten = priorityWritten || replacement !== null;
+    } else if (KEY_TOKEN.test(part)) {
+      replacement = metadata.key && !keyWritten ? `^${metadata.key}` : null;
+      keyWritten = keyWritten || replacement !== null;
+    }
+
+    if (replacement === null) {
+      // Drop the token together with the whitespace before it
+      if (kept.length > 0 && /^\s+$/.test(kept[kept.length - 1])) {
+        kept.pop();
+      }
+      continue;
+    }
+    kept.push(replacement);
+  }
+
+  const added = [
+    ...remainingAssignees.map((name) => `@${name}`),
+    ...remainingTags.map((tag) => `#${tag}`),
+    ...(metadata.start && !startWritten ? [`start:${metadata.start}`] : []),
+    ...(metadata.due && !dueWritten ? [`due:${metadata.due}`] : []),
+    ...(metadata.priority && !priorityWritten ? [`!${metadata.priority}`] : []),
+    ...(metadata.key && !keyWritten ? [`^${metadata.key}`] : []),
+  ];
+
+  return [kept.join('').trim(), ...added].filter(Boolean).join(' ');
+}
+
 /**
  * Parse column title and extract settings
- * Format: "Title [auto-complete]" or just "Title"
+ * Format: "Title [auto-complete] [wip:3]" or just "Title"
  */
 function parseColumnTitle(rawTitle: string): { title: string; settings?: ColumnSettings } {
   let title = rawTitle;
@@ -61,6 +310,13 @@ function parseColumnTitle(rawTitle: string): { title: string; settings?: ColumnS
     title = title.replace(/\s*\[auto-complete\]\s*/gi, ' ').trim();
   }
 
+  // Parse [wip:N]
+  const wipMatch = title.match(/\[wip:\s*(\d+)\]/i);
+  if (wipMatch && parseInt(wipMatch[1], 10) > 0) {
+    settings.wipLimit = parseInt(wipMatch[1], 10);
+    title = title.replace(/\s*\[wip:\s*\d+\]\s*/gi, ' ').trim();
+  }
+
   if (Object.keys(settings).length > 0) {
     return { title, settings };
   }
@@ -70,7 +326,7 @@ function parseColumnTitle(rawTitle: string): { title: string; settings?: ColumnS
 
 /**
  * Parse board settings from preamble
- * Format: [no-thumbnails] on its own line
+ * Format: [no-thumbnails], [enforce-wip], [keys:PM-43], [folder:path=key] or [view:Name=query] on its own line
  */
 function parseBoardSettings(preamble: string): { cleanPreamble: string; settings?: BoardSettings } {
   let cleanPreamble = preamble;
@@ -82,6 +338,38 @@ function parseBoardSettings(preamble: string): { cleanPreamble: string; settings
     cleanPreamble = cleanPreamble.replace(/\s*\[no-thumbnails\]\s*/gi, '\n').trim();
   }
 
+  // Parse [enforce-wip]
+  if (/\[enforce-wip\]/i.test(cleanPreamble)) {
+    settings.enforceWip = true;
+    cleanPreamble = cleanPreamble.replace(/\s*\[enforce-wip\]\s*/gi, '\n').trim();
+  }
+
+  // Parse [keys:PREFIX-NEXT]; the counter is optional
+  const keysMatch = cleanPreamble.match(/\[keys:([A-Za-z][A-Za-z0-9]*)(?:-(\d+))?\]/i);
+  if (keysMatch) {
+    settings.keys = { prefix: keysMatch[1], next: keysMatch[2] ? parseInt(keysMatch[2], 10) : 1 };
+    cleanPreamble = cleanPreamble.replace(/\s*\[keys:[^\]]*\]\s*/gi, '\n').trim();
+  }
+
+  // Parse [folder:path=key]; the key defaults to status
+  const folderMatch = cleanPreamble.match(/^\[folder:([^=\]]+)(?:=([^\]]*))?\][ \t]*$/im);
+  if (folderMatch) {
+    settings.folder = { path: folderMatch[1].trim(), key: folderMatch[2]?.trim() || 'status' };
+    cleanPreamble = cleanPreamble.replace(/^\s*\[folder:[^\]]*\][ \t]*$/gim, '').trim();
+  }
+
+  // Parse [view:Name=query] lines
+  const viewPattern = /^\[view:([^=\]]+)=([^\]]*)\][ \t]*$/gim;
+  const views: BoardView[] = [];
+  let viewMatch: RegExpExecArray | null;
+  while ((viewMatch = viewPattern.exec(cleanPreamble)) !== null) {
+    views.push({ name: viewMatch[1].trim(), query: viewMatch[2].trim() });
+  }
+  if (views.length > 0) {
+    settings.views = views;
+    cleanPreamble = cleanPreamble.replace(viewPattern, '').replace(/\n{3,}/g, '\n\n').trim();
+  }
+
   if (Object.keys(settings).length > 0) {
     return { cleanPreamble, settings };
   }
@@ -97,110 +385,336 @@ function serializeColumnTitle(column: KanbanColumn): string {
   if (column.settings?.autoComplete) {
     title += ' [auto-complete]';
   }
+  if (column.settings?.wipLimit) {
+    title += ` [wip:${column.settings.wipLimit}]`;
+  }
   return title;
 }
 
+/** Canonical blank line after a heading and at the end of a column */
+const DEFAULT_BLOCK_SPACING = [''];
+
+const LANE_HEADING = /^#\s+(.+)$/;
+const COLUMN_HEADING = /^##\s+(.+)$/;
+const TASK_LINE = /^-\s+\[([ xX])\]\s+(.*)$/;
+const FENCE_LINE = /^ {0,3}(`{3,}|~{3,})/;
+const SUBTASK_LINE = /^(\s*[-*+]\s+\[)([ xX])(\]\s+)(.*)$/;
+
+/**
+ * Mark lines inside fenced code blocks, which can never be headings or cards.
+ * A fence opened in a card description only runs while the lines stay
+ * indented, so an unclosed one can't swallow the cards and columns below.
+ */
+function findFencedLines(lines: string[]): boolean[] {
+  const fenced = new Array<boolean>(lines.length).fill(false);
+  let fence: { marker: string; inDescription: boolean } | null = null;
+
+  // Fences in a description are matched with the card's indentation removed
+  const matchFence = (line: string, inDescription: boolean) =>
+    (inDescription ? dedentDescriptionLine(line) : line).match(FENCE_LINE);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (fence?.inDescription && line.trim() !== '' && !isDescriptionLine(line)) {
+      fence = null;
+    }
+
+    if (fence) {
+      fenced[i] = true;
+      const match = matchFence(line, fence.inDescription);
+      if (match && match[1][0] === fence.marker[0] && match[1].length >= fence.marker.length) {
+        fence = null;
+      }
+    } else {
+      const inDescription = isDescriptionLine(line);
+      const match = matchFence(line, inDescription);
+      if (match) {
+        fenced[i] = true;
+        fence = { marker: match[1], inDescription };
+      }
+    }
+  }
+
+  return fenced;
+}
+
+/**
+ * Find the # headings that start swimlanes.
+ *
+ * A lane heading sits directly above a ## column, with only blank lines in
+ * between. Lanes only exist once such a heading appears after the first
+ * column, so a lone "# Title" above the columns stays the board title, and #
+ * headings without columns below them (e.g. "# Notes" at the end) never turn
+ * the board into lanes.
+ */
+function findLaneLines(lines: string[], fenced: boolean[]): Set<number> {
+  const isColumn = (i: number) => !fenced[i] && COLUMN_HEADING.test(lines[i]);
+
+  const laneLines = new Set<number>();
+  lines.forEach((line, i) => {
+    if (fenced[i] || !LANE_HEADING.test(line)) return;
+    let next = i + 1;
+    while (next < lines.length && lines[next].trim() === '') next++;
+    if (next < lines.length && isColumn(next)) {
+      laneLines.add(i);
+    }
+  });
+
+  const firstColumn = lines.findIndex((_, i) => isColumn(i));
+  if (firstColumn === -1 || ![...laneLines].some((i) => i > firstColumn)) {
+    return new Set();
+  }
+  return laneLines;
+}
+
+/**
+ * Whether a line is indented enough to belong to a card description
+ */
+function isDescriptionLine(line: string): boolean {
+  return /^(\s{2,}|\t)\S/.test(line);
+}
+
+/**
+ * Remove one level of card indentation from a description line
+ */
+function dedentDescriptionLine(line: string): string {
+  if (line.startsWith('  ')) return line.slice(2);
+  if (line.startsWith('\t')) return line.slice(1);
+  return line.trim() === '' ? '' : line.trimStart();
+}
+
+/**
+ * Split trailing blank lines off a block of lines
+ */
+function splitTrailingBlankLines(lines: string[]): { body: string[]; blanks: string[] } {
+  let end = lines.length;
+  while (end > 0 && lines[end - 1].trim() === '') {
+    end--;
+  }
+  return { body: lines.slice(0, end), blanks: lines.slice(end) };
+}
+
+/**
+ * Canonical markdown for the board settings and preamble
+ */
+function serializeBoardHeader(board: Pick<KanbanBoard, 'preamble' | 'settings'>): string[] {
+  const lines: string[] = [];
+
+  // Add board settings
+  if (board.settings?.showThumbnails === false) {
+    lines.push('[no-thumbnails]');
+    lines.push('');
+  }
+  if (board.settings?.enforceWip) {
+    lines.push('[enforce-wip]');
+    lines.push('');
+  }
+  if (board.settings?.keys) {
+    lines.push(`[keys:${board.settings.keys.prefix}-${board.settings.keys.next}]`);
+    lines.push('');
+  }
+  if (board.settings?.folder) {
+    lines.push(`[folder:${board.settings.folder.path}=${board.settings.folder.key}]`);
+    lines.push('');
+  }
+  if (board.settings?.views?.length) {
+    for (const view of board.settings.views) {
+      // Brackets would end the line early or read as another setting, and a
+      // line break would split it
+      const query = view.query.replace(/[[\]]/g, '').replace(/\s+/g, ' ').trim();
+      lines.push(`[view:${view.name}=${query}]`);
+    }
+    lines.push('');
+  }
+
+  // Add preamble if present
+  if (board.preamble.trim()) {
+    lines.push(board.preamble);
+    lines.push('');
+  }
+
+  return lines;
+}
+
 /**
  * Parse markdown into a KanbanBoard structure
  */
 export function parseMarkdown(markdown: string): KanbanBoard {
-  const lines = markdown.split('\n');
+  const eol = markdown.includes('\r\n') ? '\r\n' : '\n';
+  const ending = markdown.match(/(?:\r?\n)*$/)![0];
+  const lines = markdown.split(eol);
+  const fenced = findFencedLines(lines);
+  const laneLines = findLaneLines(lines, fenced);
+
   const board: KanbanBoard = {
     preamble: '',
     columns: [],
   };
 
+  const headerLines: string[] = [];
+  let currentLane: KanbanLane | null = null;
   let currentColumn: KanbanColumn | null = null;
   let currentCard: KanbanCard | null = null;
-  let preambleLines: string[] = [];
-  let inPreamble = true;
+  let descriptionLines: string[] = [];
+
+  // Attach the pending card's description and close it
+  const finishCard = () => {
+    if (!currentCard) return;
+    const description = descriptionLines.map(dedentDescriptionLine).join('\n');
+    currentCard.description = description;
+    currentCard.source!.descriptionLines = descriptionLines;
+    currentCard.source!.description = description;
+    currentCard = null;
+    descriptionLines = [];
+  };
+
+  // Move blank lines at the end of the column from its last block to its tail
+  const finishColumn = () => {
+    finishCard();
+    if (!currentColumn) return;
+    const lastCard = currentColumn.cards[currentColumn.cards.length - 1];
+    if (lastCard) {
+      const { body, blanks } = splitTrailingBlankLines(lastCard.trailing ?? []);
+      lastCard.trailing = body;
+      currentColumn.tail = blanks;
+    } else {
+      const notes = currentColumn.notes ?? [];
+      const { body, blanks } = splitTrailingBlankLines(notes);
+      // An empty column keeps its first blank line as the gap below the heading
+      const keep = body.length === 0 ? Math.min(1, blanks.length) : body.length;
+      currentColumn.notes = notes.slice(0, keep);
+      // Without extra blank lines, leave the tail to default so added cards get a gap below them
+      if (keep < notes.length) {
+        currentColumn.tail = notes.slice(keep);
+      }
+    }
+    currentColumn = null;
+  };
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
 
+    // Check for swimlane heading (# Lane), once lanes are in use
+    const laneMatch = laneLines.has(i) ? line.match(LANE_HEADING) : null;
+    if (laneMatch) {
+      finishColumn();
+      const title = laneMatch[1].trim();
+      currentLane = {
+        id: generateId(),
+        title,
+        notes: [],
+        source: { line, heading: `# ${title}` },
+      };
+      board.lanes = [...(board.lanes ?? []), currentLane];
+      continue;
+    }
+
     // Check for column heading (## Title or ## Title [auto-complete])
-    const columnMatch = line.match(/^##\s+(.+)$/);
+    const columnMatch = fenced[i] ? null : line.match(COLUMN_HEADING);
     if (columnMatch) {
-      // Save any pending card
-      if (currentCard && currentColumn) {
-        currentCard.description = currentCard.description.trim();
-        currentColumn.cards.push(currentCard);
-        currentCard = null;
-      }
+      finishColumn();
 
       // Parse title and settings
       const rawTitle = columnMatch[1].trim();
       const { title, settings } = parseColumnTitle(rawTitle);
 
       // Start new column
-      inPreamble = false;
       currentColumn = {
         id: generateId(),
         title,
         cards: [],
         settings,
+        notes: [],
       };
+      currentColumn.source = { line, heading: `## ${serializeColumnTitle(currentColumn)}` };
+      if (currentLane) {
+        currentColumn.laneId = currentLane.id;
+      }
       board.columns.push(currentColumn);
       continue;
     }
 
     // Check for task item (- [ ] or - [x])
-    const taskMatch = line.match(/^-\s+\[([ xX])\]\s+(.*)$/);
+    const taskMatch = fenced[i] ? null : line.match(TASK_LINE);
     if (taskMatch && currentColumn) {
-      // Save any pending card
-      if (currentCard) {
-        currentCard.description = currentCard.description.trim();
-        currentColumn.cards.push(currentCard);
-      }
+      finishCard();
 
-      // Start new card
+      const text = taskMatch[2].trim();
+      const completed = taskMatch[1].toLowerCase() === 'x';
       currentCard = {
         id: generateId(),
-        text: taskMatch[2].trim(),
+        text,
         description: '',
-        completed: taskMatch[1].toLowerCase() === 'x',
+        completed,
+        metadata: parseCardMetadata(text),
+        trailing: [],
+        source: { line, text, completed, descriptionLines: [], description: '' },
       };
+      currentColumn.cards.push(currentCard);
       continue;
     }
 
-    // Check for description (indented text after a card)
-    if (currentCard && line.match(/^\s{2,}/) && line.trim()) {
-      currentCard.description += (currentCard.description ? '\n' : '') + line.trim();
-      continue;
+    // Check for description (indented text after a card, including blank
+    // lines between indented paragraphs)
+    if (currentCard && currentCard.trailing!.length === 0) {
+      if (isDescriptionLine(line)) {
+        descriptionLines.push(line);
+        continue;
+      }
+      if (line.trim() === '') {
+        let next = i + 1;
+        while (next < lines.length && lines[next].trim() === '') next++;
+        if (next < lines.length && isDescriptionLine(lines[next])) {
+          descriptionLines.push(line);
+          continue;
+        }
+      }
     }
 
-    // Preamble content (before first column)
-    if (inPreamble) {
-      preambleLines.push(line);
+    // Anything else is kept verbatim where it appeared
+    if (currentCard) {
+      currentCard.trailing!.push(line);
+    } else if (currentColumn) {
+      currentColumn.notes!.push(line);
+    } else if (currentLane) {
+      currentLane.notes!.push(line);
+    } else {
+      headerLines.push(line);
     }
   }
 
-  // Save any remaining card
-  if (currentCard && currentColumn) {
-    currentCard.description = currentCard.description.trim();
-    currentColumn.cards.push(currentCard);
-  }
-
-  // Clean up preamble (remove trailing empty lines)
-  while (preambleLines.length > 0 && preambleLines[preambleLines.length - 1].trim() === '') {
-    preambleLines.pop();
-  }
+  finishColumn();
 
   // Parse board settings from preamble
+  const { body: preambleLines } = splitTrailingBlankLines(headerLines);
   const rawPreamble = preambleLines.join('\n');
   const { cleanPreamble, settings: boardSettings } = parseBoardSettings(rawPreamble);
   board.preamble = cleanPreamble;
   board.settings = boardSettings;
 
-  // If no columns found, create default columns
+  // Never hand out a key that is already on the board
+  const keys = board.settings?.keys;
+  if (keys) {
+    keys.next = Math.max(keys.next, highestCardKey(board, keys.prefix) + 1);
+  }
+
+  // If no columns found, create default columns (written out canonically)
   if (board.columns.length === 0) {
     board.columns = [
       { id: generateId(), title: 'To Do', cards: [] },
       { id: generateId(), title: 'In Progress', cards: [] },
       { id: generateId(), title: 'Done', cards: [] },
     ];
+    return board;
   }
 
+  board.source = {
+    header: serializeBoardHeader(board).join('\n'),
+    headerLines,
+    eol,
+    ending,
+  };
+
   return board;
 }
 
@@ -210,44 +724,268 @@ export function parseMarkdown(markdown: string): KanbanBoard {
 export function serializeBoard(board: KanbanBoard): string {
   const lines: string[] = [];
 
-  // Add board settings
-  if (board.settings?.showThumbnails === false) {
-    lines.push('[no-thumbnails]');
-    lines.push('');
+  // Board settings and preamble, verbatim while unchanged
+  const header = serializeBoardHeader(board);
+  if (board.source && board.source.header === header.join('\n')) {
+    lines.push(...board.source.headerLines);
+  } else {
+    lines.push(...header);
   }
 
-  // Add preamble if present
-  if (board.preamble.trim()) {
-    lines.push(board.preamble);
-    lines.push('');
+  // Serialize columns outside any lane first, then each lane with its columns
+  const lanes = board.lanes ?? [];
+  const laneIds = new Set(lanes.map((lane) => lane.id));
+  const sections: { lane: KanbanLane | null; columns: KanbanColumn[] }[] = [
+    { lane: null, columns: board.columns.filter((c) => !c.laneId || !laneIds.has(c.laneId)) },
+    ...lanes.map((lane) => ({
+      lane,
+      columns: board.columns.filter((c) => c.laneId === lane.id),
+    })),
+  ];
+
+  for (const section of sections) {
+    if (section.lane) {
+      const heading = `# ${section.lane.title}`;
+      lines.push(section.lane.source?.heading === heading ? section.lane.source.line : heading);
+      lines.push(...(section.lane.notes ?? DEFAULT_BLOCK_SPACING));
+    }
+    for (const column of section.columns) {
+      serializeColumn(column, lines);
+    }
   }
 
-  // Serialize each column
+  // Parsed boards keep their original line endings; new boards end with one newline
+  const eol = board.source?.eol ?? '\n';
+  const ending = board.source?.ending ?? '\n';
+  return lines.join(eol).replace(/(?:\r?\n)+$/, '') + ending;
+}
+
+/**
+ * Serialize a single column and its cards
+ */
+function serializeColumn(column: KanbanColumn, lines: string[]): void {
+  const heading = `## ${serializeColumnTitle(column)}`;
+  lines.push(column.source?.heading === heading ? column.source.line : heading);
+  lines.push(...(column.notes ?? DEFAULT_BLOCK_SPACING));
+
+  for (const card of column.cards) {
+    serializeCard(card, lines);
+  }
+
+  // Empty columns are closed by their notes; a blank line follows the last card
+  lines.push(...(column.tail ?? (column.cards.length > 0 ? DEFAULT_BLOCK_SPACING : [])));
+}
+
+/**
+ * Serialize a single card, reusing its original lines where nothing changed
+ */
+function serializeCard(card: KanbanCard, lines: string[]): void {
+  const { source } = card;
+
+  if (source && source.text === card.text && source.completed === card.completed) {
+    lines.push(source.line);
+  } else {
+    const checkbox = card.completed ? '[x]' : '[ ]';
+    lines.push(`- ${checkbox} ${card.text}`);
+  }
+
+  // Add description with indentation
+  if (card.description) {
+    const descLines = card.description.split('\n');
+    const originalLines = source?.description.split('\n');
+    const sameShape =
+      source && originalLines!.length === descLines.length && source.descriptionLines.length > 0;
+    descLines.forEach((descLine, i) => {
+      const originalLine = sameShape ? source!.descriptionLines[i] : undefined;
+      if (originalLine !== undefined && originalLines![i] === descLine) {
+        // Untouched line: keep its exact original indentation
+        lines.push(originalLine);
+      } else if (originalLine && descLine.trim() && originalLine.endsWith(originalLines![i])) {
+        // Edited line: reuse the original line's indentation (tabs stay tabs)
+        const indent = originalLine.slice(0, originalLine.length - originalLines![i].length);
+        lines.push(`${indent}${descLine}`);
+      } else {
+        lines.push(descLine.trim() === '' ? '' : `  ${descLine}`);
+      }
+    });
+  }
+
+  lines.push(...(card.trailing ?? []));
+}
+
+/**
+ * Extract the checklist items (- [ ] / - [x] lines) from a card description
+ */
+export function parseSubtasks(description: string): Subtask[] {
+  if (!description) return [];
+
+  const lines = description.split('\n');
+  const fenced = findFencedLines(lines);
+  const subtasks: Subtask[] = [];
+  lines.forEach((line, i) => {
+    const match = fenced[i] ? null : line.match(SUBTASK_LINE);
+    if (match) {
+      subtasks.push({ text: match[4], completed: match[2] !== ' ', line: i });
+    }
+  });
+  return subtasks;
+}
+
+/**
+ * Toggle a checklist item in a card's description, rewriting only its line
+ */
+export function toggleSubtask(board: KanbanBoard, cardId: string, subtaskIndex: number): KanbanBoard {
   for (const column of board.columns) {
-    lines.push(`## ${serializeColumnTitle(column)}`);
-    lines.push('');
+    const card = column.cards.find((c) => c.id === cardId);
+    if (!card) continue;
 
+    const subtask = parseSubtasks(card.description)[subtaskIndex];
+    if (subtask) {
+      const lines = card.description.split('\n');
+      lines[subtask.line] = lines[subtask.line].replace(
+        SUBTASK_LINE,
+        (_match, open, _mark, close, text) => `${open}${subtask.completed ? ' ' : 'x'}${close}${text}`
+      );
+      card.description = lines.join('\n');
+    }
+    break;
+  }
+  return board;
+}
+
+/**
+ * Highest key number in use on the board for a prefix (0 if none)
+ */
+function highestCardKey(board: KanbanBoard, prefix: string): number {
+  let highest = 0;
+  for (const column of board.columns) {
     for (const card of column.cards) {
-      const checkbox = card.completed ? '[x]' : '[ ]';
-      lines.push(`- ${checkbox} ${card.text}`);
-
-      // Add description with indentation
-      if (card.description) {
-        const descLines = card.description.split('\n');
-        for (const descLine of descLines) {
-          lines.push(`  ${descLine}`);
-        }
+      const key = card.metadata.key;
+      if (key && key.slice(0, key.lastIndexOf('-')).toLowerCase() === prefix.toLowerCase()) {
+        highest = Math.max(highest, parseInt(key.slice(key.lastIndexOf('-') + 1), 10));
       }
     }
+  }
+  return highest;
+}
 
-    lines.push('');
+/**
+ * Give a card the board's next key, if the board uses keys and the card has none
+ */
+export function assignCardKey(board: KanbanBoard, cardId: string): KanbanBoard {
+  const keys = board.settings?.keys;
+  const card = board.columns.flatMap((c) => c.cards).find((c) => c.id === cardId);
+  if (!keys || !card || card.metadata.key) {
+    return board;
   }
 
-  return lines.join('\n').trim() + '\n';
+  const metadata = { ...card.metadata, key: `${keys.prefix}-${keys.next}` };
+  keys.next++;
+  card.text = applyCardMetadata(card.text, metadata);
+  card.metadata = parseCardMetadata(card.text);
+  return board;
+}
+
+/**
+ * Find a card by its persistent key (case-insensitive)
+ */
+export function findCardByKey(board: KanbanBoard, key: string): KanbanCard | null {
+  const lower = key.toLowerCase();
+  for (const column of board.columns) {
+    const card = column.cards.find((c) => c.metadata.key?.toLowerCase() === lower);
+    if (card) return card;
+  }
+  return null;
+}
+
+/**
+ * Find a card by position, falling back to a match on its text if the board
+ * has been reordered since the position was taken
+ */
+export function findCardAt(
+  board: KanbanBoard,
+  columnIndex: number,
+  cardIndex: number,
+  text: string
+): KanbanCard | undefined {
+  const card = board.columns[columnIndex]?.cards[cardIndex];
+  if (card?.text === text) {
+    return card;
+  }
+  return board.columns.flatMap((c) => c.cards).find((c) => c.text === text);
+}
+
+/**
+ * Check whether moving a card into a column would push it past its WIP limit.
+ * Reordering within the same column never counts against the limit.
+ */
+export function wouldExceedWipLimit(
+  board: KanbanBoard,
+  cardId: string,
+  toColumnId: string
+): boolean {
+  const targetColumn = board.columns.find((c) => c.id === toColumnId);
+  const limit = targetColumn?.settings?.wipLimit;
+  if (!targetColumn || !limit) {
+    return false;
+  }
+  if (targetColumn.cards.some((c) => c.id === cardId)) {
+    return false;
+  }
+  return targetColumn.cards.length + 1 > limit;
+}
+
+/**
+ * Take a card out of its column. Lines written after it (paragraphs, code
+ * fences) stay where they are: they go to the previous card, or to the
+ * column's notes when the card was first.
+ */
+function removeCardAt(column: KanbanColumn, index: number): KanbanCard {
+  const [card] = column.cards.splice(index, 1);
+  const previous = column.cards[index - 1];
+  const endsWithGap = (lines: string[]) => lines.length > 0 && lines[lines.length - 1].trim() === '';
+
+  let before = previous ? previous.trailing ?? [] : column.notes ?? DEFAULT_BLOCK_SPACING;
+  const trailing = card.trailing ?? [];
+  if (trailing.length > 0) {
+    // Keep a single blank line where the card's gap meets a gap above it
+    before = [...before, ...(endsWithGap(before) && trailing[0].trim() === '' ? trailing.slice(1) : trailing)];
+  }
+  // Without the last card, the gap above it meets the column's tail
+  if (index === column.cards.length && endsWithGap(before)) {
+    if (previous) {
+      before = splitTrailingBlankLines(before).body;
+    } else if (column.tail?.[0]?.trim() === '') {
+      column.tail = column.tail.slice(1);
+    }
+  }
+
+  if (previous) {
+    previous.trailing = before;
+  } else if (trailing.length > 0) {
+    column.notes = before;
+  }
+  return card;
+}
+
+/**
+ * Put a card into a column with canonical spacing: nothing after it, and a
+ * blank line before it when it follows a paragraph or code fence
+ */
+function placeCard(column: KanbanColumn, card: KanbanCard, atIndex = column.cards.length): void {
+  const index = Math.min(atIndex, column.cards.length);
+  card.trailing = [];
+  const previous = column.cards[index - 1];
+  const before = previous ? previous.trailing : column.notes;
+  if (before && before.length > 0 && before[before.length - 1].trim() !== '') {
+    before.push('');
+  }
+  column.cards.splice(index, 0, card);
 }
 
 /**
  * Move a card from one position to another
+ * When the board enforces WIP limits, moves past a limit are ignored.
  */
 export function moveCard(
   board: KanbanBoard,
@@ -255,13 +993,17 @@ export function moveCard(
   toColumnId: string,
   toIndex: number
 ): KanbanBoard {
+  if (board.settings?.enforceWip && wouldExceedWipLimit(board, cardId, toColumnId)) {
+    return board;
+  }
+
   // Find and remove the card from its current position
   let movedCard: KanbanCard | null = null;
 
   for (const column of board.columns) {
     const cardIndex = column.cards.findIndex((c) => c.id === cardId);
     if (cardIndex !== -1) {
-      movedCard = column.cards.splice(cardIndex, 1)[0];
+      movedCard = removeCardAt(column, cardIndex);
       break;
     }
   }
@@ -278,7 +1020,7 @@ export function moveCard(
       movedCard.completed = true;
     }
 
-    targetColumn.cards.splice(toIndex, 0, movedCard);
+    placeCard(targetColumn, movedCard, toIndex);
   }
 
   return board;
@@ -314,24 +1056,52 @@ export function addCard(
       text,
       description: '',
       completed: false,
+      metadata: parseCardMetadata(text),
     };
 
-    if (atIndex !== undefined) {
-      column.cards.splice(atIndex, 0, newCard);
-    } else {
-      column.cards.push(newCard);
+    placeCard(column, newCard, atIndex);
+    assignCardKey(board, newCard.id);
+  }
+  return board;
+}
+
+/**
+ * Insert a card taken from another board (the source removes it with deleteCard).
+ * Text, description and state carry over; the card gets a fresh id, the target
+ * column's auto-complete, and a key if the board issues them and it has none.
+ * An existing key is kept so references to it keep resolving.
+ */
+export function insertCard(
+  board: KanbanBoard,
+  columnId: string,
+  card: KanbanCard,
+  atIndex?: number
+): KanbanBoard {
+  const column = board.columns.find((c) => c.id === columnId);
+  if (column) {
+    const newCard: KanbanCard = {
+      ...card,
+      id: generateId(),
+      metadata: parseCardMetadata(card.text),
+    };
+    if (column.settings?.autoComplete) {
+      newCard.completed = true;
     }
+
+    placeCard(column, newCard, atIndex);
+    assignCardKey(board, newCard.id);
   }
   return board;
 }
 
 /**
- * Update a card's text
+ * Update a card's text, description or metadata
+ * Metadata updates are written back into the card line as tokens.
  */
 export function updateCard(
   board: KanbanBoard,
   cardId: string,
-  updates: Partial<Pick<KanbanCard, 'text' | 'description'>>
+  updates: Partial<Pick<KanbanCard, 'text' | 'description' | 'metadata'>>
 ): KanbanBoard {
   for (const column of board.columns) {
     const card = column.cards.find((c) => c.id === cardId);
@@ -339,6 +1109,12 @@ export function updateCard(
       if (updates.text !== undefined) {
         card.text = updates.text;
       }
+      if (updates.metadata !== undefined) {
+        card.text = applyCardMetadata(card.text, updates.metadata);
+      }
+      if (updates.text !== undefined || updates.metadata !== undefined) {
+        card.metadata = parseCardMetadata(card.text);
+      }
       if (updates.description !== undefined) {
         card.description = updates.description;
       }
@@ -355,7 +1131,7 @@ export function deleteCard(board: KanbanBoard, cardId: string): KanbanBoard {
   for (const column of board.columns) {
     const cardIndex = column.cards.findIndex((c) => c.id === cardId);
     if (cardIndex !== -1) {
-      column.cards.splice(cardIndex, 1);
+      removeCardAt(column, cardIndex);
       break;
     }
   }
@@ -391,12 +1167,20 @@ export function updateBoardSettings(
 /**
  * Add a new column to the board
  */
-export function addColumn(board: KanbanBoard, title: string, atIndex?: number): KanbanBoard {
+export function addColumn(
+  board: KanbanBoard,
+  title: string,
+  atIndex?: number,
+  laneId?: string
+): KanbanBoard {
   const newColumn: KanbanColumn = {
     id: generateId(),
     title,
     cards: [],
   };
+  if (laneId) {
+    newColumn.laneId = laneId;
+  }
 
   if (atIndex !== undefined) {
     board.columns.splice(atIndex, 0, newColumn);
@@ -406,3 +1190,99 @@ export function addColumn(board: KanbanBoard, title: string, atIndex?: number):
 
   return board;
 }
+
+/**
+ * Rename a column, keeping its settings
+ */
+export function renameColumn(board: KanbanBoard, columnId: string, title: string): KanbanBoard {
+  const column = board.columns.find((c) => c.id === columnId);
+  const trimmed = title.trim();
+  if (column && trimmed) {
+    column.title = trimmed;
+  }
+  return board;
+}
+
+/**
+ * Move a column before or after another column, joining that column's lane
+ */
+export function moveColumn(
+  board: KanbanBoard,
+  columnId: string,
+  targetColumnId: string,
+  position: 'before' | 'after'
+): KanbanBoard {
+  if (columnId === targetColumnId) {
+    return board;
+  }
+
+  const fromIndex = board.columns.findIndex((c) => c.id === columnId);
+  if (fromIndex === -1 || !board.columns.some((c) => c.id === targetColumnId)) {
+    return board;
+  }
+
+  const [column] = board.columns.splice(fromIndex, 1);
+  const targetIndex = board.columns.findIndex((c) => c.id === targetColumnId);
+  const target = board.columns[targetIndex];
+
+  if (target.laneId) {
+    column.laneId = target.laneId;
+  } else {
+    delete column.laneId;
+  }
+
+  board.columns.splice(position === 'after' ? targetIndex + 1 : targetIndex, 0, column);
+  return board;
+}
+
+/**
+ * Delete a column. Its cards are appended to another column when
+ * moveCardsTo is given, otherwise they are deleted with it.
+ */
+export function deleteColumn(
+  board: KanbanBoard,
+  columnId: string,
+  moveCardsTo?: string
+): KanbanBoard {
+  const index = board.columns.findIndex((c) => c.id === columnId);
+  if (index === -1) {
+    return board;
+  }
+
+  const [column] = board.columns.splice(index, 1);
+  const target = moveCardsTo ? board.columns.find((c) => c.id === moveCardsTo) : undefined;
+  if (target) {
+    for (const card of column.cards) {
+      if (target.settings?.autoComplete) {
+        card.completed = true;
+      }
+      placeCard(target, card);
+    }
+  }
+
+  return board;
+}
+
+/**
+ * Get the columns of a lane in board order (columns outside any lane when laneId is undefined)
+ */
+export function getLaneColumns(board: KanbanBoard, laneId: string | undefined): KanbanColumn[] {
+  return board.columns.filter((c) => c.laneId === laneId);
+}
+
+/**
+ * Find the column a card dropped onto a lane should land in: the lane's
+ * column with the same title as the card's current column, else its first column
+ */
+export function findLaneDropColumn(
+  board: KanbanBoard,
+  cardId: string,
+  laneId: string
+): KanbanColumn | null {
+  const laneColumns = getLaneColumns(board, laneId);
+  const sourceColumn = board.columns.find((c) => c.cards.some((card) => card.id === cardId));
+  const sameTitle = sourceColumn
+    ? laneColumns.find((c) => c.title.toLowerCase() === sourceColumn.title.toLowerCase())
+    : undefined;
+  return sameTitle ?? laneColumns[0] ?? null;
+}
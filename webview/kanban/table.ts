@@ -0,0 +1,538 @@
+/**
+ * Table View
+ *
+ * Alternate view of the board as one row per card: status (the card's
+ * column), title, done, assignees, tags, dates, priority and key. Rows
+ * sort by any field and can be grouped; cells edit the card in place through
+ * the same board operations as the columns view, so the markdown is unchanged.
+ */
+
+import type { KanbanBoard, KanbanCard, KanbanColumn, CardMetadata, CardPriority } from './parser';
+import { getCardTitle, setCardTitle } from './parser';
+import { isFilterActive, matchesFilter, type CardFilter } from './filter';
+import { parseListInput } from './modal';
+import { todayIso } from './dates';
+
+export type TableSortKey =
+  | 'status'
+  | 'title'
+  | 'done'
+  | 'assignees'
+  | 'tags'
+  | 'start'
+  | 'due'
+  | 'priority'
+  | 'key';
+
+export type TableGroupBy = 'none' | 'status' | 'lane' | 'assignee' | 'tag' | 'priority' | 'done';
+
+export interface TableSort {
+  key: TableSortKey;
+  descending?: boolean;
+}
+
+export interface TableRow {
+  card: KanbanCard;
+  column: KanbanColumn;
+  status: string; // Column title, prefixed with the lane on boards with swimlanes
+  lane?: string;
+  order: number; // Position on the board, for the default sort
+}
+
+export interface TableGroup {
+  label: string; // Empty when rows are not grouped
+  rows: TableRow[];
+}
+
+export interface TableCallbacks {
+  onToggleCard: (cardId: string) => void;
+  onCardTextChange: (cardId: string, text: string) => void;
+  onCardMetadataChange: (cardId: string, metadata: CardMetadata) => void;
+  onMoveCard: (cardId: string, columnId: string) => void;
+  onOpenCard: (cardId: string) => void;
+  onSortChange: (sort: TableSort | undefined) => void;
+}
+
+export interface TableViewOptions {
+  sort?: TableSort;
+  groupBy?: TableGroupBy;
+  filter?: CardFilter;
+  filterMode?: 'dim' | 'hide';
+}
+
+const PRIORITY_RANK: Record<CardPriority, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Every card on the board in board order (lanes, then columns, then cards)
+ */
+export function getTableRows(board: KanbanBoard): TableRow[] {
+  const lanes = new Map((board.lanes ?? []).map((lane) => [lane.id, lane.title]));
+  const rows: TableRow[] = [];
+  for (const column of board.columns) {
+    const lane = column.laneId ? lanes.get(column.laneId) : undefined;
+    for (const card of column.cards) {
+      rows.push({
+        card,
+        column,
+        status: lane ? `${lane} › ${column.title}` : column.title,
+        lane,
+        order: rows.length,
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Comparable value of a row for a sort key; undefined sorts last either way
+ */
+function getSortValue(row: TableRow, key: TableSortKey): string | number | undefined {
+  const { card } = row;
+  switch (key) {
+    case 'status':
+      return row.order;
+    case 'title':
+      return (getCardTitle(card.text) || card.text).toLowerCase();
+    case 'done':
+      return card.completed ? 1 : 0;
+    case 'assignees':
+      return card.metadata.assignees[0]?.toLowerCase();
+    case 'tags':
+      return card.metadata.tags[0]?.toLowerCase();
+    case 'start':
+      return card.metadata.start;
+    case 'due':
+      return card.metadata.due;
+    case 'priority':
+      return card.metadata.priority ? PRIORITY_RANK[card.metadata.priority] : undefined;
+    case 'key': {
+      // Compare PM-9 before PM-10
+      const match = card.metadata.key?.match(/^(.*)-(\d+)$/);
+      return match ? `${match[1]}-${match[2].padStart(8, '0')}` : undefined;
+    }
+  }
+}
+
+/**
+ * Sort rows by a field, keeping board order between equal rows. Without a
+ * sort the rows stay in board order.
+ */
+export function sortTableRows(rows: TableRow[], sort?: TableSort): TableRow[] {
+  const sorted = [...rows];
+  if (!sort) return sorted.sort((a, b) => a.order - b.order);
+
+  const direction = sort.descending ? -1 : 1;
+  return sorted.sort((a, b) => {
+    const av = getSortValue(a, sort.key);
+    const bv = getSortValue(b, sort.key);
+    if (av === bv) return a.order - b.order;
+    if (av === undefined) return 1;
+    if (bv === undefined) return -1;
+    return (av < bv ? -1 : 1) * direction;
+  });
+}
+
+/**
+ * Split sorted rows into groups. Status and lane groups follow the board;
+ * a card with several assignees or tags appears under each of them, and the
+ * catch-all group comes last.
+ */
+export function groupTableRows(rows: TableRow[], groupBy: TableGroupBy = 'none'): TableGroup[] {
+  if (groupBy === 'none') {
+    return [{ label: '', rows }];
+  }
+
+  const groups = new Map<string, TableRow[]>();
+  const add = (label: string, row: TableRow) => {
+    groups.set(label, [...(groups.get(label) ?? []), row]);
+  };
+
+  let fallback: string | undefined;
+  for (const row of rows) {
+    const { metadata } = row.card;
+    switch (groupBy) {
+      case 'status':
+        add(row.status, row);
+        break;
+      case 'lane':
+        fallback = 'No lane';
+        add(row.lane ?? fallback, row);
+        break;
+      case 'assignee':
+        fallback = 'Unassigned';
+        if (metadata.assignees.length === 0) add(fallback, row);
+        metadata.assignees.forEach((name) => add(`@${name}`, row));
+        break;
+      case 'tag':
+        fallback = 'No tag';
+        if (metadata.tags.length === 0) add(fallback, row);
+        metadata.tags.forEach((tag) => add(`#${tag}`, row));
+        break;
+      case 'priority':
+        fallback = 'No priority';
+        add(metadata.priority ? `!${metadata.priority}` : fallback, row);
+        break;
+      case 'done':
+        add(row.card.completed ? 'Done' : 'Open', row);
+        break;
+    }
+  }
+
+  const result = [...groups].map(([label, groupRows]) => ({ label, rows: groupRows }));
+  const firstOrder = (group: TableGroup) => Math.min(...group.rows.map((row) => row.order));
+
+  switch (groupBy) {
+    case 'status':
+    case 'lane':
+      // Board order; cards outside any lane come first, as on the board
+      return result.sort((a, b) => firstOrder(a) - firstOrder(b));
+    case 'priority':
+      return result.sort((a, b) => rankPriorityGroup(a.label) - rankPriorityGroup(b.label));
+    case 'done':
+      return result.sort((a, b) => Number(a.label === 'Done') - Number(b.label === 'Done'));
+    default:
+      return result.sort((a, b) => {
+        if (a.label === fallback) return 1;
+        if (b.label === fallback) return -1;
+        return a.label.localeCompare(b.label, undefined, { sensitivity: 'base' });
+      });
+  }
+}
+
+function rankPriorityGroup(label: string): number {
+  const priority = label.slice(1) as CardPriority;
+  return label.startsWith('!') && priority in PRIORITY_RANK ? PRIORITY_RANK[priority] : 3;
+}
+
+// --- Rendering ---
+
+const COLUMNS: { key: TableSortKey; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'status', label: 'Status' },
+  { key: 'done', label: 'Done' },
+  { key: 'assignees', label: 'Assignees' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'start', label: 'Start' },
+  { key: 'due', label: 'Due' },
+  { key: 'priority', label: 'Priority' },
+  { key: 'key', label: 'Key' },
+];
+
+/**
+ * Render the table view into the board container
+ */
+export function renderTable(
+  container: HTMLElement,
+  board: KanbanBoard,
+  callbacks: TableCallbacks,
+  options: TableViewOptions = {}
+): void {
+  // Re-rendering replaces every cell, so remember which one had focus
+  const active = document.activeElement as HTMLElement | null;
+  const focusedRow = container.contains(active) ? active?.closest<HTMLElement>('.kanban-table-row') : null;
+  const focusedField = active?.closest<HTMLElement>('[data-field]')?.dataset.field;
+  const focusedCardId = focusedRow?.dataset.cardId;
+
+  container.innerHTML = '';
+
+  const table = document.createElement('table');
+  table.className = 'kanban-table';
+  table.setAttribute('aria-label', 'Cards');
+
+  const thead = document.createElement('thead');
+  const headRow = document.createElement('tr');
+  for (const column of COLUMNS) {
+    headRow.appendChild(renderHeaderCell(column.key, column.label, options.sort, callbacks));
+  }
+  thead.appendChild(headRow);
+  table.appendChild(thead);
+
+  const rows = sortTableRows(getTableRows(board), options.sort);
+  const filter = options.filter && isFilterActive(options.filter) ? options.filter : undefined;
+
+  for (const group of groupTableRows(rows, options.groupBy)) {
+    const tbody = document.createElement('tbody');
+    if (group.label) {
+      const groupRow = document.createElement('tr');
+      groupRow.className = 'table-group-row';
+      const groupCell = document.createElement('th');
+      groupCell.colSpan = COLUMNS.length;
+      groupCell.scope = 'colgroup';
+      groupCell.textContent = group.label;
+      const countEl = document.createElement('span');
+      countEl.className = 'column-count';
+      countEl.textContent = String(group.rows.length);
+      groupCell.appendChild(countEl);
+      groupRow.appendChild(groupCell);
+      tbody.appendChild(groupRow);
+    }
+    for (const row of group.rows) {
+      const rowEl = renderRow(row, board, callbacks);
+      if (filter) {
+        rowEl.classList.add(
+          matchesFilter(row.card, filter)
+            ? 'filter-match'
+            : options.filterMode === 'hide'
+              ? 'filter-hidden'
+              : 'filter-dimmed'
+        );
+      }
+      tbody.appendChild(rowEl);
+    }
+    table.appendChild(tbody);
+  }
+
+  if (rows.length === 0) {
+    const tbody = document.createElement('tbody');
+    const emptyRow = document.createElement('tr');
+    const emptyCell = document.createElement('td');
+    emptyCell.className = 'table-empty';
+    emptyCell.colSpan = COLUMNS.length;
+    emptyCell.textContent = 'No cards on this board yet';
+    emptyRow.appendChild(emptyCell);
+    tbody.appendChild(emptyRow);
+    table.appendChild(tbody);
+  }
+
+  container.appendChild(table);
+
+  if (focusedCardId && focusedField) {
+    const cell = container.querySelector<HTMLElement>(
+      `.kanban-table-row[data-card-id="${focusedCardId}"] [data-field="${focusedField}"]`
+    );
+    (cell?.querySelector<HTMLElement>('select, input') ?? cell)?.focus();
+  }
+}
+
+/**
+ * Column header that cycles ascending → descending → board order
+ */
+function renderHeaderCell(
+  key: TableSortKey,
+  label: string,
+  sort: TableSort | undefined,
+  callbacks: TableCallbacks
+): HTMLElement {
+  const th = document.createElement('th');
+  th.scope = 'col';
+  th.className = `table-col-${key}`;
+
+  const active = sort?.key === key;
+  th.setAttribute('aria-sort', active ? (sort!.descending ? 'descending' : 'ascending') : 'none');
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'table-sort-btn';
+  button.textContent = label;
+  if (active) {
+    const arrow = document.createElement('span');
+    arrow.className = 'table-sort-arrow';
+    arrow.setAttribute('aria-hidden', 'true');
+    arrow.textContent = sort!.descending ? '▾' : '▴';
+    button.appendChild(arrow);
+  }
+  button.addEventListener('click', () => {
+    if (!active) {
+      callbacks.onSortChange({ key });
+    } else if (!sort!.descending) {
+      callbacks.onSortChange({ key, descending: true });
+    } else {
+      callbacks.onSortChange(undefined);
+    }
+  });
+
+  th.appendChild(button);
+  return th;
+}
+
+function renderRow(row: TableRow, board: KanbanBoard, callbacks: TableCallbacks): HTMLElement {
+  const { card } = row;
+  const { metadata } = card;
+  const rowEl = document.createElement('tr');
+  rowEl.className = `kanban-table-row${card.completed ? ' completed' : ''}`;
+  rowEl.dataset.cardId = card.id;
+  rowEl.tabIndex = -1;
+
+  const title = getCardTitle(card.text) || card.text;
+
+  // Title: edit in place, or open the full card
+  const titleCell = renderEditableCell('title', title, 'text', (value) => {
+    if (value && value !== title) {
+      callbacks.onCardTextChange(card.id, setCardTitle(card.text, value));
+    }
+  });
+  const openBtn = document.createElement('button');
+  openBtn.type = 'button';
+  openBtn.className = 'table-open-btn';
+  openBtn.title = 'Open card';
+  openBtn.setAttribute('aria-label', `Open ${title}`);
+  openBtn.textContent = '↗';
+  openBtn.addEventListener('click', (e) => {
+    e.stopPropagation();
+    callbacks.onOpenCard(card.id);
+  });
+  titleCell.appendChild(openBtn);
+  rowEl.appendChild(titleCell);
+
+  // Status: moving the card to another column
+  const statusCell = createCell('status');
+  const statusSelect = document.createElement('select');
+  statusSelect.className = 'table-select';
+  statusSelect.setAttribute('aria-label', `Status of ${title}`);
+  for (const statusRow of getColumnOptions(board)) {
+    const option = document.createElement('option');
+    option.value = statusRow.id;
+    option.textContent = statusRow.label;
+    statusSelect.appendChild(option);
+  }
+  statusSelect.value = row.column.id;
+  statusSelect.addEventListener('change', () => callbacks.onMoveCard(card.id, statusSelect.value));
+  statusCell.appendChild(statusSelect);
+  rowEl.appendChild(statusCell);
+
+  const doneCell = createCell('done');
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.checked = card.completed;
+  checkbox.setAttribute('aria-label', `${title} done`);
+  checkbox.addEventListener('change', () => callbacks.onToggleCard(card.id));
+  doneCell.appendChild(checkbox);
+  rowEl.appendChild(doneCell);
+
+  const updateMetadata = (changes: Partial<CardMetadata>) => {
+    callbacks.onCardMetadataChange(card.id, { ...metadata, ...changes });
+  };
+
+  const assignees = metadata.assignees.map((name) => `@${name}`).join(', ');
+  rowEl.appendChild(
+    renderEditableCell('assignees', assignees, 'text', (value) => {
+      updateMetadata({ assignees: parseListInput(value, '@') });
+    })
+  );
+
+  const tags = metadata.tags.map((tag) => `#${tag}`).join(', ');
+  rowEl.appendChild(
+    renderEditableCell('tags', tags, 'text', (value) => {
+      updateMetadata({ tags: parseListInput(value, '#') });
+    })
+  );
+
+  rowEl.appendChild(
+    renderEditableCell('start', metadata.start ?? '', 'date', (value) => {
+      updateMetadata({ start: value || undefined });
+    })
+  );
+
+  const dueCell = renderEditableCell('due', metadata.due ?? '', 'date', (value) => {
+    updateMetadata({ due: value || undefined });
+  });
+  if (metadata.due && !card.completed && metadata.due < todayIso()) {
+    dueCell.classList.add('overdue');
+  }
+  rowEl.appendChild(dueCell);
+
+  const priorityCell = createCell('priority');
+  const prioritySelect = document.createElement('select');
+  prioritySelect.className = `table-select${metadata.priority ? ` priority-${metadata.priority}` : ''}`;
+  prioritySelect.setAttribute('aria-label', `Priority of ${title}`);
+  for (const value of ['', 'low', 'medium', 'high']) {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = value || '—';
+    prioritySelect.appendChild(option);
+  }
+  prioritySelect.value = metadata.priority ?? '';
+  prioritySelect.addEventListener('change', () => {
+    updateMetadata({ priority: (prioritySelect.value || undefined) as CardPriority | undefined });
+  });
+  priorityCell.appendChild(prioritySelect);
+  rowEl.appendChild(priorityCell);
+
+  const keyCell = createCell('key');
+  keyCell.textContent = metadata.key ?? '';
+  rowEl.appendChild(keyCell);
+
+  return rowEl;
+}
+
+function getColumnOptions(board: KanbanBoard): { id: string; label: string }[] {
+  const lanes = new Map((board.lanes ?? []).map((lane) => [lane.id, lane.title]));
+  return board.columns.map((column) => {
+    const lane = column.laneId ? lanes.get(column.laneId) : undefined;
+    return { id: column.id, label: lane ? `${lane} › ${column.title}` : column.title };
+  });
+}
+
+function createCell(field: string): HTMLTableCellElement {
+  const cell = document.createElement('td');
+  cell.className = `table-cell table-col-${field}`;
+  cell.dataset.field = field;
+  return cell;
+}
+
+/**
+ * A cell showing a value that turns into an input on click, Enter or F2.
+ * Enter or leaving the input saves; Escape cancels.
+ */
+function renderEditableCell(
+  field: string,
+  value: string,
+  inputType: 'text' | 'date',
+  onCommit: (value: string) => void
+): HTMLTableCellElement {
+  const cell = createCell(field);
+  cell.classList.add('editable');
+  cell.tabIndex = 0;
+
+  const valueEl = document.createElement('span');
+  valueEl.className = 'table-cell-value';
+  valueEl.textContent = value;
+  cell.appendChild(valueEl);
+
+  const startEdit = () => {
+    if (cell.querySelector('.table-cell-input')) return;
+
+    const input = document.createElement('input');
+    input.type = inputType;
+    input.className = 'table-cell-input';
+    input.value = value;
+    valueEl.replaceWith(input);
+    input.focus();
+    if (inputType === 'text') input.select();
+
+    let done = false;
+    const finish = (save: boolean, refocus: boolean) => {
+      if (done) return;
+      done = true;
+      const next = input.value.trim();
+      input.replaceWith(valueEl);
+      if (refocus) cell.focus();
+      if (save && next !== value) {
+        onCommit(next);
+      }
+    };
+
+    input.addEventListener('keydown', (e) => {
+      e.stopPropagation();
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finish(true, true);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        finish(false, true);
+      }
+    });
+    input.addEventListener('blur', () => finish(true, false));
+    input.addEventListener('click', (e) => e.stopPropagation());
+  };
+
+  cell.addEventListener('click', startEdit);
+  cell.addEventListener('keydown', (e) => {
+    if (e.target === cell && (e.key === 'Enter' || e.key === 'F2')) {
+      e.preventDefault();
+      startEdit();
+    }
+  });
+
+  return cell;
+}
@@ -0,0 +1,340 @@
+/**
+ * Timeline View
+ *
+ * Gantt-style timeline of the board's dated cards: one row per card, with a
+ * bar from its start: to its due: date. Drag a bar to move the card, or drag
+ * either end to change just that date; cards without dates wait in the tray
+ * and get a due date when dropped on a day. Cards dated more than a year from
+ * today are listed under the tray rather than drawn. Edits rewrite the date
+ * tokens on the card line, like the calendar.
+ */
+
+import type { KanbanBoard, KanbanCard, CardMetadata } from './parser';
+import { getCardTitle } from './parser';
+import {
+  addDays,
+  daysBetween,
+  dragCardDates,
+  getCardSpan,
+  getTimelineRange,
+  isInTimelineWindow,
+  partitionCardsByDate,
+  setCardSpan,
+  shiftCardDates,
+  resizeCardSpan,
+  todayIso,
+  type CardSpan,
+} from './dates';
+import {
+  addCardDropTarget,
+  getFilterClass,
+  renderDateTray,
+  renderDateTrayCards,
+  type ScheduleCallbacks,
+  type ScheduleViewOptions,
+} from './calendar';
+
+/**
+ * Render the timeline and the tray into the board container
+ */
+export function renderTimeline(
+  container: HTMLElement,
+  board: KanbanBoard,
+  callbacks: ScheduleCallbacks,
+  options: ScheduleViewOptions = {}
+): void {
+  // Keep the scroll position and focused bar across re-renders
+  const previous = container.querySelector<HTMLElement>('.timeline');
+  const scroll = previous ? { left: previous.scrollLeft, top: previous.scrollTop } : null;
+  const active = document.activeElement as HTMLElement | null;
+  const focused = container.contains(active) ? active?.closest<HTMLElement>('[data-card-id]') : null;
+  const focusedCardId = focused?.dataset.cardId;
+
+  container.innerHTML = '';
+
+  const today = todayIso();
+  const { dated, undated } = partitionCardsByDate(board);
+  const shown = dated.filter(({ span }) => isInTimelineWindow(span, today));
+  const outside = dated.filter(({ span }) => !isInTimelineWindow(span, today)).map(({ card }) => card);
+  const rows = shown.filter(({ card }) => getFilterClass(card, options) !== 'filter-hidden');
+  const range = getTimelineRange(
+    shown.map(({ span }) => span),
+    today
+  );
+  const dayCount = daysBetween(range.start, range.end) + 1;
+  const columnOf = new Map(board.columns.flatMap((column) => column.cards.map((card) => [card.id, column.title])));
+
+  const layout = document.createElement('div');
+  layout.className = 'schedule-layout';
+
+  const scroller = document.createElement('div');
+  scroller.className = 'timeline';
+
+  const grid = document.createElement('div');
+  grid.className = 'timeline-grid';
+  grid.style.gridTemplateColumns = `var(--timeline-label-width) repeat(${dayCount}, var(--timeline-day-width))`;
+
+  const corner = document.createElement('div');
+  corner.className = 'timeline-corner';
+  corner.textContent = 'Card';
+  grid.appendChild(corner);
+
+  const bodyRows = `2 / span ${Math.max(rows.length, 1)}`;
+  for (let i = 0; i < dayCount; i++) {
+    const day = addDays(range.start, i);
+    const weekday = new Date(`${day}T00:00:00`).getDay();
+    const dayClasses = [weekday === 0 || weekday === 6 ? 'weekend' : '', day === today ? 'today' : '']
+      .filter(Boolean)
+      .join(' ');
+
+    const head = document.createElement('div');
+    head.className = `timeline-day-head ${dayClasses}`.trim();
+    head.dataset.date = day;
+    head.style.gridColumn = String(i + 2);
+    head.title = day;
+    if (i === 0 || day.endsWith('-01')) {
+      const monthEl = document.createElement('span');
+      monthEl.className = 'timeline-month';
+      monthEl.textContent = new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: 'short' });
+      head.appendChild(monthEl);
+    }
+    const numberEl = document.createElement('span');
+    numberEl.className = 'timeline-day-number';
+    numberEl.textContent = String(Number(day.slice(8)));
+    head.appendChild(numberEl);
+    grid.appendChild(head);
+
+    // Day stripe behind the bars, for weekends and today
+    const stripe = document.createElement('div');
+    stripe.className = `timeline-day-bg ${dayClasses}`.trim();
+    stripe.style.gridColumn = String(i + 2);
+    stripe.style.gridRow = bodyRows;
+    grid.appendChild(stripe);
+  }
+
+  rows.forEach(({ card, span }, index) => {
+    const row = String(index + 2);
+    const title = getCardTitle(card.text) || card.text;
+
+    const label = document.createElement('div');
+    label.className = `timeline-label${card.completed ? ' completed' : ''}`;
+    label.style.gridRow = row;
+    const labelBtn = document.createElement('button');
+    labelBtn.type = 'button';
+    labelBtn.className = 'timeline-label-btn';
+    labelBtn.textContent = title;
+    labelBtn.title = title;
+    labelBtn.addEventListener('click', () => callbacks.onOpenCard(card.id));
+    const statusEl = document.createElement('span');
+    statusEl.className = 'timeline-label-status';
+    statusEl.textContent = columnOf.get(card.id) ?? '';
+    label.appendChild(labelBtn);
+    label.appendChild(statusEl);
+    grid.appendChild(label);
+
+    const bar = renderBar(card, span, range, today, grid, callbacks, options);
+    bar.style.gridRow = row;
+    grid.appendChild(bar);
+  });
+
+  if (rows.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'timeline-empty';
+    empty.style.gridRow = '2';
+    empty.style.gridColumn = '1 / -1';
+    empty.textContent =
+      dated.length === 0
+        ? 'No dated cards yet. Drag a card from the tray onto a day, or add start: and due: dates to a card.'
+        : shown.length === 0
+          ? 'No cards are dated within a year of today.'
+          : 'No dated cards match the filter.';
+    grid.appendChild(empty);
+  }
+
+  // Cards from the tray get a due date on the day they are dropped on
+  addCardDropTarget(grid, (data, e) => {
+    const day = getDayAt(grid, range.start, e.clientX);
+    const card = board.columns.flatMap((column) => column.cards).find((c) => c.id === data.cardId);
+    if (day && card && !data.fromDay) {
+      callbacks.onDatesChange(card.id, setCardSpan(card.metadata, day, day));
+    }
+  });
+
+  scroller.appendChild(grid);
+  layout.appendChild(scroller);
+  const tray = renderDateTray(board, undated, callbacks, options);
+  if (outside.length > 0) {
+    tray.appendChild(renderOutsideCards(board, outside, callbacks, options));
+  }
+  layout.appendChild(tray);
+  container.appendChild(layout);
+
+  if (scroll) {
+    scroller.scrollLeft = scroll.left;
+    scroller.scrollTop = scroll.top;
+  } else {
+    // First render: start a few days before today
+    const todayHead = grid.querySelector<HTMLElement>('.timeline-day-head.today');
+    const labelWidth = corner.getBoundingClientRect().width;
+    if (todayHead) {
+      scroller.scrollLeft = Math.max(0, todayHead.offsetLeft - labelWidth - todayHead.offsetWidth * 3);
+    }
+  }
+
+  if (focusedCardId) {
+    container.querySelector<HTMLElement>(`.timeline-bar[data-card-id="${focusedCardId}"]`)?.focus();
+  }
+}
+
+/**
+ * Tray section for cards dated too far from today to draw, so a mistyped
+ * year can be found and fixed
+ */
+function renderOutsideCards(
+  board: KanbanBoard,
+  cards: KanbanCard[],
+  callbacks: ScheduleCallbacks,
+  options: ScheduleViewOptions
+): HTMLElement {
+  const section = document.createElement('section');
+  section.className = 'date-tray-outside';
+
+  const heading = document.createElement('h3');
+  heading.className = 'date-tray-title';
+  heading.textContent = 'Outside the timeline';
+  const countEl = document.createElement('span');
+  countEl.className = 'column-count';
+  countEl.textContent = String(cards.length);
+  heading.appendChild(countEl);
+  section.appendChild(heading);
+
+  const hint = document.createElement('p');
+  hint.className = 'date-tray-hint';
+  hint.textContent = 'Dated more than a year from today. Drag a card onto a day to reschedule it.';
+  section.appendChild(hint);
+  section.appendChild(renderDateTrayCards(board, cards, callbacks, options));
+  return section;
+}
+
+/**
+ * Day under a horizontal position in the grid, or null over the labels
+ */
+function getDayAt(grid: HTMLElement, rangeStart: string, clientX: number): string | null {
+  const first = grid.querySelector<HTMLElement>('.timeline-day-head');
+  if (!first) return null;
+  const rect = first.getBoundingClientRect();
+  const index = Math.floor((clientX - rect.left) / rect.width);
+  return index < 0 ? null : addDays(rangeStart, index);
+}
+
+/**
+ * Grid columns of a span: the label is column 1, the first day column 2
+ */
+function getSpanColumns(span: CardSpan, range: CardSpan): string {
+  return `${daysBetween(range.start, span.start) + 2} / ${daysBetween(range.start, span.end) + 3}`;
+}
+
+function renderBar(
+  card: KanbanCard,
+  span: CardSpan,
+  range: CardSpan,
+  today: string,
+  grid: HTMLElement,
+  callbacks: ScheduleCallbacks,
+  options: ScheduleViewOptions
+): HTMLElement {
+  const title = getCardTitle(card.text) || card.text;
+  const describe = (s: CardSpan) => (s.start === s.end ? s.end : `${s.start} → ${s.end}`);
+
+  const bar = document.createElement('button');
+  bar.type = 'button';
+  bar.className = 'timeline-bar';
+  bar.dataset.cardId = card.id;
+  bar.style.gridColumn = getSpanColumns(span, range);
+  bar.title = `${title} (${describe(span)})`;
+  bar.setAttribute(
+    'aria-label',
+    `${title}, ${describe(span)}. Arrow keys move it a day, Shift+Arrow keys change the due date.`
+  );
+  if (card.completed) bar.classList.add('completed');
+  if (!card.completed && span.end < today) bar.classList.add('overdue');
+  if (card.metadata.priority) bar.classList.add(`priority-${card.metadata.priority}`);
+  const filterClass = getFilterClass(card, options);
+  if (filterClass) bar.classList.add(filterClass);
+
+  const startHandle = document.createElement('span');
+  startHandle.className = 'timeline-handle handle-start';
+  startHandle.setAttribute('aria-hidden', 'true');
+  const labelEl = document.createElement('span');
+  labelEl.className = 'timeline-bar-label';
+  labelEl.textContent = title;
+  const endHandle = document.createElement('span');
+  endHandle.className = 'timeline-handle handle-end';
+  endHandle.setAttribute('aria-hidden', 'true');
+  bar.appendChild(startHandle);
+  bar.appendChild(labelEl);
+  bar.appendChild(endHandle);
+
+  // Pointer drags move the bar a whole day at a time; a drag suppresses the click
+  let dragged = false;
+  bar.addEventListener('pointerdown', (e) => {
+    if (e.button !== 0) return;
+    const handle = (e.target as HTMLElement).closest('.timeline-handle');
+    const edge = handle ? (handle.classList.contains('handle-start') ? 'start' : 'end') : undefined;
+    const dayWidth = grid.querySelector<HTMLElement>('.timeline-day-head')?.getBoundingClientRect().width;
+    if (!dayWidth) return;
+
+    e.preventDefault();
+    bar.setPointerCapture(e.pointerId);
+    bar.classList.add('dragging');
+    const originX = e.clientX;
+    let days = 0;
+    let metadata: CardMetadata = card.metadata;
+
+    const onMove = (ev: PointerEvent) => {
+      const next = Math.round((ev.clientX - originX) / dayWidth);
+      if (next === days) return;
+      days = next;
+      metadata = dragCardDates(card.metadata, edge, days);
+      const preview = getCardSpan(metadata) ?? span;
+      bar.style.gridColumn = getSpanColumns(preview, range);
+      bar.title = `${title} (${describe(preview)})`;
+    };
+    const onUp = () => {
+      bar.removeEventListener('pointermove', onMove);
+      bar.removeEventListener('pointerup', onUp);
+      bar.removeEventListener('pointercancel', onUp);
+      bar.classList.remove('dragging');
+      if (days !== 0) {
+        dragged = true;
+        callbacks.onDatesChange(card.id, metadata);
+      }
+    };
+    bar.addEventListener('pointermove', onMove);
+    bar.addEventListener('pointerup', onUp);
+    bar.addEventListener('pointercancel', onUp);
+  });
+
+  bar.addEventListener('click', () => {
+    if (dragged) {
+      dragged = false;
+      return;
+    }
+    callbacks.onOpenCard(card.id);
+  });
+
+  bar.addEventListener('keydown', (e) => {
+    const days = { ArrowLeft: -1, ArrowRight: 1 }[e.key];
+    if (!days || e.altKey || e.ctrlKey || e.metaKey) return;
+    e.preventDefault();
+    e.stopPropagation();
+    callbacks.onDatesChange(
+      card.id,
+      e.shiftKey
+        ? resizeCardSpan(card.metadata, 'end', addDays(span.end, days))
+        : shiftCardDates(card.metadata, days)
+    );
+  });
+
+  return bar;
+}
@@ -1,17 +1,31 @@
 /**
- * Lightweight Tiptap Editor for Card Descriptions
+ * Tiptap Editor for Card Descriptions
  *
- * Reuses core Tiptap extensions for markdown editing in the card modal
+ * Reuses the markdown editor's extensions in the card modal: slash commands,
+ * the link picker, tables, task lists, images and Mermaid diagrams. Content
+ * stays plain markdown, which the board writes as the card's indented
+ * description.
  */
 
 import { Editor } from '@tiptap/core';
+import { EditorContent } from '@tiptap/react';
+import { createElement } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
 import Link from '@tiptap/extension-link';
 import TaskList from '@tiptap/extension-task-list';
 import TaskItem from '@tiptap/extension-task-item';
+import TableRow from '@tiptap/extension-table-row';
+import TableHeader from '@tiptap/extension-table-header';
+import TableCell from '@tiptap/extension-table-cell';
 import { Markdown } from 'tiptap-markdown';
 import { ImageNode } from '../editor/extensions/ImageNode';
+import { MermaidNode } from '../editor/extensions/MermaidNode';
+import { CustomTable } from '../editor/extensions/CustomTable';
+import { SlashCommand } from '../editor/extensions/SlashCommand';
+import { CardImageUpload } from './cardImages';
 
 export interface CardEditorOptions {
   element: HTMLElement;
@@ -27,7 +41,8 @@ export function createCardEditor(options: CardEditorOptions): Editor {
   const { element, content, placeholder = 'Add a description...', onUpdate } = options;
 
   const editor = new Editor({
-    element,
+    // Moved into `element` by EditorContent below
+    element: document.createElement('div'),
     extensions: [
       StarterKit.configure({
         // Allow all heading levels in card descriptions
@@ -54,6 +69,18 @@ export function createCardEditor(options: CardEditorOptions): Editor {
         inline: false,
         allowBase64: true,
       }),
+      CardImageUpload,
+      // Column widths are kept in an HTML comment, which descriptions don't allow
+      CustomTable.configure({
+        resizable: false,
+      }),
+      TableRow,
+      TableHeader,
+      TableCell,
+      MermaidNode,
+      SlashCommand.configure({
+        exclude: ['Kanban Board'],
+      }),
       Markdown.configure({
         html: false,
         transformPastedText: true,
@@ -74,6 +101,14 @@ export function createCardEditor(options: CardEditorOptions): Editor {
     },
   });
 
+  // Render through React so image and Mermaid blocks get their node views.
+  // Mount synchronously so the editor is in the modal as soon as this returns.
+  const root = createRoot(element);
+  flushSync(() => {
+    root.render(createElement(EditorContent, { editor }));
+  });
+  editor.on('destroy', () => root.unmount());
+
   return editor;
 }
 
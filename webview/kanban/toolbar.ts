@@ -0,0 +1,307 @@
+/**
+ * Board Toolbar
+ *
+ * Filter bar above the board: view switch (board, table, calendar, timeline),
+ * free-text/token search, status, tag and assignee pickers, and saved views
+ * stored in the board preamble
+ */
+
+import type { KanbanBoard } from './parser';
+import { parseFilterQuery, formatFilterQuery, type CardFilter, type FilterStatus } from './filter';
+import type { TableGroupBy } from './table';
+
+export type FilterMode = 'dim' | 'hide';
+
+export type ViewMode = 'board' | 'table' | 'calendar' | 'timeline';
+
+export interface ToolbarState {
+  query: string;
+  mode: FilterMode;
+  matchCount: number;
+  totalCount: number;
+  viewMode: ViewMode;
+  groupBy: TableGroupBy;
+}
+
+export interface ToolbarCallbacks {
+  onQueryChange: (query: string) => void;
+  onModeChange: (mode: FilterMode) => void;
+  onSaveView: (name: string, query: string) => void;
+  onDeleteView: (name: string) => void;
+  onViewModeChange: (viewMode: ViewMode) => void;
+  onGroupByChange: (groupBy: TableGroupBy) => void;
+}
+
+const SAVE_VIEW_VALUE = '__save__';
+const DELETE_VIEW_VALUE = '__delete__';
+
+/**
+ * Filter toolbar component. Created once; update() refreshes it in place so the
+ * search input keeps focus while the board re-renders underneath.
+ */
+export class BoardToolbar {
+  private el: HTMLElement;
+  private viewModeButtons: Record<ViewMode, HTMLButtonElement>;
+  private searchInput: HTMLInputElement;
+  private statusSelect: HTMLSelectElement;
+  private tagSelect: HTMLSelectElement;
+  private assigneeSelect: HTMLSelectElement;
+  private modeSelect: HTMLSelectElement;
+  private viewSelect: HTMLSelectElement;
+  private groupBySelect: HTMLSelectElement;
+  private countEl: HTMLElement;
+  private callbacks: ToolbarCallbacks;
+  private query = '';
+  private activeView: string | null = null;
+
+  constructor(container: HTMLElement, callbacks: ToolbarCallbacks) {
+    this.callbacks = callbacks;
+
+    this.el = document.createElement('div');
+    this.el.className = 'board-toolbar';
+
+    const viewModeEl = document.createElement('div');
+    viewModeEl.className = 'toolbar-view-mode';
+    viewModeEl.setAttribute('role', 'group');
+    viewModeEl.setAttribute('aria-label', 'Layout');
+    this.viewModeButtons = {
+      board: this.createViewModeButton('board', 'Board'),
+      table: this.createViewModeButton('table', 'Table'),
+      calendar: this.createViewModeButton('calendar', 'Calendar'),
+      timeline: this.createViewModeButton('timeline', 'Timeline'),
+    };
+    for (const button of Object.values(this.viewModeButtons)) {
+      viewModeEl.appendChild(button);
+    }
+
+    this.searchInput = document.createElement('input');
+    this.searchInput.type = 'search';
+    this.searchInput.className = 'toolbar-search';
+    this.searchInput.placeholder = 'Filter cards… (#tag @person !high is:open)';
+    this.searchInput.addEventListener('input', () => {
+      this.query = this.searchInput.value;
+      this.callbacks.onQueryChange(this.query);
+    });
+    this.searchInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.searchInput.value) {
+        e.stopPropagation();
+        this.setQuery('');
+      }
+    });
+
+    this.statusSelect = this.createSelect('Status', (value) => {
+      this.updateFilter((filter) => {
+        filter.status = value as FilterStatus;
+      });
+    });
+    this.tagSelect = this.createSelect('Tag', (value) => {
+      this.updateFilter((filter) => {
+        filter.tags = value ? [value] : [];
+      });
+    });
+    this.assigneeSelect = this.createSelect('Assignee', (value) => {
+      this.updateFilter((filter) => {
+        filter.assignees = value ? [value] : [];
+      });
+    });
+    this.modeSelect = this.createSelect('Non-matching cards', (value) => {
+      this.callbacks.onModeChange(value as FilterMode);
+    });
+    this.setOptions(this.modeSelect, [
+      ['dim', 'Dim others'],
+      ['hide', 'Hide others'],
+    ]);
+    this.viewSelect = this.createSelect('Saved views', (value) => this.handleViewSelect(value));
+    this.groupBySelect = this.createSelect('Group rows by', (value) => {
+      this.callbacks.onGroupByChange(value as TableGroupBy);
+    });
+
+    this.countEl = document.createElement('span');
+    this.countEl.className = 'toolbar-count';
+
+    this.el.appendChild(viewModeEl);
+    this.el.appendChild(this.searchInput);
+    this.el.appendChild(this.statusSelect);
+    this.el.appendChild(this.tagSelect);
+    this.el.appendChild(this.assigneeSelect);
+    this.el.appendChild(this.modeSelect);
+    this.el.appendChild(this.viewSelect);
+    this.el.appendChild(this.groupBySelect);
+    this.el.appendChild(this.countEl);
+    container.appendChild(this.el);
+  }
+
+  /**
+   * Refresh the toolbar for the current board and filter state
+   */
+  update(board: KanbanBoard, state: ToolbarState): void {
+    this.query = state.query;
+    if (this.searchInput.value !== state.query) {
+      this.searchInput.value = state.query;
+    }
+
+    const filter = parseFilterQuery(state.query);
+    const cards = board.columns.flatMap((c) => c.cards);
+    const tags = [...new Set(cards.flatMap((c) => c.metadata.tags))].sort();
+    const assignees = [...new Set(cards.flatMap((c) => c.metadata.assignees))].sort();
+
+    this.setOptions(this.statusSelect, [
+      ['all', 'All cards'],
+      ['open', 'Open'],
+      ['done', 'Done'],
+    ]);
+    this.statusSelect.value = filter.status;
+
+    // Tag and assignee pickers only appear when the board uses them
+    this.setOptions(this.tagSelect, [['', 'Any tag'], ...tags.map((t): [string, string] => [t, `#${t}`])]);
+    this.tagSelect.value = filter.tags.length === 1 && tags.includes(filter.tags[0]) ? filter.tags[0] : '';
+    this.tagSelect.hidden = tags.length === 0;
+
+    this.setOptions(this.assigneeSelect, [
+      ['', 'Anyone'],
+      ...assignees.map((a): [string, string] => [a, `@${a}`]),
+    ]);
+    this.assigneeSelect.value =
+      filter.assignees.length === 1 && assignees.includes(filter.assignees[0]) ? filter.assignees[0] : '';
+    this.assigneeSelect.hidden = assignees.length === 0;
+
+    this.modeSelect.value = state.mode;
+
+    const views = board.settings?.views ?? [];
+    const activeView = views.find((v) => v.query === state.query.trim());
+    this.activeView = activeView?.name ?? null;
+    const viewOptions: [string, string][] = [['', 'Views…'], ...views.map((v): [string, string] => [v.name, v.name])];
+    if (state.query.trim() && !activeView) {
+      viewOptions.push([SAVE_VIEW_VALUE, 'Save current filter as view…']);
+    }
+    if (activeView) {
+      viewOptions.push([DELETE_VIEW_VALUE, `Delete view “${activeView.name}”`]);
+    }
+    this.setOptions(this.viewSelect, viewOptions);
+    views.forEach((view, i) => {
+      this.viewSelect.options[i + 1].dataset.query = view.query;
+    });
+    this.viewSelect.value = activeView?.name ?? '';
+    this.viewSelect.hidden = viewOptions.length === 1;
+
+    for (const [mode, button] of Object.entries(this.viewModeButtons)) {
+      button.setAttribute('aria-pressed', String(mode === state.viewMode));
+    }
+
+    // Grouping only applies to the table
+    const groupOptions: [TableGroupBy, string][] = [
+      ['none', 'No grouping'],
+      ['status', 'Group by status'],
+      ...(board.lanes?.length ? [['lane', 'Group by lane'] as [TableGroupBy, string]] : []),
+      ['assignee', 'Group by assignee'],
+      ['tag', 'Group by tag'],
+      ['priority', 'Group by priority'],
+      ['done', 'Group by done'],
+    ];
+    this.setOptions(this.groupBySelect, groupOptions);
+    this.groupBySelect.value = groupOptions.some(([value]) => value === state.groupBy) ? state.groupBy : 'none';
+    this.groupBySelect.hidden = state.viewMode !== 'table';
+
+    this.countEl.textContent = state.query.trim()
+      ? `${state.matchCount} of ${state.totalCount} cards`
+      : '';
+  }
+
+  /**
+   * Focus the search input
+   */
+  focus(): void {
+    this.searchInput.focus();
+    this.searchInput.select();
+  }
+
+  private setQuery(query: string): void {
+    this.query = query;
+    this.searchInput.value = query;
+    this.callbacks.onQueryChange(query);
+  }
+
+  private updateFilter(change: (filter: CardFilter) => void): void {
+    const filter = parseFilterQuery(this.query);
+    change(filter);
+    this.setQuery(formatFilterQuery(filter));
+  }
+
+  private handleViewSelect(value: string): void {
+    if (value === SAVE_VIEW_VALUE) {
+      this.promptViewName();
+    } else if (value === DELETE_VIEW_VALUE) {
+      if (this.activeView) {
+        this.callbacks.onDeleteView(this.activeView);
+      }
+    } else if (value) {
+      const option = this.viewSelect.selectedOptions[0];
+      this.setQuery(option?.dataset.query ?? '');
+    }
+  }
+
+  /**
+   * Replace the view picker with an inline name input (prompt() is unavailable in webviews)
+   */
+  private promptViewName(): void {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'toolbar-view-name';
+    input.placeholder = 'View name';
+    this.viewSelect.replaceWith(input);
+    input.focus();
+
+    let done = false;
+    const finish = (save: boolean) => {
+      if (done) return;
+      done = true;
+      // Names live inside [view:Name=query], so brackets and = are not allowed
+      const name = input.value.replace(/[[\]=]/g, '').trim();
+      input.replaceWith(this.viewSelect);
+      if (save && name) {
+        this.callbacks.onSaveView(name, this.query.trim());
+      } else {
+        this.viewSelect.value = '';
+      }
+    };
+
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finish(true);
+      } else if (e.key === 'Escape') {
+        e.stopPropagation();
+        finish(false);
+      }
+    });
+    input.addEventListener('blur', () => finish(true));
+  }
+
+  private createViewModeButton(mode: ViewMode, label: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'toolbar-view-mode-btn';
+    button.textContent = label;
+    button.addEventListener('click', () => this.callbacks.onViewModeChange(mode));
+    return button;
+  }
+
+  private createSelect(label: string, onChange: (value: string) => void): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.className = 'toolbar-select';
+    select.title = label;
+    select.setAttribute('aria-label', label);
+    select.addEventListener('change', () => onChange(select.value));
+    return select;
+  }
+
+  private setOptions(select: HTMLSelectElement, options: [string, string][]): void {
+    select.innerHTML = '';
+    for (const [value, text] of options) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = text;
+      select.appendChild(option);
+    }
+  }
+}
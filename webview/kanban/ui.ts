@@ -4,14 +4,37 @@
  * Vanilla JavaScript rendering for the kanban board
  */
 
-import type { KanbanBoard, KanbanColumn, KanbanCard, ColumnSettings, BoardSettings } from './parser';
+import type {
+  KanbanBoard,
+  KanbanLane,
+  KanbanColumn,
+  KanbanCard,
+  CardMetadata,
+  ColumnSettings,
+  BoardSettings,
+} from './parser';
+import { getCardTitle, getLaneColumns, parseSubtasks } from './parser';
+import { isFilterActive, matchesFilter, splitHighlights, type CardFilter } from './filter';
 
 interface RenderOptions {
   boardSettings?: BoardSettings;
+  columns?: KanbanColumn[]; // Every column on the board, for the column menu
+  filter?: CardFilter;
+  filterMode?: 'dim' | 'hide';
+}
+
+/**
+ * Webview-only view state that is not stored in the markdown
+ */
+export interface BoardViewOptions {
+  collapsedLanes?: Set<string>; // Lane titles (ids change on every parse)
+  filter?: CardFilter;
+  filterMode?: 'dim' | 'hide'; // How non-matching cards are shown (default dim)
 }
 import { MoreVertical } from './icons';
 import { showColumnMenu } from './menu';
 import { openCardModal } from './modal';
+import { todayIso } from './dates';
 
 export interface UICallbacks {
   onToggleCard: (cardId: string) => void;
@@ -19,8 +42,19 @@ export interface UICallbacks {
   onDeleteCard: (cardId: string) => void;
   onCardTextChange: (cardId: string, text: string) => void;
   onCardDescriptionChange: (cardId: string, description: string) => void;
+  onCardMetadataChange: (cardId: string, metadata: CardMetadata) => void;
   onColumnSettingsChange: (columnId: string, settings: Partial<ColumnSettings>) => void;
   onBoardSettingsChange: (settings: Partial<BoardSettings>) => void;
+  onToggleLane: (laneTitle: string) => void;
+  onColumnRename: (columnId: string, title: string) => void;
+  onInsertColumn: (columnId: string, side: 'left' | 'right') => void;
+  onDeleteColumn: (columnId: string, moveCardsTo?: string) => void;
+  onAddColumn: (laneId?: string) => void;
+  onAssignCardKey: (cardId: string) => string | undefined; // Returns the card's new text
+  onToggleSubtask: (cardId: string, subtaskIndex: number) => string | undefined; // Returns the new description
+  onMoveCardToBoard: (cardId: string) => void;
+  onOpenCardInEditor: (cardId: string) => void;
+  onOpenCard?: (cardId: string) => void; // Opens the card somewhere other than the card modal
 }
 
 /**
@@ -88,6 +122,115 @@ function stripMarkdown(text: string): string {
     .trim();
 }
 
+/**
+ * Render metadata chips (priority, due date, tags, assignees) for a card
+ */
+function renderCardMeta(card: KanbanCard): HTMLElement | null {
+  const { metadata } = card;
+  const hasMeta =
+    metadata.key ||
+    metadata.priority ||
+    metadata.start ||
+    metadata.due ||
+    metadata.tags.length > 0 ||
+    metadata.assignees.length > 0;
+  if (!hasMeta) return null;
+
+  const metaEl = document.createElement('div');
+  metaEl.className = 'card-meta';
+
+  const addChip = (className: string, text: string, title: string) => {
+    const chip = document.createElement('span');
+    chip.className = `card-chip ${className}`;
+    chip.textContent = text;
+    chip.title = title;
+    metaEl.appendChild(chip);
+  };
+
+  if (metadata.key) {
+    addChip('chip-key', metadata.key, 'Card key');
+  }
+
+  if (metadata.priority) {
+    addChip(`chip-priority priority-${metadata.priority}`, metadata.priority, 'Priority');
+  }
+
+  if (metadata.start) {
+    addChip('chip-start', `from ${metadata.start}`, 'Start date');
+  }
+
+  if (metadata.due) {
+    const overdue = !card.completed && metadata.due < todayIso();
+    addChip(`chip-due${overdue ? ' overdue' : ''}`, metadata.due, overdue ? 'Overdue' : 'Due date');
+  }
+
+  for (const tag of metadata.tags) {
+    addChip('chip-tag', `#${tag}`, 'Tag');
+  }
+
+  for (const assignee of metadata.assignees) {
+    addChip('chip-assignee', `@${assignee}`, 'Assignee');
+  }
+
+  return metaEl;
+}
+
+/**
+ * Render the x/y checklist progress bar shown on the card face
+ */
+function renderSubtaskProgress(done: number, total: number): HTMLElement {
+  const progressEl = document.createElement('div');
+  progressEl.className = `card-subtasks${done === total ? ' complete' : ''}`;
+  progressEl.title = `${done} of ${total} subtasks done`;
+
+  const barEl = document.createElement('div');
+  barEl.className = 'card-subtasks-bar';
+  const fillEl = document.createElement('div');
+  fillEl.className = 'card-subtasks-fill';
+  fillEl.style.width = `${Math.round((done / total) * 100)}%`;
+  barEl.appendChild(fillEl);
+
+  const countEl = document.createElement('span');
+  countEl.className = 'card-subtasks-count';
+  countEl.textContent = `${done}/${total}`;
+
+  progressEl.appendChild(barEl);
+  progressEl.appendChild(countEl);
+  return progressEl;
+}
+
+/**
+ * Open the detail modal for a card, wired to the board callbacks
+ */
+export function showCardModal(card: KanbanCard, callbacks: UICallbacks, boardSettings?: BoardSettings): void {
+  openCardModal(card, {
+    onTitleChange: (title) => callbacks.onCardTextChange(card.id, title),
+    onDescriptionChange: (desc) => callbacks.onCardDescriptionChange(card.id, desc),
+    onMetadataChange: (metadata) => callbacks.onCardMetadataChange(card.id, metadata),
+    onToggleSubtask: (index) => callbacks.onToggleSubtask(card.id, index),
+    onAssignKey: boardSettings?.keys ? () => callbacks.onAssignCardKey(card.id) : undefined,
+    onMoveToBoard: () => callbacks.onMoveCardToBoard(card.id),
+    onOpenInEditor: () => callbacks.onOpenCardInEditor(card.id),
+    onOpenLink: (href) => (window as any).vscode?.postMessage({ type: 'openFile', payload: { path: href } }),
+    onClose: () => {
+      // Modal closed - re-render will happen from callbacks if changes made.
+      // Hand focus back to the card (or its row, calendar entry or bar) so keyboard users keep their place.
+      const el = document.querySelector(
+        [
+          `.kanban-card[data-card-id="${card.id}"]`,
+          `.kanban-table-row[data-card-id="${card.id}"] .table-open-btn`,
+          `.calendar-card[data-card-id="${card.id}"]`,
+          `.timeline-bar[data-card-id="${card.id}"]`,
+          `.date-tray-card[data-card-id="${card.id}"]`,
+        ].join(', ')
+      ) as HTMLElement | null;
+      if (el && (!document.activeElement || document.activeElement === document.body)) {
+        el.focus();
+      }
+    },
+  });
+}
+
 /**
  * Render a single card
  */
@@ -99,6 +242,13 @@ export function renderCard(
 ): HTMLElement {
   const cardEl = document.createElement('div');
   cardEl.className = `kanban-card${card.completed ? ' completed' : ''}`;
+  const filter = options?.filter && isFilterActive(options.filter) ? options.filter : undefined;
+  if (filter) {
+    const matches = matchesFilter(card, filter);
+    cardEl.classList.add(
+      matches ? 'filter-match' : options?.filterMode === 'hide' ? 'filter-hidden' : 'filter-dimmed'
+    );
+  }
   cardEl.dataset.cardId = card.id;
   cardEl.dataset.columnId = columnId;
   cardEl.draggable = true;
@@ -109,6 +259,7 @@ export function renderCard(
   const checkbox = document.createElement('input');
   checkbox.type = 'checkbox';
   checkbox.checked = card.completed;
+  checkbox.setAttribute('aria-label', 'Done');
   checkboxLabel.appendChild(checkbox);
 
   const contentEl = document.createElement('div');
@@ -116,7 +267,21 @@ export function renderCard(
 
   const titleEl = document.createElement('span');
   titleEl.className = 'card-title';
-  titleEl.textContent = card.text;
+  const title = getCardTitle(card.text) || card.text;
+  if (filter?.text.length) {
+    // Highlight the free-text words the card matched on
+    for (const part of splitHighlights(title, filter.text)) {
+      if (part.match) {
+        const mark = document.createElement('mark');
+        mark.textContent = part.text;
+        titleEl.appendChild(mark);
+      } else {
+        titleEl.appendChild(document.createTextNode(part.text));
+      }
+    }
+  } else {
+    titleEl.textContent = title;
+  }
   contentEl.appendChild(titleEl);
 
   // Show thumbnail if enabled (default true) and description has an image
@@ -150,18 +315,37 @@ export function renderCard(
     }
   }
 
-  if (card.description) {
+  // Checklist items are summarized by the progress bar, so leave them out of the preview
+  const subtasks = parseSubtasks(card.description);
+  const subtaskLines = new Set(subtasks.map((subtask) => subtask.line));
+  const previewText = card.description
+    .split('\n')
+    .filter((_line, i) => !subtaskLines.has(i))
+    .join('\n');
+
+  if (previewText.trim()) {
     const descEl = document.createElement('span');
     descEl.className = 'card-description';
     // Strip markdown and truncate for preview
-    const plainText = stripMarkdown(card.description);
+    const plainText = stripMarkdown(previewText);
     descEl.textContent = truncateText(plainText, 120);
     contentEl.appendChild(descEl);
   }
 
+  if (subtasks.length > 0) {
+    const done = subtasks.filter((subtask) => subtask.completed).length;
+    contentEl.appendChild(renderSubtaskProgress(done, subtasks.length));
+  }
+
+  const metaEl = renderCardMeta(card);
+  if (metaEl) {
+    contentEl.appendChild(metaEl);
+  }
+
   const deleteBtn = document.createElement('button');
   deleteBtn.className = 'card-delete';
   deleteBtn.title = 'Delete task';
+  deleteBtn.setAttribute('aria-label', 'Delete task');
   deleteBtn.innerHTML = '&times;';
 
   cardEl.appendChild(checkboxLabel);
@@ -179,13 +363,11 @@ export function renderCard(
   // Click card content to open modal
   contentEl.addEventListener('click', (e) => {
     e.stopPropagation();
-    openCardModal(card, {
-      onTitleChange: (title) => callbacks.onCardTextChange(card.id, title),
-      onDescriptionChange: (desc) => callbacks.onCardDescriptionChange(card.id, desc),
-      onClose: () => {
-        // Modal closed - re-render will happen from callbacks if changes made
-      },
-    });
+    if (callbacks.onOpenCard) {
+      callbacks.onOpenCard(card.id);
+    } else {
+      showCardModal(card, callbacks, options?.boardSettings);
+    }
   });
 
   // Delete button
@@ -204,6 +386,9 @@ export function renderColumn(column: KanbanColumn, callbacks: UICallbacks, optio
   const columnEl = document.createElement('div');
   columnEl.className = 'kanban-column';
   columnEl.dataset.columnId = column.id;
+  if (column.laneId) {
+    columnEl.dataset.laneId = column.laneId;
+  }
 
   // Check if this is an archive column (hide if empty)
   const isArchive = column.title.toLowerCase() === 'archive';
@@ -218,15 +403,34 @@ export function renderColumn(column: KanbanColumn, callbacks: UICallbacks, optio
   const titleEl = document.createElement('h3');
   titleEl.className = 'column-title';
   titleEl.textContent = column.title;
+  titleEl.title = 'Double-click to rename, drag to reorder';
+  titleEl.addEventListener('dblclick', () => {
+    showColumnTitleInput(column.id, (title) => callbacks.onColumnRename(column.id, title));
+  });
 
   const countEl = document.createElement('span');
   countEl.className = 'column-count';
   countEl.textContent = String(column.cards.length);
 
+  // Show n/limit and flag columns that are past their WIP limit
+  const wipLimit = column.settings?.wipLimit;
+  if (wipLimit) {
+    countEl.textContent = `${column.cards.length}/${wipLimit}`;
+    countEl.title = `WIP limit: ${wipLimit}`;
+    if (column.cards.length > wipLimit) {
+      columnEl.classList.add('over-limit');
+      countEl.title = `Over WIP limit (${column.cards.length} of ${wipLimit})`;
+    } else if (column.cards.length === wipLimit) {
+      columnEl.classList.add('at-limit');
+    }
+  }
+
   const menuBtn = document.createElement('button');
   menuBtn.className = 'column-menu-btn';
   menuBtn.type = 'button';
   menuBtn.title = 'Column settings';
+  menuBtn.setAttribute('aria-label', `${column.title} column settings`);
+  menuBtn.setAttribute('aria-haspopup', 'menu');
   menuBtn.appendChild(MoreVertical({ size: 16 }));
 
   menuBtn.addEventListener('click', (e) => {
@@ -236,6 +440,12 @@ export function renderColumn(column: KanbanColumn, callbacks: UICallbacks, optio
       column.id,
       {
         autoComplete: column.settings?.autoComplete ?? false,
+        wipLimit: column.settings?.wipLimit,
+        enforceWip: options?.boardSettings?.enforceWip ?? false,
+        cardCount: column.cards.length,
+        otherColumns: (options?.columns ?? [])
+          .filter((c) => c.id !== column.id)
+          .map((c) => ({ id: c.id, title: c.title })),
       },
       {
         onToggleAutoComplete: () => {
@@ -243,6 +453,23 @@ export function renderColumn(column: KanbanColumn, callbacks: UICallbacks, optio
             autoComplete: !column.settings?.autoComplete,
           });
         },
+        onWipLimitChange: (limit) => {
+          callbacks.onColumnSettingsChange(column.id, { wipLimit: limit });
+        },
+        onToggleEnforceWip: () => {
+          callbacks.onBoardSettingsChange({
+            enforceWip: !options?.boardSettings?.enforceWip,
+          });
+        },
+        onRename: () => {
+          showColumnTitleInput(column.id, (title) => callbacks.onColumnRename(column.id, title));
+        },
+        onInsertColumn: (side) => {
+          callbacks.onInsertColumn(column.id, side);
+        },
+        onDelete: (moveCardsTo) => {
+          callbacks.onDeleteColumn(column.id, moveCardsTo);
+        },
       }
     );
   });
@@ -251,6 +478,16 @@ export function renderColumn(column: KanbanColumn, callbacks: UICallbacks, optio
   headerEl.appendChild(countEl);
   headerEl.appendChild(menuBtn);
 
+  // Column notes: free-form markdown written between the heading and the first card
+  const notesText = (column.notes ?? []).join('\n').trim();
+  let notesEl: HTMLElement | null = null;
+  if (notesText) {
+    notesEl = document.createElement('div');
+    notesEl.className = 'column-notes';
+    notesEl.textContent = notesText;
+    notesEl.title = 'Column notes (edit in the markdown source)';
+  }
+
   // Build cards container
   const cardsContainer = document.createElement('div');
   cardsContainer.className = 'column-cards';
@@ -261,6 +498,9 @@ export function renderColumn(column: KanbanColumn, callbacks: UICallbacks, optio
   addBtn.textContent = '+ Add task';
 
   columnEl.appendChild(headerEl);
+  if (notesEl) {
+    columnEl.appendChild(notesEl);
+  }
   columnEl.appendChild(cardsContainer);
   columnEl.appendChild(addBtn);
 
@@ -277,23 +517,236 @@ export function renderColumn(column: KanbanColumn, callbacks: UICallbacks, optio
   return columnEl;
 }
 
+/**
+ * Render the button that appends a column to the board (or to a lane)
+ */
+function renderAddColumnButton(laneId: string | undefined, callbacks: UICallbacks): HTMLElement {
+  const addBtn = document.createElement('button');
+  addBtn.className = 'add-column-btn';
+  addBtn.type = 'button';
+  addBtn.textContent = '+ Add column';
+  addBtn.addEventListener('click', () => callbacks.onAddColumn(laneId));
+  return addBtn;
+}
+
+/**
+ * Render a swimlane: a collapsible row holding the lane's columns
+ */
+export function renderLane(
+  lane: KanbanLane | null,
+  columns: KanbanColumn[],
+  collapsed: boolean,
+  callbacks: UICallbacks,
+  options?: RenderOptions
+): HTMLElement {
+  const laneEl = document.createElement('div');
+  laneEl.className = `kanban-lane${collapsed ? ' collapsed' : ''}`;
+  if (lane) {
+    laneEl.dataset.laneId = lane.id;
+  }
+
+  const headerEl = document.createElement('button');
+  headerEl.className = 'lane-header';
+  headerEl.type = 'button';
+  headerEl.setAttribute('aria-expanded', String(!collapsed));
+
+  const chevronEl = document.createElement('span');
+  chevronEl.className = 'lane-chevron';
+  chevronEl.textContent = collapsed ? '\u25B8' : '\u25BE';
+
+  const titleEl = document.createElement('span');
+  titleEl.className = 'lane-title';
+  titleEl.textContent = lane ? lane.title : 'No lane';
+
+  const countEl = document.createElement('span');
+  countEl.className = 'column-count';
+  countEl.textContent = String(columns.reduce((sum, c) => sum + c.cards.length, 0));
+
+  headerEl.appendChild(chevronEl);
+  headerEl.appendChild(titleEl);
+  headerEl.appendChild(countEl);
+
+  if (lane) {
+    headerEl.addEventListener('click', () => callbacks.onToggleLane(lane.title));
+  } else {
+    headerEl.disabled = true;
+  }
+
+  laneEl.appendChild(headerEl);
+
+  if (!collapsed) {
+    const columnsEl = document.createElement('div');
+    columnsEl.className = 'lane-columns';
+    for (const column of columns) {
+      columnsEl.appendChild(renderColumn(column, callbacks, options));
+    }
+    columnsEl.appendChild(renderAddColumnButton(lane?.id, callbacks));
+    laneEl.appendChild(columnsEl);
+  }
+
+  return laneEl;
+}
+
 /**
  * Render the entire board
  */
 export function renderBoard(
   container: HTMLElement,
   board: KanbanBoard,
-  callbacks: UICallbacks
+  callbacks: UICallbacks,
+  viewOptions: BoardViewOptions = {}
 ): void {
   container.innerHTML = '';
 
   const options: RenderOptions = {
     boardSettings: board.settings,
+    columns: board.columns,
+    filter: viewOptions.filter,
+    filterMode: viewOptions.filterMode,
   };
 
-  for (const column of board.columns) {
-    container.appendChild(renderColumn(column, callbacks, options));
+  const lanes = board.lanes ?? [];
+  container.classList.toggle('has-lanes', lanes.length > 0);
+
+  if (lanes.length === 0) {
+    for (const column of board.columns) {
+      container.appendChild(renderColumn(column, callbacks, options));
+    }
+    container.appendChild(renderAddColumnButton(undefined, callbacks));
+    return;
   }
+
+  // Columns written above the first lane heading get their own unnamed row
+  const unlaned = getLaneColumns(board, undefined);
+  if (unlaned.length > 0) {
+    container.appendChild(renderLane(null, unlaned, false, callbacks, options));
+  }
+
+  for (const lane of lanes) {
+    const collapsed = viewOptions.collapsedLanes?.has(lane.title) ?? false;
+    container.appendChild(
+      renderLane(lane, getLaneColumns(board, lane.id), collapsed, callbacks, options)
+    );
+  }
+}
+
+/**
+ * Scroll a card into view and open its detail modal
+ */
+export function openCardDetails(cardId: string): boolean {
+  const cardEl = document.querySelector(`.kanban-card[data-card-id="${cardId}"]`) as HTMLElement | null;
+  const contentEl = cardEl?.querySelector('.card-content') as HTMLElement | null;
+  if (!cardEl || !contentEl) return false;
+
+  cardEl.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  contentEl.click();
+  return true;
+}
+
+/**
+ * Scroll a card (or its table row) into view, focus it and briefly highlight it
+ */
+export function revealCardElement(cardId: string): boolean {
+  const cardEl = document.querySelector(
+    [
+      `.kanban-card[data-card-id="${cardId}"]`,
+      `.kanban-table-row[data-card-id="${cardId}"]`,
+      `.calendar-card[data-card-id="${cardId}"]`,
+      `.timeline-bar[data-card-id="${cardId}"]`,
+      `.date-tray-card[data-card-id="${cardId}"]`,
+    ].join(', ')
+  ) as HTMLElement | null;
+  if (!cardEl) return false;
+
+  cardEl.scrollIntoView({ block: 'center', inline: 'center' });
+  cardEl.focus();
+  cardEl.classList.add('revealed');
+  setTimeout(() => cardEl.classList.remove('revealed'), 1500);
+  return true;
+}
+
+/**
+ * Briefly flag a column that rejected a drop because it is at its WIP limit
+ */
+export function showWipLimitBlocked(columnId: string): void {
+  const columnEl = document.querySelector(`.kanban-column[data-column-id="${columnId}"]`);
+  if (!columnEl) return;
+
+  columnEl.classList.remove('wip-blocked');
+  // Force reflow so the animation restarts on repeated drops
+  void (columnEl as HTMLElement).offsetWidth;
+  columnEl.classList.add('wip-blocked');
+  setTimeout(() => columnEl.classList.remove('wip-blocked'), 600);
+}
+
+const NOTICE_MS = 8000;
+
+/**
+ * Show a dismissable notice above the board that goes away by itself. A newer
+ * notice replaces the current one.
+ */
+export function showBoardNotice(message: string): void {
+  document.querySelector('.board-notice')?.remove();
+
+  const noticeEl = document.createElement('div');
+  noticeEl.className = 'board-notice';
+  noticeEl.setAttribute('role', 'status');
+
+  const textEl = document.createElement('span');
+  textEl.className = 'board-notice-text';
+  textEl.textContent = message;
+
+  const dismissBtn = document.createElement('button');
+  dismissBtn.className = 'board-notice-dismiss';
+  dismissBtn.textContent = '×';
+  dismissBtn.title = 'Dismiss';
+  dismissBtn.setAttribute('aria-label', 'Dismiss');
+  dismissBtn.addEventListener('click', () => noticeEl.remove());
+
+  noticeEl.appendChild(textEl);
+  noticeEl.appendChild(dismissBtn);
+  document.body.appendChild(noticeEl);
+  setTimeout(() => noticeEl.remove(), NOTICE_MS);
+}
+
+/**
+ * Swap a column's title for an inline input to rename it
+ */
+export function showColumnTitleInput(columnId: string, onSubmit: (title: string) => void): void {
+  const columnEl = document.querySelector(`.kanban-column[data-column-id="${columnId}"]`);
+  const titleEl = columnEl?.querySelector('.column-title') as HTMLElement | null;
+  if (!titleEl) return;
+
+  const original = titleEl.textContent ?? '';
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'column-title-input';
+  input.value = original;
+  titleEl.replaceWith(input);
+  input.focus();
+  input.select();
+
+  let done = false;
+  const finish = (save: boolean) => {
+    if (done) return;
+    done = true;
+    const title = input.value.trim();
+    input.replaceWith(titleEl);
+    if (save && title && title !== original) {
+      onSubmit(title);
+    }
+  };
+
+  input.addEventListener('keydown', (e) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      finish(true);
+    } else if (e.key === 'Escape') {
+      finish(false);
+    }
+  });
+  input.addEventListener('blur', () => finish(true));
 }
 
 /**